@@ -13,6 +13,14 @@ dotenv.config();
 import vehicleRouter from './routes/vehicle';
 // import chatRouter from './routes/chat'; // OpenAI chat - disabled
 import chatV2Router from './routes/chatV2';
+import quoteRouter from './routes/quote';
+import diagnosticsRouter from './routes/diagnostics';
+import bookingRouter from './routes/booking';
+import contactRouter from './routes/contact';
+import inspectionRemindersRouter from './routes/inspectionReminders';
+import customersRouter from './routes/customers';
+import adminRouter from './routes/admin';
+import staffRouter from './routes/staff';
 
 // Import middleware
 import { rateLimiter } from './middleware/rateLimiter';
@@ -20,12 +28,18 @@ import { errorHandler } from './middleware/errorHandler';
 
 // Import services
 import { RedisService } from './services/RedisService';
+import { CacheService } from './services/CacheService';
 import { BMWIntelligence } from './services/BMWIntelligence';
+import { NotificationService } from './services/NotificationService';
+import { InspectionReminderService } from './services/InspectionReminderService';
 import logger from './utils/logger';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Behind the Railway proxy: take the client IP from X-Forwarded-For for rate limiting
+app.set('trust proxy', 1);
+
 // Security middleware
 app.use(helmet());
 
@@ -56,14 +70,17 @@ app.use(express.static(path.join(__dirname, '../public')));
 // Rate limiting
 app.use(rateLimiter);
 
-// Health check endpoint
-app.get('/health', (req, res) => {
+// Health check endpoint; DEGRADED while Redis is down and the in-memory store is used
+app.get('/health', async (req, res) => {
+  const storage = await RedisService.healthCheck();
   res.json({ 
-    status: 'OK', 
+    status: storage.status === 'healthy' ? 'OK' : 'DEGRADED', 
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     version: process.env.npm_package_version || '1.0.0',
-    environment: process.env.NODE_ENV || 'development'
+    environment: process.env.NODE_ENV || 'development',
+    storage,
+    cache: await CacheService.stats()
   });
 });
 
@@ -71,6 +88,14 @@ app.get('/health', (req, res) => {
 app.use('/api/vehicle', vehicleRouter);
 // app.use('/api/chat', chatRouter); // OpenAI chat - disabled
 app.use('/api/v2/chat', chatV2Router);
+app.use('/api/quote', quoteRouter);
+app.use('/api/diagnostics', diagnosticsRouter);
+app.use('/api/booking', bookingRouter);
+app.use('/api/contact', contactRouter);
+app.use('/api/inspection-reminders', inspectionRemindersRouter);
+app.use('/api/customers', customersRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/staff', staffRouter);
 
 // Catch-all route - serve frontend for all non-API GET requests
 app.get('*', (req, res, next) => {
@@ -87,14 +112,17 @@ app.use(errorHandler);
 // Initialize services
 async function initializeServices() {
   try {
-    // Initialize Redis
+    // Initialize Redis; without it the service runs degraded on the in-memory store
     await RedisService.connect();
-    logger.info('Redis connected successfully');
 
     // Initialize BMW Intelligence
     await BMWIntelligence.initialize();
     logger.info('BMW Intelligence initialized');
 
+    // Send queued email and SMS, and booking reminders
+    NotificationService.start();
+    InspectionReminderService.start();
+
     // Start server
     app.listen(PORT, () => {
       logger.info(`🚀 Bemufix API running on port ${PORT}`);
@@ -112,18 +140,20 @@ async function initializeServices() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
+  NotificationService.stop();
+  InspectionReminderService.stop();
   
   await RedisService.disconnect();
-  logger.info('Redis disconnected');
   
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
+  NotificationService.stop();
+  InspectionReminderService.stop();
   
   await RedisService.disconnect();
-  logger.info('Redis disconnected');
   
   process.exit(0);
 });
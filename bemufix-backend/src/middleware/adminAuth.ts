@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { getBearerToken } from './customerAuth';
+import { getStaff, requireStaff } from './staffAuth';
+import { loggers } from '../utils/logger';
+
+/**
+ * Who performed an admin request, for the audit log
+ */
+export function getAdminActor(res: Response): string {
+  return (res.locals.adminActor as string | undefined) ?? 'unknown';
+}
+
+/**
+ * Admin API access with an admin staff access token, or with the
+ * ADMIN_API_KEY bearer token for scripts when one is configured
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const apiKey = process.env.ADMIN_API_KEY;
+  const token = getBearerToken(req);
+  if (apiKey && token && matches(token, apiKey)) {
+    res.locals.adminActor = 'api-key';
+    return next();
+  }
+
+  requireStaff('admin')(req, res, () => {
+    res.locals.adminActor = `staff:${getStaff(res)!.email}`;
+    next();
+  });
+}
+
+/**
+ * Audit every admin request with its outcome once the response is sent
+ */
+export function auditAdmin(req: Request, res: Response, next: NextFunction) {
+  res.on('finish', () => {
+    loggers.security.adminAction(getAdminActor(res), `${req.method} ${req.originalUrl}`, req.ip || 'unknown', res.statusCode);
+  });
+  next();
+}
+
+function matches(token: string, apiKey: string): boolean {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(token), hash(apiKey));
+}
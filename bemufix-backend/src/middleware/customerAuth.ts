@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import type { CustomerAccount } from '../models/Customer';
+import { CustomerService } from '../services/CustomerService';
+import logger from '../utils/logger';
+
+/**
+ * Session token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(req: Request): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Customer of the request, set by optionalCustomer or requireCustomer
+ */
+export function getCustomer(res: Response): CustomerAccount | null {
+  return (res.locals.customer as CustomerAccount | undefined) ?? null;
+}
+
+/**
+ * Attach the logged-in customer to res.locals when the request carries a
+ * valid session token; anonymous requests pass through.
+ */
+export function optionalCustomer(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (token) {
+    try {
+      res.locals.customer = CustomerService.authenticate(token);
+    } catch (error) {
+      logger.error('Customer authentication error:', error);
+    }
+  }
+  next();
+}
+
+/**
+ * Like optionalCustomer, but answers 401 without a valid session
+ */
+export function requireCustomer(req: Request, res: Response, next: NextFunction) {
+  optionalCustomer(req, res, () => {
+    if (!getCustomer(res)) {
+      return res.status(401).json({ error: 'Login required' });
+    }
+    next();
+  });
+}
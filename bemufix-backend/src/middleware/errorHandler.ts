@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+
+/**
+ * Last middleware: errors passed on by routes and the body parsers. Client
+ * errors such as malformed JSON keep their status; anything else is logged
+ * and answered with a generic 500.
+ */
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  // http-errors style errors from body-parser carry the status and whether the message is safe to show
+  const { status, expose, message } = (typeof error === 'object' && error !== null ? error : {}) as {
+    status?: unknown;
+    expose?: unknown;
+    message?: unknown;
+  };
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    const text = error instanceof SyntaxError ? 'Invalid JSON' : expose && typeof message === 'string' ? message : 'Invalid request';
+    return res.status(status).json({ error: text });
+  }
+
+  logger.error(`Unhandled error on ${req.method} ${req.path}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
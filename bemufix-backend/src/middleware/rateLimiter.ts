@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RedisService } from '../services/RedisService';
+import logger from '../utils/logger';
+
+export interface RateLimitOptions {
+  // Redis key prefix, one counter per prefix and client IP
+  prefix: string;
+  windowSeconds: number;
+  max: number;
+}
+
+interface MemoryCounter {
+  count: number;
+  resetAt: number;
+}
+
+// Counters used when the key-value store is unavailable (failover disabled); per process only
+const memoryCounters = new Map<string, MemoryCounter>();
+
+/**
+ * Fixed-window request limit per client IP. Counters live in Redis so every
+ * instance shares them; on the in-memory store each process counts on its own.
+ */
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = `ratelimit:${options.prefix}:${req.ip || 'unknown'}`;
+
+    try {
+      const count = await increment(key, options.windowSeconds);
+
+      res.setHeader('RateLimit-Limit', options.max);
+      res.setHeader('RateLimit-Remaining', Math.max(0, options.max - count));
+
+      if (count > options.max) {
+        logger.warn(`Rate limit exceeded: ${options.prefix} ${req.ip}`);
+        res.setHeader('Retry-After', options.windowSeconds);
+        return res.status(429).json({ error: 'Too many requests' });
+      }
+    } catch (error) {
+      // Never block requests because the counter failed
+      logger.error('Rate limiter error:', error);
+    }
+
+    next();
+  };
+}
+
+async function increment(key: string, windowSeconds: number): Promise<number> {
+  const count = await RedisService.incr(key);
+  if (count !== null) {
+    if (count === 1) {
+      await RedisService.expire(key, windowSeconds);
+    }
+    return count;
+  }
+
+  const now = Date.now();
+  const counter = memoryCounters.get(key);
+  if (!counter || counter.resetAt <= now) {
+    pruneMemoryCounters(now);
+    memoryCounters.set(key, { count: 1, resetAt: now + windowSeconds * 1000 });
+    return 1;
+  }
+  counter.count++;
+  return counter.count;
+}
+
+function pruneMemoryCounters(now: number): void {
+  if (memoryCounters.size < 10000) return;
+  for (const [key, counter] of memoryCounters) {
+    if (counter.resetAt <= now) memoryCounters.delete(key);
+  }
+}
+
+/**
+ * API-wide limit applied in index.ts
+ */
+export const rateLimiter = createRateLimiter({
+  prefix: 'api',
+  windowSeconds: Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 15 * 60,
+  max: Number(process.env.RATE_LIMIT_MAX) || 300
+});
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import type { StaffAccount, StaffRole } from '../models/Staff';
+import { StaffAuthNotConfiguredError, StaffAuthService } from '../services/StaffAuthService';
+import { getBearerToken } from './customerAuth';
+import logger, { loggers } from '../utils/logger';
+
+/**
+ * Staff member of the request, set by requireStaff
+ */
+export function getStaff(res: Response): StaffAccount | null {
+  return (res.locals.staff as StaffAccount | undefined) ?? null;
+}
+
+/**
+ * Require a valid staff access token, and one of `roles` when given.
+ * Answers 401 without a valid token and 403 for another role.
+ */
+export function requireStaff(...roles: StaffRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || 'unknown';
+    const token = getBearerToken(req);
+
+    let staff: StaffAccount | null = null;
+    if (token) {
+      try {
+        staff = StaffAuthService.authenticate(token);
+      } catch (error) {
+        if (error instanceof StaffAuthNotConfiguredError) {
+          return res.status(503).json({ error: 'Staff login not configured' });
+        }
+        logger.error('Staff authentication error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+
+    if (!staff) {
+      loggers.security.authFailure('staff', ip, token ? 'invalid or expired token' : 'no token');
+      return res.status(401).json({ error: 'Login required' });
+    }
+    if (roles.length > 0 && !roles.includes(staff.role)) {
+      loggers.security.authFailure(staff.id, ip, `role ${staff.role} not allowed for ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    res.locals.staff = staff;
+    next();
+  };
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { PartsPriceLevelSchema } from './Vehicle';
+
+export const CATALOG_SCHEMA_VERSION = 1;
+
+const EstimatedValueSchema = z.object({
+  excellent: z.number().nonnegative(),
+  good: z.number().nonnegative(),
+  fair: z.number().nonnegative(),
+  poor: z.number().nonnegative()
+});
+
+export const FuelKindSchema = z.enum(['petrol', 'diesel', 'hybrid', 'electric']);
+
+/**
+ * An engine variant offered for a model, used for matching register data
+ */
+export const CatalogEngineSchema = z.object({
+  code: z.string().min(1),
+  displacementCc: z.number().int().nonnegative(),
+  powerKw: z.number().positive(),
+  fuel: FuelKindSchema
+}).strict();
+
+export const ServiceItemIdSchema = z.enum([
+  'engine-oil',
+  'microfilter',
+  'brake-fluid',
+  'spark-plugs',
+  'coolant',
+  'transmission-fluid',
+  'differential-oil',
+  'timing-chain-inspection'
+]);
+
+export const CostRangeSchema = z.object({
+  min: z.number().nonnegative(),
+  max: z.number().nonnegative()
+}).strict();
+
+/**
+ * Model-specific change to a default service item (knowledge/maintenance);
+ * null removes the km or time interval, `skip` drops the item for the model
+ */
+export const ServiceItemOverrideSchema = z.object({
+  id: ServiceItemIdSchema,
+  kmInterval: z.number().int().positive().nullable().optional(),
+  months: z.number().int().positive().nullable().optional(),
+  cost: CostRangeSchema.optional(),
+  note: z.string().optional(),
+  skip: z.boolean().optional()
+}).strict();
+
+/**
+ * One model entry inside a chassis generation file
+ */
+export const CatalogModelSchema = z.object({
+  series: z.string().min(1),
+  model: z.string().min(1),
+  yearStart: z.number().int().min(1950),
+  yearEnd: z.number().int().min(1950),
+  engineCode: z.string().min(1),
+  engines: z.array(CatalogEngineSchema).optional(),
+  chassisCode: z.string().min(1).optional(),
+  recommendedOil: z.string().min(1),
+  oilCapacity: z.string().min(1),
+  serviceIntervals: z.string().min(1),
+  commonIssues: z.array(z.string().min(1)),
+  estimatedValue: EstimatedValueSchema,
+  partsPriceLevel: PartsPriceLevelSchema,
+  specialNotes: z.string().optional(),
+  serviceItems: z.array(ServiceItemOverrideSchema).optional()
+}).strict().refine(model => model.yearEnd >= model.yearStart, {
+  message: 'yearEnd must not be before yearStart',
+  path: ['yearEnd']
+});
+
+/**
+ * A versioned knowledge-base file covering one chassis generation (e.g. e90.json)
+ */
+export const CatalogFileSchema = z.object({
+  schemaVersion: z.literal(CATALOG_SCHEMA_VERSION),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  generation: z.string().min(1),
+  chassisCode: z.string().min(1),
+  models: z.array(CatalogModelSchema).min(1)
+}).strict();
+
+export type FuelKind = z.infer<typeof FuelKindSchema>;
+export type ServiceItemId = z.infer<typeof ServiceItemIdSchema>;
+export type ServiceItemOverride = z.infer<typeof ServiceItemOverrideSchema>;
+export type CostRange = z.infer<typeof CostRangeSchema>;
+export type CatalogEngine = z.infer<typeof CatalogEngineSchema>;
+export type CatalogFile = z.infer<typeof CatalogFileSchema>;
+
+/**
+ * A catalogue model with its generation details resolved
+ */
+export interface BMWModel extends Omit<z.infer<typeof CatalogModelSchema>, 'chassisCode'> {
+  generation: string;
+  chassisCode: string;
+  source: { file: string; revision: number };
+}
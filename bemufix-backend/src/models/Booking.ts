@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { ServiceItemIdSchema } from './BMWModel';
+import { NotificationLocaleSchema } from './Notification';
+import type { ServiceItemId } from './BMWModel';
+
+const WeekdaySchema = z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd');
+
+export const ResourceTypeSchema = z.enum(['lift', 'technician']);
+
+export type ResourceType = z.infer<typeof ResourceTypeSchema>;
+
+/**
+ * A lift or a technician; every reservation takes one of each
+ */
+const ResourceSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'expected kebab-case id'),
+  type: ResourceTypeSchema,
+  name: z.string().min(1),
+  // Working days when not every opening day
+  days: z.array(WeekdaySchema).optional()
+}).strict();
+
+/**
+ * A maintenance schedule item booked as a price list job, or a fixed time when it has none
+ */
+const ServiceItemWorkSchema = z.union([
+  z.object({ job: z.string().min(1) }).strict(),
+  z.object({ minutes: z.number().int().positive() }).strict()
+]);
+
+/**
+ * Workshop resources and booking rules (knowledge/booking/booking.json);
+ * opening hours come from knowledge/business.json
+ */
+export const BookingFileSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: DateSchema,
+  // Start times are offered on this grid and durations rounded up to it
+  slotMinutes: z.number().int().positive(),
+  // How long a hold keeps the slot while the customer fills in their details
+  holdMinutes: z.number().int().positive(),
+  // Earliest start from now, and how far ahead bookings are taken
+  minNoticeHours: z.number().nonnegative(),
+  horizonDays: z.number().int().positive(),
+  // Online cancellation closes this long before the start
+  cancelNoticeHours: z.number().nonnegative(),
+  // Duration of a booking with no known work, e.g. an inspection
+  defaultMinutes: z.number().int().positive(),
+  resources: z.array(ResourceSchema).min(2),
+  serviceItems: z.record(ServiceItemIdSchema, ServiceItemWorkSchema),
+  // Public holidays and other days the workshop is closed
+  closedDates: z.array(DateSchema)
+}).strict();
+
+export type BookingFile = z.infer<typeof BookingFileSchema>;
+export type BookingResource = z.infer<typeof ResourceSchema>;
+
+/**
+ * The work to book: price list jobs and maintenance items. With only a
+ * registration number, the car's due maintenance items are booked.
+ */
+export const WorkRequestSchema = z.object({
+  jobs: z.array(z.string().min(1)).max(20).optional(),
+  serviceItems: z.array(ServiceItemIdSchema).max(20).optional(),
+  registrationNumber: z.string().min(1).max(10).optional()
+});
+
+export type WorkRequest = z.infer<typeof WorkRequestSchema>;
+
+export const CustomerSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  phone: z.string().trim().regex(/^\+?[\d\s-]{6,20}$/, 'expected phone number'),
+  email: z.string().trim().email().max(200).optional(),
+  // Language of the confirmation and reminder messages, default fi
+  locale: NotificationLocaleSchema.optional()
+});
+
+export type Customer = z.infer<typeof CustomerSchema>;
+
+export interface WorkEstimate {
+  // Rounded up to the slot grid
+  minutes: number;
+  lines: { id: string; name: string; minutes: number }[];
+  // Price list jobs and maintenance items covered
+  jobs: string[];
+  serviceItems: ServiceItemId[];
+  vehicle: string | null;
+}
+
+export interface DayAvailability {
+  date: string;
+  // HH:MM, null when closed
+  open: string | null;
+  close: string | null;
+  // Free start times, HH:MM
+  slots: string[];
+}
+
+export type ReservationStatus = 'held' | 'confirmed' | 'cancelled';
+
+export type ReservationSource = 'web' | 'chat';
+
+export interface Reservation {
+  id: string;
+  status: ReservationStatus;
+  source: ReservationSource;
+  date: string;
+  // HH:MM
+  start: string;
+  end: string;
+  minutes: number;
+  liftId: string;
+  technicianId: string;
+  jobs: string[];
+  serviceItems: ServiceItemId[];
+  registrationNumber?: string;
+  customer?: Customer;
+  notes?: string;
+  // ISO timestamps
+  holdExpiresAt?: string;
+  createdAt: string;
+  confirmedAt?: string;
+  cancelledAt?: string;
+  reminderQueuedAt?: string;
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Empty form fields are sent as '', treat them as not given
+const optionalField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([z.literal('').transform(() => undefined), schema]).optional();
+
+/**
+ * Contact form submission from the website
+ */
+export const ContactRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  phone: optionalField(z.string().trim().regex(/^\+?[\d\s-]{6,20}$/, 'expected phone number')),
+  email: optionalField(z.string().trim().email().max(200)),
+  message: z.string().trim().min(1).max(5000),
+  // Honeypot: hidden from people, filled in by bots
+  website: z.string().max(500).optional()
+}).refine(request => request.phone || request.email, {
+  message: 'phone or email is required',
+  path: ['phone']
+});
+
+export type ContactRequest = z.infer<typeof ContactRequestSchema>;
+
+export interface ContactInquiry {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  message: string;
+  // ISO timestamps
+  createdAt: string;
+  // False when the workshop notification could not be queued or sent
+  notificationQueued: boolean;
+}
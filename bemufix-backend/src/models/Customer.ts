@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { NotificationLocaleSchema } from './Notification';
+import type { NotificationLocale } from './Notification';
+import type { Vehicle } from './Vehicle';
+
+export const LoginRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(200),
+  locale: NotificationLocaleSchema.optional()
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+
+/**
+ * The six-digit code from the login email, or the token of its link
+ */
+export const LoginVerifyRequestSchema = z.union([
+  z.object({
+    email: z.string().trim().toLowerCase().email().max(200),
+    code: z.string().trim().regex(/^\d{6}$/, 'expected six digits')
+  }),
+  z.object({
+    token: z.string().min(1).max(100)
+  })
+]);
+
+export type LoginVerifyRequest = z.infer<typeof LoginVerifyRequestSchema>;
+
+export const GarageVehicleRequestSchema = z.object({
+  registrationNumber: z.string().min(1).max(10),
+  nickname: z.string().trim().max(40).optional()
+});
+
+export type GarageVehicleRequest = z.infer<typeof GarageVehicleRequestSchema>;
+
+export interface CustomerAccount {
+  id: string;
+  email: string;
+  name?: string;
+  phone?: string;
+  locale: NotificationLocale;
+  // ISO timestamps
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+export type VehicleHistoryType = 'added' | 'chat' | 'quote' | 'triage' | 'booking';
+
+export interface VehicleHistoryEntry {
+  type: VehicleHistoryType;
+  // Short Finnish description shown in the garage
+  summary: string;
+  // Chat session or reservation id
+  reference?: string;
+  createdAt: string;
+}
+
+/**
+ * A car saved to a customer's garage. The register data and BMW intelligence
+ * are kept from the last lookup so the garage and chat work without one.
+ */
+export interface GarageVehicle {
+  registrationNumber: string;
+  nickname?: string;
+  vehicle: Vehicle | null;
+  // Newest first
+  history: VehicleHistoryEntry[];
+  addedAt: string;
+  refreshedAt?: string;
+}
+
+/**
+ * A pending login: hashes of the emailed code and link token
+ */
+export interface LoginChallenge {
+  email: string;
+  locale: NotificationLocale;
+  codeHash: string;
+  linkHash: string;
+  attempts: number;
+  expiresAt: string;
+  createdAt: string;
+}
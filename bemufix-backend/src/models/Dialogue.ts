@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { IntentSchema } from './Intent';
+import type { TriageAnswer } from './Triage';
+
+export const FlowNameSchema = z.enum(['booking', 'quote', 'triage', 'inspection_reminder']);
+
+export type FlowName = z.infer<typeof FlowNameSchema>;
+
+/**
+ * Values a flow can ask for. The intent slots come from SlotExtractor; phone
+ * is a Finnish phone number, symptom is free text, followUps are answers to the
+ * triage questions of TriageService and confirm is a yes/no answer.
+ */
+export const DialogueSlotNameSchema = z.enum([
+  'registrationNumber',
+  'serviceTypes',
+  'date',
+  'time',
+  'phone',
+  'symptom',
+  'followUps',
+  'confirm'
+]);
+
+export type DialogueSlotName = z.infer<typeof DialogueSlotNameSchema>;
+
+export interface DialogueSlots {
+  registrationNumber?: string;
+  serviceTypes?: string[];
+  date?: string;
+  time?: string;
+  phone?: string;
+  symptom?: string;
+  followUps?: TriageAnswer[];
+  confirm?: boolean;
+}
+
+/**
+ * One question of a flow. Texts may use {openingHours}, {phone}, {summary},
+ * {question} (the next triage question) and {consent} (the inspection
+ * reminder consent text).
+ */
+const FlowStepSchema = z.object({
+  slot: DialogueSlotNameSchema,
+  prompt: z.string().min(1),
+  // Asked again when the answer did not contain the value
+  retry: z.string().min(1),
+  // A "no" answer skips the step. followUps steps repeat while triage has questions.
+  optional: z.boolean().optional(),
+  // The message that started the flow answers the step (free text slots)
+  fromStartMessage: z.boolean().optional()
+}).strict();
+
+export type FlowStep = z.infer<typeof FlowStepSchema>;
+
+const FlowSchema = z.object({
+  // Intents that start the flow, when the message also has all `requires` slots
+  start: z.object({
+    intents: z.array(IntentSchema).min(1),
+    requires: z.array(DialogueSlotNameSchema).optional()
+  }).strict(),
+  // Shown before the first question
+  intro: z.string().min(1).optional(),
+  // Yes/no question when another flow offers this one
+  offer: z.string().min(1).optional(),
+  cancelled: z.string().min(1),
+  steps: z.array(FlowStepSchema).min(1),
+  // Flow offered with a yes/no question once this one is complete
+  next: FlowNameSchema.optional()
+}).strict();
+
+export type Flow = z.infer<typeof FlowSchema>;
+
+/**
+ * Chat dialogue flows (knowledge/dialogue/flows.json)
+ */
+export const DialogueFlowsSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  commands: z.object({
+    cancel: z.array(z.string().min(1)).min(1),
+    back: z.array(z.string().min(1)).min(1),
+    yes: z.array(z.string().min(1)).min(1),
+    no: z.array(z.string().min(1)).min(1)
+  }).strict(),
+  flows: z.record(FlowNameSchema, FlowSchema)
+}).strict();
+
+export type DialogueFlows = z.infer<typeof DialogueFlowsSchema>;
+
+/**
+ * Where a chat session is in a flow, stored with the session
+ */
+export interface DialogueState {
+  flow: FlowName;
+  // Slot the last bot message asked for
+  pending: DialogueSlotName | null;
+  slots: DialogueSlots;
+  // Steps answered in this flow, latest last, for "takaisin"
+  answered: DialogueSlotName[];
+}
+
+/**
+ * A flow the bot has offered with a yes/no question, e.g. booking after a quote
+ */
+export interface DialogueOffer {
+  flow: FlowName;
+  // Values carried over to the offered flow
+  slots: DialogueSlots;
+}
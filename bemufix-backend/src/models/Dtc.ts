@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { UrgencySchema } from './Triage';
+import type { Urgency } from './Triage';
+
+// Generic OBD-II codes (P0171) and BMW DME/DDE hex codes (2A82)
+export const DtcSystemSchema = z.enum(['obd', 'dme', 'dde']);
+
+export type DtcSystem = z.infer<typeof DtcSystemSchema>;
+
+// Engine family: the first three characters of the engine code ("N47" for N47D20)
+const EngineFamilySchema = z.string().regex(/^[A-Z]\d{2}$/, 'expected engine family like N47');
+
+const DtcDetailsSchema = z.object({
+  name: z.string().min(1),
+  // Typical causes in Finnish, likeliest first
+  causes: z.array(z.string().min(1)).min(1),
+  // Price list jobs that usually fix the fault; empty when priced after diagnosis
+  jobs: z.array(z.string().min(1)),
+  urgency: UrgencySchema,
+  // Lowercase fragments of catalogue `commonIssues` ("timing chain") linked to the code
+  issues: z.array(z.string().min(1)).optional()
+}).strict();
+
+const DtcCodeSchema = DtcDetailsSchema.extend({
+  system: DtcSystemSchema,
+  // What the code means on a given engine family, replacing the generic details
+  engines: z.record(EngineFamilySchema, DtcDetailsSchema.partial().strict()).optional()
+}).strict();
+
+/**
+ * Fault code knowledge base (knowledge/dtc/codes.json)
+ */
+export const DtcFileSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  codes: z.record(z.string().regex(/^([PCBU][0-3][0-9A-F]{3}|[0-9A-F]{4,6})$/, 'expected OBD-II or BMW hex code'), DtcCodeSchema)
+}).strict();
+
+export type DtcFile = z.infer<typeof DtcFileSchema>;
+export type DtcCode = z.infer<typeof DtcCodeSchema>;
+
+export interface DtcLookup {
+  code: string;
+  system: DtcSystem;
+  name: string;
+  causes: string[];
+  jobs: string[];
+  urgency: Urgency;
+  // Engine family the answer was given for, null when unknown
+  engine: string | null;
+  // True when the knowledge base has details for this engine family
+  engineSpecific: boolean;
+  // Catalogue issues of the engine family linked to the code
+  knownIssues: string[];
+  // Repair estimate including VAT, null when priced after diagnosis
+  price: { min: number; max: number } | null;
+}
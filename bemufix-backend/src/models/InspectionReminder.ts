@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { NotificationLocaleSchema } from './Notification';
+import type { NotificationLocale } from './Notification';
+
+/**
+ * Reminder rules and consent texts (knowledge/inspection/reminders.json)
+ */
+export const InspectionReminderFileSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  // Days before the deadline when reminders are sent
+  reminderDays: z.array(z.number().int().positive()).min(1),
+  // How often the deadline is checked again from the register
+  recheckHours: z.number().positive(),
+  // Price list job offered with the reminder
+  offerJob: z.string().min(1),
+  consent: z.record(NotificationLocaleSchema, z.string().min(1))
+}).strict();
+
+export type InspectionReminderFile = z.infer<typeof InspectionReminderFileSchema>;
+
+export const InspectionSubscribeRequestSchema = z.object({
+  registrationNumber: z.string().min(1).max(10),
+  email: z.string().trim().email().max(200).optional(),
+  phone: z.string().trim().regex(/^\+?[\d\s-]{6,20}$/, 'expected phone number').optional(),
+  locale: NotificationLocaleSchema.optional(),
+  // The customer accepted the consent text
+  consent: z.literal(true)
+}).refine(request => request.phone || request.email, {
+  message: 'phone or email is required',
+  path: ['phone']
+});
+
+export type InspectionSubscribeRequest = z.infer<typeof InspectionSubscribeRequestSchema>;
+
+export type InspectionSubscriptionStatus = 'active' | 'unsubscribed';
+
+export type InspectionSubscriptionSource = 'web' | 'chat';
+
+export interface InspectionSubscription {
+  id: string;
+  status: InspectionSubscriptionStatus;
+  source: InspectionSubscriptionSource;
+  registrationNumber: string;
+  email?: string;
+  phone?: string;
+  locale: NotificationLocale;
+  // Deadline from the register, yyyy-mm-dd; null until known
+  inspectionDue: string | null;
+  // Reminders sent, per deadline and reminder day
+  remindersSent: { due: string; days: number; sentAt: string }[];
+  // ISO timestamps
+  checkedAt?: string;
+  createdAt: string;
+  unsubscribedAt?: string;
+}
+
+export type ConsentAction = 'given' | 'withdrawn';
+
+/**
+ * What the customer agreed to or withdrew, and when
+ */
+export interface ConsentRecord {
+  subscriptionId: string;
+  action: ConsentAction;
+  source: InspectionSubscriptionSource;
+  // The consent text shown, empty when withdrawn
+  text: string;
+  createdAt: string;
+}
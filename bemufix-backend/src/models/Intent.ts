@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const IntentSchema = z.enum([
+  'greeting',
+  'vehicle_lookup',
+  'price_query',
+  'booking',
+  'opening_hours',
+  'location',
+  'symptom',
+  'human_handoff',
+  'bmw_info',
+  'fault_code',
+  'inspection_reminder',
+  'unknown'
+]);
+
+export type Intent = z.infer<typeof IntentSchema>;
+
+export const SlotNameSchema = z.enum(['registrationNumber', 'serviceTypes', 'date', 'time', 'faultCodes']);
+
+/**
+ * Values picked out of a chat message
+ */
+export const IntentSlotsSchema = z.object({
+  registrationNumber: z.string().optional(),
+  // Repair job ids from the price list
+  serviceTypes: z.array(z.string()).optional(),
+  // yyyy-mm-dd
+  date: z.string().optional(),
+  // HH:MM
+  time: z.string().optional(),
+  // OBD-II or BMW fault codes, upper case
+  faultCodes: z.array(z.string()).optional()
+});
+
+export type IntentSlots = z.infer<typeof IntentSlotsSchema>;
+
+/**
+ * Keyword model for the offline classifier (knowledge/intents/model.json).
+ * Keywords are plain Finnish words or phrases; they are stemmed on load.
+ */
+export const IntentModelSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  minScore: z.number().positive(),
+  intents: z.record(IntentSchema, z.record(z.string().min(1), z.number())),
+  slotBoosts: z.record(SlotNameSchema, z.record(IntentSchema, z.number())).optional()
+}).strict();
+
+export type IntentModel = z.infer<typeof IntentModelSchema>;
+
+export interface IntentResult {
+  intent: Intent;
+  confidence: number;
+  slots: IntentSlots;
+  classifier: string;
+  scores: Partial<Record<Intent, number>>;
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { CostRange, CostRangeSchema, FuelKindSchema, ServiceItemId, ServiceItemIdSchema } from './BMWModel';
+
+export const SERVICE_ITEMS_SCHEMA_VERSION = 1;
+
+export const TransmissionSchema = z.enum(['manual', 'automatic', 'dct']);
+
+export const MaintenancePrioritySchema = z.enum(['High', 'Medium', 'Low']);
+
+/**
+ * A default service item with km and time intervals; whichever comes first applies
+ */
+export const ServiceItemSchema = z.object({
+  id: ServiceItemIdSchema,
+  name: z.string().min(1),
+  kmInterval: z.number().int().positive().nullable(),
+  months: z.number().int().positive().nullable(),
+  cost: CostRangeSchema,
+  priority: MaintenancePrioritySchema,
+  fuels: z.array(FuelKindSchema).optional(),
+  transmissions: z.array(TransmissionSchema).optional(),
+  note: z.string().optional()
+}).strict().refine(item => item.kmInterval !== null || item.months !== null, {
+  message: 'item needs a km or a time interval',
+  path: ['kmInterval']
+});
+
+/**
+ * Default service items (knowledge/maintenance/service-items.json)
+ */
+export const ServiceItemsFileSchema = z.object({
+  schemaVersion: z.literal(SERVICE_ITEMS_SCHEMA_VERSION),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  items: z.array(ServiceItemSchema).min(1)
+}).strict();
+
+/**
+ * When a service item was last done
+ */
+export const ServiceRecordSchema = z.object({
+  item: ServiceItemIdSchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  odometer: z.number().nonnegative().optional()
+});
+
+export type Transmission = z.infer<typeof TransmissionSchema>;
+export type MaintenancePriority = z.infer<typeof MaintenancePrioritySchema>;
+export type ServiceItem = z.infer<typeof ServiceItemSchema>;
+export type ServiceRecord = z.infer<typeof ServiceRecordSchema>;
+
+/**
+ * overdue: past the km or date limit; due-soon: within the warning window;
+ * no-record: no history and the first interval since registration has passed
+ */
+export type MaintenanceStatus = 'overdue' | 'due-soon' | 'no-record' | 'ok';
+
+/**
+ * One line of the schedule, like a Condition Based Service item
+ */
+export interface MaintenanceScheduleEntry {
+  item: ServiceItemId;
+  service: string;
+  status: MaintenanceStatus;
+  priority: MaintenancePriority;
+  dueDate: string | null;
+  dueOdometer: number | null;
+  remainingDays: number | null;
+  remainingKm: number | null;
+  lastDone: ServiceRecord | null;
+  cost: CostRange;
+  estimatedCost: string;
+  note?: string;
+}
+
+export interface MaintenancePlan {
+  generatedAt: string;
+  odometer: number | null;
+  annualKm: number;
+  model: { generation: string; model: string } | null;
+  entries: MaintenanceScheduleEntry[];
+  // Overdue, due-soon and no-record items
+  dueNowCost: CostRange;
+}
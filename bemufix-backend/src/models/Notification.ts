@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+export const NotificationTemplateIdSchema = z.enum([
+  'booking_confirmed',
+  'booking_reminder',
+  'booking_request',
+  'car_ready',
+  'contact_received',
+  'inspection_reminder',
+  'login_code'
+]);
+
+export type NotificationTemplateId = z.infer<typeof NotificationTemplateIdSchema>;
+
+export const NotificationChannelSchema = z.enum(['email', 'sms']);
+
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+
+export const NotificationLocaleSchema = z.enum(['fi', 'en']);
+
+export type NotificationLocale = z.infer<typeof NotificationLocaleSchema>;
+
+/**
+ * Texts of one template in one language. Placeholders are written
+ * {{param}}; {{#param}}...{{/param}} is left out when the param is empty
+ * and {{^param}}...{{/param}} is only kept then.
+ */
+const TemplateTextSchema = z.object({
+  subject: z.string().min(1),
+  email: z.string().min(1),
+  sms: z.string().min(1)
+}).strict();
+
+const TemplateSchema = z.object({
+  // Params the texts may refer to
+  params: z.array(z.string().regex(/^[a-zA-Z]+$/, 'expected camelCase name')),
+  fi: TemplateTextSchema,
+  en: TemplateTextSchema
+}).strict();
+
+/**
+ * Message templates (knowledge/notifications/templates.json)
+ */
+export const NotificationTemplatesFileSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  templates: z.record(NotificationTemplateIdSchema, TemplateSchema)
+}).strict();
+
+export type NotificationTemplatesFile = z.infer<typeof NotificationTemplatesFileSchema>;
+
+/**
+ * A message waiting in the delivery queue
+ */
+export interface NotificationJob {
+  id: string;
+  template: NotificationTemplateId;
+  channel: NotificationChannel;
+  // Email address or phone number
+  to: string;
+  locale: NotificationLocale;
+  params: Record<string, string>;
+  attempts: number;
+  // ISO timestamps; the job is not sent before notBefore
+  notBefore: string;
+  createdAt: string;
+  lastError?: string;
+}
+
+/**
+ * A rendered message handed to a delivery adapter
+ */
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  to: string;
+  // Email only
+  subject?: string;
+  text: string;
+}
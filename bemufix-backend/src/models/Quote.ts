@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { PartsPriceLevel, PartsPriceLevelSchema } from './Vehicle';
+
+export const PRICING_SCHEMA_VERSION = 1;
+
+const PartSchema = z.object({
+  name: z.string().min(1),
+  // Euros excluding VAT at the Medium parts price level
+  price: z.number().nonnegative()
+}).strict();
+
+/**
+ * Model-specific labour and parts; every given field must match.
+ * engineCode matches by prefix, so "N47" covers N47D20.
+ */
+const JobOverrideSchema = z.object({
+  match: z.object({
+    generation: z.string().min(1).optional(),
+    series: z.string().min(1).optional(),
+    engineCode: z.string().min(1).optional()
+  }).strict(),
+  labourHours: z.number().nonnegative().optional(),
+  parts: z.array(PartSchema).optional(),
+  note: z.string().optional()
+}).strict();
+
+export const RepairJobSchema = z.object({
+  id: z.string().regex(/^[a-z_]+$/, 'expected snake_case id'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  keywords: z.array(z.string().min(1)),
+  labourHours: z.number().nonnegative(),
+  parts: z.array(PartSchema),
+  overrides: z.array(JobOverrideSchema).optional()
+}).strict();
+
+/**
+ * Shop rate, VAT and repair jobs (knowledge/pricing/pricing.json)
+ */
+export const PricingFileSchema = z.object({
+  schemaVersion: z.literal(PRICING_SCHEMA_VERSION),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  shopRate: z.number().positive(),
+  vatRate: z.number().min(0).max(1),
+  partsPriceFactors: z.record(PartsPriceLevelSchema, z.number().positive()),
+  consumables: z.object({
+    name: z.string().min(1),
+    rate: z.number().min(0).max(1),
+    max: z.number().nonnegative()
+  }).strict(),
+  jobs: z.array(RepairJobSchema).min(1)
+}).strict();
+
+export type RepairJob = z.infer<typeof RepairJobSchema>;
+export type PricingFile = z.infer<typeof PricingFileSchema>;
+
+/**
+ * The vehicle facts that change a quote
+ */
+export interface QuoteContext {
+  generation?: string;
+  series?: string;
+  engineCode?: string;
+  partsPriceLevel?: PartsPriceLevel;
+  model?: string;
+}
+
+export type QuoteLineType = 'labour' | 'parts' | 'consumables';
+
+export interface QuoteLine {
+  job: string;
+  type: QuoteLineType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+/**
+ * An itemised quote; all line prices exclude VAT
+ */
+export interface RepairQuote {
+  jobs: { id: string; name: string; note?: string }[];
+  vehicle: string | null;
+  partsPriceLevel: PartsPriceLevel;
+  shopRate: number;
+  vatRate: number;
+  lines: QuoteLine[];
+  totals: {
+    labour: number;
+    parts: number;
+    consumables: number;
+    excludingVat: number;
+    vat: number;
+    includingVat: number;
+  };
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+export const StaffRoleSchema = z.enum(['admin', 'technician', 'front_desk']);
+
+export type StaffRole = z.infer<typeof StaffRoleSchema>;
+
+const EmailSchema = z.string().trim().toLowerCase().email().max(200);
+const PasswordSchema = z.string().min(12, 'at least 12 characters').max(200);
+
+export const StaffLoginRequestSchema = z.object({
+  email: EmailSchema,
+  password: z.string().min(1).max(200)
+});
+
+export type StaffLoginRequest = z.infer<typeof StaffLoginRequestSchema>;
+
+export const StaffRefreshRequestSchema = z.object({
+  refreshToken: z.string().min(1).max(200)
+});
+
+export type StaffRefreshRequest = z.infer<typeof StaffRefreshRequestSchema>;
+
+export const CreateStaffRequestSchema = z.object({
+  email: EmailSchema,
+  name: z.string().trim().min(1).max(100),
+  role: StaffRoleSchema,
+  password: PasswordSchema
+});
+
+export type CreateStaffRequest = z.infer<typeof CreateStaffRequestSchema>;
+
+export const UpdateStaffRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  role: StaffRoleSchema.optional(),
+  password: PasswordSchema.optional(),
+  disabled: z.boolean().optional()
+});
+
+export type UpdateStaffRequest = z.infer<typeof UpdateStaffRequestSchema>;
+
+export interface StaffAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  // scrypt$N$r$p$salt$hash
+  passwordHash: string;
+  disabled: boolean;
+  // Wrong passwords since the last successful login or lockout
+  failedLogins: number;
+  // ISO timestamps
+  lockedUntil?: string;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+/**
+ * Claims of a staff access token
+ */
+export interface StaffTokenClaims {
+  sub: string;
+  email: string;
+  role: StaffRole;
+  iat: number;
+  exp: number;
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+export const UrgencySchema = z.enum(['safe', 'soon', 'stop']);
+
+export type Urgency = z.infer<typeof UrgencySchema>;
+
+// Finnish keywords or phrases with a weight, stemmed on load like the intent model
+const KeywordsSchema = z.record(z.string().min(1), z.number().positive());
+
+const CauseSchema = z.object({
+  name: z.string().min(1),
+  // Price list jobs that fix the cause; empty when the repair is priced after diagnosis
+  jobs: z.array(z.string().min(1)),
+  urgency: UrgencySchema,
+  // Lowercase fragments of catalogue `commonIssues` ("timing chain") that make the cause likelier for the model
+  issues: z.array(z.string().min(1)).optional()
+}).strict();
+
+const AnswerSchema = z.object({
+  keywords: KeywordsSchema,
+  // Multipliers for cause weights when the answer matches
+  causes: z.record(z.string().min(1), z.number().nonnegative()).optional(),
+  // Raises the urgency of the result
+  urgency: UrgencySchema.optional()
+}).strict();
+
+const QuestionSchema = z.object({
+  text: z.string().min(1),
+  answers: z.array(AnswerSchema).min(1)
+}).strict();
+
+const SymptomSchema = z.object({
+  id: z.string().regex(/^[a-z_]+$/, 'expected snake_case id'),
+  name: z.string().min(1),
+  keywords: KeywordsSchema,
+  // Cause id -> prior weight for this symptom
+  causes: z.record(z.string().min(1), z.number().positive()),
+  // Follow-up question ids, most useful first
+  questions: z.array(z.string().min(1))
+}).strict();
+
+/**
+ * Symptoms, causes and follow-up questions for the chat triage (knowledge/triage/symptoms.json)
+ */
+export const TriageFileSchema = z.object({
+  schemaVersion: z.literal(1),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  urgency: z.record(UrgencySchema, z.object({ label: z.string().min(1), advice: z.string().min(1) }).strict()),
+  causes: z.record(z.string().regex(/^[a-z_]+$/, 'expected snake_case id'), CauseSchema),
+  questions: z.record(z.string().regex(/^[a-z_]+$/, 'expected snake_case id'), QuestionSchema),
+  // Asked when the description matches no symptom
+  fallbackQuestion: z.string().min(1),
+  symptoms: z.array(SymptomSchema).min(1)
+}).strict();
+
+export type TriageFile = z.infer<typeof TriageFileSchema>;
+export type TriageCause = z.infer<typeof CauseSchema>;
+export type TriageQuestion = z.infer<typeof QuestionSchema>;
+
+/**
+ * A follow-up question and the customer's free text answer
+ */
+export interface TriageAnswer {
+  // Question id, or "fallback" for the generic clarification
+  question: string;
+  answer: string;
+}
+
+export interface TriageInput {
+  symptom: string;
+  answers?: TriageAnswer[];
+}
+
+export interface ProbableCause {
+  id: string;
+  name: string;
+  // Share of the total cause score, 0-1
+  probability: number;
+  urgency: Urgency;
+  jobs: string[];
+  // Repair estimate including VAT, null when priced after diagnosis
+  price: { min: number; max: number } | null;
+  // The catalogue issue of the car's model that matched
+  modelIssue?: string;
+}
+
+export interface TriageResult {
+  symptoms: { id: string; name: string; score: number }[];
+  causes: ProbableCause[];
+  urgency: Urgency;
+  // Span of the listed causes' repair estimates
+  price: { min: number; max: number } | null;
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const VehicleConditionSchema = z.enum(['excellent', 'good', 'fair', 'poor']);
+
+export const IssueSeveritySchema = z.enum(['none', 'minor', 'major', 'critical']);
+
+/**
+ * Market value estimate in euros, calibrated from comparable sales
+ */
+export const ValuationSchema = z.object({
+  currency: z.literal('EUR'),
+  values: z.object({
+    excellent: z.number().nonnegative(),
+    good: z.number().nonnegative(),
+    fair: z.number().nonnegative(),
+    poor: z.number().nonnegative()
+  }),
+  // 80 % band around the value for `condition`
+  condition: VehicleConditionSchema,
+  band: z.object({
+    low: z.number().nonnegative(),
+    high: z.number().nonnegative()
+  }),
+  confidence: z.enum(['high', 'medium', 'low']),
+  comparables: z.number().int().nonnegative(),
+  basis: z.enum(['comparables', 'catalogue']),
+  asOf: z.string()
+});
+
+export type VehicleCondition = z.infer<typeof VehicleConditionSchema>;
+export type IssueSeverity = z.infer<typeof IssueSeveritySchema>;
+export type Valuation = z.infer<typeof ValuationSchema>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { ValuationSchema } from './Valuation';
+
+export const VehicleSourceSchema = z.enum(['opendata', 'traficom', '02rekkari', 'fixture']);
+
+export const PartsPriceLevelSchema = z.enum(['Low', 'Medium', 'High', 'Premium']);
+
+/**
+ * BMW-specific data attached to a vehicle by BMWIntelligence
+ */
+export const VehicleIntelligenceSchema = z.object({
+  engineCode: z.string(),
+  generation: z.string(),
+  chassisCode: z.string(),
+  recommendedOil: z.string(),
+  oilCapacity: z.string(),
+  serviceIntervals: z.string(),
+  commonIssues: z.array(z.string()),
+  estimatedValue: ValuationSchema.nullable(),
+  partsPriceLevel: PartsPriceLevelSchema,
+  specialNotes: z.string().optional(),
+  match: z.object({
+    confidence: z.number().min(0).max(1),
+    alternatives: z.array(z.object({
+      generation: z.string(),
+      model: z.string(),
+      engineCode: z.string(),
+      confidence: z.number().min(0).max(1)
+    }))
+  }).optional()
+});
+
+/**
+ * Canonical vehicle model shared by every registry source, service and route.
+ * Measurements are numeric: engineDisplacement in cc, enginePower in kW,
+ * co2Emissions in g/km, mass in kg and odometer in km. Dates are ISO yyyy-mm-dd.
+ */
+export const VehicleSchema = z.object({
+  registrationNumber: z.string(),
+  vin: z.string().optional(),
+  make: z.string(),
+  model: z.string(),
+  modelYear: z.number().int().optional(),
+  firstRegistration: z.string().optional(),
+  color: z.string().optional(),
+  fuelType: z.string().optional(),
+  engineDisplacement: z.number().nonnegative().optional(),
+  enginePower: z.number().nonnegative().optional(),
+  co2Emissions: z.number().nonnegative().optional(),
+  mass: z.number().nonnegative().optional(),
+  seats: z.number().int().nonnegative().optional(),
+  euroClass: z.string().optional(),
+  vehicleClass: z.string().optional(),
+  taxClass: z.string().optional(),
+  odometer: z.number().nonnegative().optional(),
+  inspectionExpiry: z.string().optional(),
+  bmwSpecific: VehicleIntelligenceSchema.optional(),
+  source: VehicleSourceSchema,
+  fetchedAt: z.string(),
+  confidence: z.number().min(0).max(1)
+});
+
+export type VehicleSource = z.infer<typeof VehicleSourceSchema>;
+export type PartsPriceLevel = z.infer<typeof PartsPriceLevelSchema>;
+export type VehicleIntelligence = z.infer<typeof VehicleIntelligenceSchema>;
+export type Vehicle = z.infer<typeof VehicleSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+export const VIN_TABLE_SCHEMA_VERSION = 1;
+
+export const VinBodyStyleSchema = z.enum([
+  'sedan', 'touring', 'coupe', 'convertible', 'gran-turismo', 'gran-coupe', 'compact', 'suv', 'roadster'
+]);
+
+/**
+ * What a BMW type code (VIN positions 4-7) tells about the car
+ */
+export const VinTypeCodeSchema = z.object({
+  model: z.string().min(1),
+  chassisCode: z.string().min(1),
+  engineCode: z.string().min(1),
+  body: VinBodyStyleSchema
+}).strict();
+
+/**
+ * Local lookup tables for decoding BMW VINs (knowledge/vin/bmw.json)
+ */
+export const VinTableSchema = z.object({
+  schemaVersion: z.literal(VIN_TABLE_SCHEMA_VERSION),
+  revision: z.number().int().positive(),
+  updated: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd'),
+  manufacturers: z.record(z.string().regex(/^[A-HJ-NPR-Z0-9]{3}$/, 'expected a 3-character WMI'), z.string().min(1)),
+  plants: z.record(z.string().regex(/^[A-HJ-NPR-Z0-9]$/, 'expected a single plant character'), z.string().min(1)),
+  typeCodes: z.record(z.string().regex(/^[A-HJ-NPR-Z0-9]{4}$/, 'expected a 4-character type code'), VinTypeCodeSchema)
+}).strict();
+
+export type VinBodyStyle = z.infer<typeof VinBodyStyleSchema>;
+export type VinTypeCode = z.infer<typeof VinTypeCodeSchema>;
+export type VinTable = z.infer<typeof VinTableSchema>;
+
+/**
+ * A VIN split into its parts, with BMW table lookups resolved
+ */
+export interface DecodedVin {
+  vin: string;
+  valid: boolean;
+  checkDigit: { expected: string; actual: string };
+  wmi: string;
+  manufacturer: string | null;
+  isBmw: boolean;
+  typeCode: string;
+  type: VinTypeCode | null;
+  modelYear: number | null;
+  plantCode: string;
+  plant: string | null;
+  serial: string;
+}
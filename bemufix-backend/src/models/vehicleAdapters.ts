@@ -0,0 +1,170 @@
+import type { Vehicle } from './Vehicle';
+
+// Traficom open data "kayttovoima" codes
+const FUEL_CODES: Record<string, string> = {
+  '01': 'Bensiini',
+  '02': 'Diesel',
+  '03': 'Polttoöljy',
+  '04': 'Sähkö',
+  '05': 'Vety',
+  '06': 'Kaasu',
+  '07': 'Metanoli',
+  '10': 'Biodiesel',
+  '11': 'LPG',
+  '13': 'CNG',
+  '34': 'Bensiini/CNG',
+  '37': 'Etanoli',
+  '38': 'Bensiini/Etanoli',
+  '39': 'Bensiini/Sähkö',
+  '40': 'Diesel/Sähkö'
+};
+
+/**
+ * Raw label/value pairs scraped from the Traficom vehicle information page
+ */
+export interface ScrapedVehicleFields {
+  make: string;
+  model: string;
+  year: string;
+  color: string;
+  engineSize: string;
+  fuelType: string;
+  power: string;
+  co2Emissions: string;
+  euroClass: string;
+  vehicleClass: string;
+  mass: string;
+  seats: string;
+  nextInspection: string;
+  taxClass: string;
+}
+
+/**
+ * Vehicle payload returned by the 02rekkari API
+ */
+export interface RekkariVehicle {
+  make?: string;
+  model?: string;
+  year?: number | string;
+  color?: string;
+  vin?: string;
+  engineSize?: number | string;
+  fuelType?: string;
+  power?: number | string;
+  co2Emissions?: number | string;
+  euroClass?: string;
+  vehicleClass?: string;
+  mass?: number | string;
+  seats?: number | string;
+  nextInspection?: string;
+  taxClass?: string;
+  firstRegistration?: string;
+  mileage?: number | string;
+}
+
+/**
+ * Extract the first number from a value such as "1 995 cm3" or "105,5 kW"
+ */
+export function parseMeasurement(value: string | number | undefined | null): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (!value) return undefined;
+
+  const match = value.replace(/\s(?=\d)/g, '').match(/-?\d+(?:[.,]\d+)?/);
+  if (!match) return undefined;
+
+  const parsed = parseFloat(match[0].replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse an integer measurement (years, seats, km)
+ */
+export function parseInteger(value: string | number | undefined | null): number | undefined {
+  const parsed = parseMeasurement(value);
+  return parsed !== undefined ? Math.round(parsed) : undefined;
+}
+
+/**
+ * Convert d.m.yyyy, yyyymmdd or yyyy-mm-dd to an ISO date (yyyy-mm-dd)
+ */
+export function parseFinnishDate(value: string | undefined | null): string | undefined {
+  if (!value) return undefined;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+
+  const finnish = value.match(/(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (finnish) {
+    return `${finnish[3]}-${finnish[2].padStart(2, '0')}-${finnish[1].padStart(2, '0')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a Traficom fuel code to its Finnish label, passing labels through untouched
+ */
+export function fuelTypeLabel(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return FUEL_CODES[value.padStart(2, '0')] || value;
+}
+
+/**
+ * Adapter for the puppeteer Traficom scraper
+ */
+export function fromScrapedFields(fields: ScrapedVehicleFields, registrationNumber: string): Vehicle {
+  return {
+    registrationNumber,
+    make: fields.make,
+    model: fields.model,
+    modelYear: parseInteger(fields.year),
+    color: fields.color || undefined,
+    fuelType: fields.fuelType || undefined,
+    engineDisplacement: parseMeasurement(fields.engineSize),
+    enginePower: parseMeasurement(fields.power),
+    co2Emissions: parseMeasurement(fields.co2Emissions),
+    mass: parseMeasurement(fields.mass),
+    seats: parseInteger(fields.seats),
+    euroClass: fields.euroClass || undefined,
+    vehicleClass: fields.vehicleClass || undefined,
+    taxClass: fields.taxClass || undefined,
+    inspectionExpiry: parseFinnishDate(fields.nextInspection),
+    source: 'traficom',
+    fetchedAt: new Date().toISOString(),
+    confidence: 0.9
+  };
+}
+
+/**
+ * Adapter for the 02rekkari API
+ */
+export function fromRekkari(data: RekkariVehicle, registrationNumber: string): Vehicle {
+  return {
+    registrationNumber,
+    vin: data.vin || undefined,
+    make: data.make || '',
+    model: data.model || '',
+    modelYear: parseInteger(data.year),
+    firstRegistration: parseFinnishDate(data.firstRegistration),
+    color: data.color || undefined,
+    fuelType: data.fuelType || undefined,
+    engineDisplacement: parseMeasurement(data.engineSize),
+    enginePower: parseMeasurement(data.power),
+    co2Emissions: parseMeasurement(data.co2Emissions),
+    mass: parseMeasurement(data.mass),
+    seats: parseInteger(data.seats),
+    euroClass: data.euroClass || undefined,
+    vehicleClass: data.vehicleClass || undefined,
+    taxClass: data.taxClass || undefined,
+    odometer: parseInteger(data.mileage),
+    inspectionExpiry: parseFinnishDate(data.nextInspection),
+    source: '02rekkari',
+    fetchedAt: new Date().toISOString(),
+    confidence: 0.95
+  };
+}
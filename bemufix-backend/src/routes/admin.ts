@@ -0,0 +1,242 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { auditAdmin, requireAdmin } from '../middleware/adminAuth';
+import { BMWIntelligence } from '../services/BMWIntelligence';
+import { BMWModelCatalog } from '../services/BMWModelCatalog';
+import { CacheInvalidationError, CacheService } from '../services/CacheService';
+import { KnowledgeBase, UnknownKnowledgeSourceError } from '../services/KnowledgeBase';
+import { RedisService } from '../services/RedisService';
+import { TraficomService } from '../services/TraficomService';
+import { VehicleLookupService } from '../services/VehicleLookupService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Jokainen pyyntö vaatii ylläpitäjän tunnuksen ja kirjataan tarkastuslokiin
+router.use(auditAdmin, requireAdmin);
+
+const VehicleCacheQuerySchema = z.object({
+  // Rekisterinumeron glob-malli, esim. BMW-*
+  match: z.string().trim().min(1).max(20).default('*'),
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+const KnowledgeReloadRequestSchema = z.object({
+  sources: z.array(z.string().min(1)).min(1).optional()
+});
+
+/**
+ * GET /api/admin/cache
+ * Välimuistin nimiavaruudet: versio, elinaika sekä osumat ja ohitukset
+ */
+router.get('/cache', async (req, res) => {
+  try {
+    res.json({ namespaces: await CacheService.stats() });
+
+  } catch (error) {
+    sendError(res, error, 'Admin cache stats error:');
+  }
+});
+
+/**
+ * GET /api/admin/cache/vehicles?match=BMW-*&limit=100
+ * Välimuistissa olevat autot: lähde (rekisteri tai haku) ja jäljellä oleva elinaika
+ */
+router.get('/cache/vehicles', async (req, res) => {
+  try {
+    const { match, limit } = VehicleCacheQuerySchema.parse(req.query);
+    const cache = CacheService.namespace('vehicle');
+
+    const entries = [];
+    const seen = new Set<string>();
+    let truncated = false;
+    for await (const key of cache.keys(`*:${match}`)) {
+      if (seen.has(key)) continue;
+      // One key past the limit tells that the list was cut
+      if (entries.length >= limit) {
+        truncated = true;
+        break;
+      }
+      seen.add(key);
+
+      const [source, registrationNumber] = key.split(':');
+      entries.push({ source, registrationNumber, ttl: await RedisService.ttl(await cache.key(key)) });
+    }
+
+    res.json({ entries, truncated });
+
+  } catch (error) {
+    sendError(res, error, 'Admin vehicle cache list error:');
+  }
+});
+
+/**
+ * GET /api/admin/cache/vehicles/:registrationNumber
+ * Auton välimuistissa olevat tiedot
+ */
+router.get('/cache/vehicles/:registrationNumber', async (req, res) => {
+  try {
+    const { registrationNumber } = req.params;
+    const registry = await TraficomService.getCachedVehicleData(registrationNumber);
+    const lookup = await VehicleLookupService.getCachedVehicle(registrationNumber);
+
+    if (!registry && !lookup) {
+      return res.status(404).json({ error: 'Vehicle not in cache' });
+    }
+    res.json({ registry, lookup });
+
+  } catch (error) {
+    sendError(res, error, 'Admin vehicle cache error:');
+  }
+});
+
+/**
+ * DELETE /api/admin/cache/vehicles/:registrationNumber
+ * Poista auton tiedot välimuistista
+ */
+router.delete('/cache/vehicles/:registrationNumber', async (req, res) => {
+  try {
+    const { registrationNumber } = req.params;
+    const cleared = await TraficomService.clearCache(registrationNumber);
+    await VehicleLookupService.clearVehicleCache(registrationNumber);
+
+    res.json({ registrationNumber: TraficomService.normalizeRegistrationNumber(registrationNumber), cleared });
+
+  } catch (error) {
+    sendError(res, error, 'Admin vehicle cache purge error:');
+  }
+});
+
+/**
+ * DELETE /api/admin/cache/vehicles
+ * Tyhjennä koko autojen välimuisti vaihtamalla nimiavaruuden versio
+ */
+router.delete('/cache/vehicles', async (req, res) => {
+  try {
+    const version = await CacheService.namespace('vehicle').invalidate();
+    res.json({ namespace: 'vehicle', version });
+
+  } catch (error) {
+    sendError(res, error, 'Admin vehicle cache invalidation error:');
+  }
+});
+
+/**
+ * POST /api/admin/vehicles/:registrationNumber/lookup
+ * Hae auton tiedot rekisteristä uudelleen välimuistin ohi
+ */
+router.post('/vehicles/:registrationNumber/lookup', async (req, res) => {
+  try {
+    const { registrationNumber } = req.params;
+    if (!TraficomService.validateRegistrationNumber(registrationNumber)) {
+      return res.status(400).json({ error: 'Invalid registration number' });
+    }
+
+    await TraficomService.clearCache(registrationNumber);
+    const vehicle = await TraficomService.getVehicleData(registrationNumber);
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+    if (vehicle.make === 'BMW') {
+      vehicle.bmwSpecific = await BMWIntelligence.getVehicleIntelligence(vehicle);
+    }
+
+    res.json({ vehicle });
+
+  } catch (error) {
+    sendError(res, error, 'Admin vehicle lookup error:');
+  }
+});
+
+/**
+ * GET /api/admin/redis
+ * Avain-arvovaraston tila ja INFO-tiedot osioittain
+ */
+router.get('/redis', async (req, res) => {
+  try {
+    const health = await RedisService.healthCheck();
+    const info = await RedisService.info();
+
+    res.json({ health, info: info ? parseInfo(info) : null });
+
+  } catch (error) {
+    sendError(res, error, 'Admin Redis info error:');
+  }
+});
+
+/**
+ * GET /api/admin/bmw/models
+ * Ladatut BMW-mallit ja tiedostot, joista ne tulivat
+ */
+router.get('/bmw/models', (req, res) => {
+  try {
+    const models = BMWModelCatalog.getModels().map(model => ({
+      generation: model.generation,
+      series: model.series,
+      model: model.model,
+      chassisCode: model.chassisCode,
+      years: [model.yearStart, model.yearEnd],
+      engineCode: model.engineCode,
+      source: model.source
+    }));
+
+    res.json({ files: BMWModelCatalog.getFiles(), models });
+
+  } catch (error) {
+    sendError(res, error, 'Admin BMW models error:');
+  }
+});
+
+/**
+ * POST /api/admin/knowledge/reload
+ * Lataa tietopohja uudelleen levyltä ({ sources? }); virheellinen tiedosto
+ * hylätään ja sen edellinen versio jää käyttöön
+ */
+router.post('/knowledge/reload', (req, res) => {
+  try {
+    const { sources } = KnowledgeReloadRequestSchema.parse(req.body ?? {});
+    const results = KnowledgeBase.reload(sources);
+    const ok = results.every(result => result.ok);
+
+    res.status(ok ? 200 : 422).json({ ok, results });
+
+  } catch (error) {
+    sendError(res, error, 'Admin knowledge reload error:');
+  }
+});
+
+/**
+ * Redis INFO text as { section: { field: value } }
+ */
+function parseInfo(info: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let section = sections.default = {} as Record<string, string>;
+
+  for (const line of info.split(/\r?\n/)) {
+    if (line.startsWith('#')) {
+      section = sections[line.slice(1).trim().toLowerCase()] = {};
+    } else if (line.includes(':')) {
+      const index = line.indexOf(':');
+      section[line.slice(0, index)] = line.slice(index + 1);
+    }
+  }
+
+  if (Object.keys(sections.default).length === 0) delete sections.default;
+  return sections;
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof CacheInvalidationError) {
+    return res.status(503).json({ error: error.message });
+  }
+  if (error instanceof UnknownKnowledgeSourceError) {
+    return res.status(400).json({ error: error.message, sources: KnowledgeBase.getSources() });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export default router;
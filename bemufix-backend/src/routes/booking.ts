@@ -0,0 +1,210 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { CustomerSchema, WorkRequest, WorkRequestSchema } from '../models/Booking';
+import { ServiceItemIdSchema } from '../models/BMWModel';
+import type { Vehicle } from '../models/Vehicle';
+import { getStaff, requireStaff } from '../middleware/staffAuth';
+import {
+  BookingService,
+  HoldExpiredError,
+  ReservationNotFoundError,
+  ReservationStateError,
+  SlotUnavailableError
+} from '../services/BookingService';
+import { NotificationService } from '../services/NotificationService';
+import { UnknownRepairJobError } from '../services/QuoteEngine';
+import { TraficomService } from '../services/TraficomService';
+import logger from '../utils/logger';
+import { zonedDate } from '../utils/timeZone';
+
+const router = Router();
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-mm-dd');
+
+// Pilkuin erotettu lista kyselyparametrina: ?jobs=oil_change,brake_pads
+const listParam = <T extends z.ZodTypeAny>(item: T) => z.string()
+  .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+  .pipe(z.array(item).max(20))
+  .optional();
+
+const AvailabilityQuerySchema = z.object({
+  from: DateSchema.optional(),
+  days: z.coerce.number().int().min(1).max(31).default(14),
+  jobs: listParam(z.string().min(1)),
+  serviceItems: listParam(ServiceItemIdSchema),
+  registrationNumber: z.string().min(1).max(10).optional()
+});
+
+const HoldRequestSchema = WorkRequestSchema.extend({
+  date: DateSchema,
+  time: z.string().regex(/^\d{2}:\d{2}$/, 'expected HH:MM'),
+  notes: z.string().trim().max(1000).optional()
+});
+
+const ScheduleQuerySchema = z.object({
+  date: DateSchema.optional()
+});
+
+const ConfirmRequestSchema = CustomerSchema.extend({
+  name: z.string().trim().min(1).max(100)
+});
+
+class InvalidRegistrationError extends Error {}
+
+/**
+ * GET /api/booking/availability
+ * Työn kesto ja vapaat aloitusajat päivittäin (?from=yyyy-mm-dd&days=14&jobs=...&serviceItems=...&registrationNumber=...)
+ */
+router.get('/availability', async (req, res) => {
+  try {
+    const query = AvailabilityQuerySchema.parse(req.query);
+    const vehicle = await findVehicle(query.registrationNumber);
+    const work = BookingService.estimateWork(query, vehicle);
+    const from = query.from || zonedDate(new Date());
+
+    res.json({ work, days: BookingService.getAvailability(from, query.days, work.minutes) });
+
+  } catch (error) {
+    sendError(res, error, 'Availability error:');
+  }
+});
+
+/**
+ * POST /api/booking/holds
+ * Varaa nostin ja asentaja hetkeksi, kunnes asiakas vahvistaa ajan
+ */
+router.post('/holds', async (req, res) => {
+  try {
+    const request = HoldRequestSchema.parse(req.body);
+    const vehicle = await findVehicle(request.registrationNumber);
+    const work = BookingService.estimateWork(request, vehicle);
+
+    const reservation = BookingService.hold({
+      date: request.date,
+      time: request.time,
+      work,
+      registrationNumber: vehicle?.registrationNumber ?? request.registrationNumber,
+      notes: request.notes,
+      source: 'web'
+    });
+    res.status(201).json({ reservation, work });
+
+  } catch (error) {
+    sendError(res, error, 'Booking hold error:');
+  }
+});
+
+/**
+ * POST /api/booking/holds/:id/confirm
+ * Vahvista varaus asiakkaan yhteystiedoilla; palauttaa peruutustunnuksen
+ */
+router.post('/holds/:id/confirm', (req, res) => {
+  try {
+    const customer = ConfirmRequestSchema.parse(req.body);
+    const { reservation, cancelToken } = BookingService.confirm(req.params.id, customer);
+    NotificationService.notifyBookingConfirmed(reservation, BookingService.getCancelUrl(cancelToken)).catch(error =>
+      logger.error('Booking confirmation notification failed:', error));
+    res.json({ reservation, cancelToken });
+
+  } catch (error) {
+    sendError(res, error, 'Booking confirm error:');
+  }
+});
+
+/**
+ * GET /api/booking/reservations/:token
+ * Varauksen tiedot peruutustunnuksella
+ */
+router.get('/reservations/:token', (req, res) => {
+  try {
+    const reservation = BookingService.findByToken(req.params.token);
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    res.json({ reservation });
+
+  } catch (error) {
+    sendError(res, error, 'Reservation lookup error:');
+  }
+});
+
+/**
+ * DELETE /api/booking/reservations/:token
+ * Peru varaus peruutustunnuksella
+ */
+router.delete('/reservations/:token', (req, res) => {
+  try {
+    res.json({ reservation: BookingService.cancel(req.params.token) });
+
+  } catch (error) {
+    sendError(res, error, 'Booking cancel error:');
+  }
+});
+
+/**
+ * GET /api/booking/schedule?date=yyyy-mm-dd
+ * Päivän varaukset ja avoimet pidot korjaamon henkilökunnalle (kaikki roolit)
+ */
+router.get('/schedule', requireStaff('admin', 'front_desk', 'technician'), (req, res) => {
+  try {
+    const { date = zonedDate(new Date()) } = ScheduleQuerySchema.parse(req.query);
+    res.json({ date, reservations: BookingService.getSchedule(date) });
+
+  } catch (error) {
+    sendError(res, error, 'Booking schedule error:');
+  }
+});
+
+/**
+ * DELETE /api/booking/schedule/:id
+ * Peru varaus asiakkaan puolesta ilman verkkoperumisen aikarajaa (ylläpitäjä ja asiakaspalvelu)
+ */
+router.delete('/schedule/:id', requireStaff('admin', 'front_desk'), (req, res) => {
+  try {
+    const reservation = BookingService.cancelById(req.params.id);
+    logger.info(`Reservation ${reservation.id} cancelled by staff ${getStaff(res)!.id}`);
+    res.json({ reservation });
+
+  } catch (error) {
+    sendError(res, error, 'Staff booking cancel error:');
+  }
+});
+
+/**
+ * Hae auto rekisterinumerolla huoltokohteita ja mallikohtaisia työaikoja varten
+ */
+async function findVehicle(registrationNumber: WorkRequest['registrationNumber']): Promise<Vehicle | undefined> {
+  if (!registrationNumber) return undefined;
+  if (!TraficomService.validateRegistrationNumber(registrationNumber)) {
+    throw new InvalidRegistrationError();
+  }
+  return await TraficomService.getVehicleData(registrationNumber) ?? undefined;
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof InvalidRegistrationError) {
+    return res.status(400).json({ error: 'Invalid registration number' });
+  }
+  if (error instanceof UnknownRepairJobError) {
+    return res.status(400).json({ error: 'Unknown repair job', details: error.jobIds });
+  }
+  if (error instanceof SlotUnavailableError) {
+    return res.status(409).json({ error: 'Slot not available' });
+  }
+  if (error instanceof HoldExpiredError) {
+    return res.status(410).json({ error: 'Hold expired' });
+  }
+  if (error instanceof ReservationNotFoundError) {
+    return res.status(404).json({ error: 'Reservation not found' });
+  }
+  if (error instanceof ReservationStateError) {
+    return res.status(409).json({ error: error.message, status: error.status });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export default router;
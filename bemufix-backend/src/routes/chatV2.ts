@@ -1,9 +1,27 @@
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { TraficomService } from '../services/TraficomService';
 import { BMWIntelligence } from '../services/BMWIntelligence';
-import { RedisService } from '../services/RedisService';
+import { CacheService } from '../services/CacheService';
+import { QuoteEngine } from '../services/QuoteEngine';
+import { IntentService } from '../services/IntentService';
+import { BusinessInfo } from '../services/BusinessInfo';
+import { LLMResponder } from '../services/LLMResponder';
+import { DialogueManager, DialogueResult } from '../services/DialogueManager';
+import { TriageService } from '../services/TriageService';
+import { DtcService } from '../services/DtcService';
+import { BookingService, SlotUnavailableError } from '../services/BookingService';
+import { NotificationService } from '../services/NotificationService';
+import { InspectionReminderService } from '../services/InspectionReminderService';
+import { CustomerService } from '../services/CustomerService';
+import { getCustomer, optionalCustomer } from '../middleware/customerAuth';
+import type { Vehicle } from '../models/Vehicle';
+import type { CustomerAccount, GarageVehicle, VehicleHistoryEntry } from '../models/Customer';
+import type { RepairJob } from '../models/Quote';
+import type { Intent, IntentResult } from '../models/Intent';
+import type { DialogueOffer, DialogueSlots, DialogueState, FlowName } from '../models/Dialogue';
+import type { TriageResult } from '../models/Triage';
 import { z } from 'zod';
-import logger from '../utils/logger';
+import logger, { loggers } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
@@ -14,6 +32,13 @@ const ChatRequestSchema = z.object({
   sessionId: z.string().optional(),
 });
 
+// Yleisimmät työt hinnaston vastauksessa
+const COMMON_JOBS = ['oil_change', 'brake_discs', 'brake_fluid', 'air_filter'];
+
+// SSE-virran token-palan koko ja yhteyden ylläpitoviestin väli
+const STREAM_CHUNK_WORDS = 3;
+const SSE_HEARTBEAT_MS = 15000;
+
 interface Message {
   role: 'user' | 'assistant';
   content: string;
@@ -23,122 +48,582 @@ interface Message {
 interface ChatSession {
   sessionId: string;
   messages: Message[];
-  vehicleData?: any;
+  vehicleData?: Vehicle;
+  // Kielimallin käyttämät tokenit sessiossa
+  tokensUsed?: number;
+  // Keskeneräinen keskustelupolku (ajanvaraus, kustannusarvio, vikakartoitus)
+  dialogue?: DialogueState;
+  // Kyllä/ei-kysymyksellä tarjottu polku, esim. ajanvaraus hinta-arvion jälkeen
+  offer?: DialogueOffer;
+  // Kirjautunut asiakas, jonka autotallin autoihin keskustelu kirjataan
+  customerId?: string;
+}
+
+interface ChatReply {
+  message: string;
+  intent: Intent;
+  flow: FlowName | null;
+  timestamp: string;
+}
+
+/**
+ * Botin vastausteksti; streamed kertoo, onko se jo lähetetty token-paloina
+ */
+interface BotText {
+  text: string;
+  streamed: boolean;
+}
+
+/**
+ * Välitiedot striimattavalle vastaukselle
+ */
+interface ReplyEvents {
+  status?: (text: string) => void;
+  vehicle?: (vehicle: Vehicle) => void;
+  token?: (text: string) => void;
 }
 
 /**
  * POST /api/v2/chat
  * Yksinkertaistettu chat endpoint BMW-bottia varten
  */
-router.post('/', async (req, res) => {
+router.post('/', optionalCustomer, async (req, res) => {
   try {
     const { message, sessionId } = ChatRequestSchema.parse(req.body);
     
     logger.info(`Chat message received: ${message.substring(0, 50)}...`);
     
-    // Hae tai luo sessio
-    let session: ChatSession;
-    const newSessionId = sessionId || uuidv4();
+    const session = await loadSession(sessionId, getCustomer(res));
+    const reply = await handleMessage(message, session);
     
-    if (sessionId) {
-      const cached = await RedisService.get(`chat:${sessionId}`);
-      session = cached ? JSON.parse(cached) : { sessionId: newSessionId, messages: [] };
-    } else {
-      session = { sessionId: newSessionId, messages: [] };
+    res.json({
+      sessionId: session.sessionId,
+      message: reply.message,
+      timestamp: reply.timestamp,
+      vehicleData: session.vehicleData || null,
+      intent: reply.intent,
+      flow: reply.flow,
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
     }
     
-    // Lisää käyttäjän viesti
-    session.messages.push({
-      role: 'user',
-      content: message,
-      timestamp: new Date().toISOString(),
+    logger.error('Chat error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET|POST /api/v2/chat/stream
+ * Sama kuin POST /api/v2/chat, mutta vastaus Server-Sent Events -virtana:
+ * session, status (esim. rekisterihaku käynnissä), vehicle, token-palat ja lopuksi done.
+ * GET ottaa message- ja sessionId-parametrit kyselymerkkijonosta (EventSource).
+ */
+const streamChat: RequestHandler = async (req, res) => {
+  const parsed = ChatRequestSchema.safeParse(req.method === 'GET' ? req.query : req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+  }
+  const { message, sessionId } = parsed.data;
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  
+  // Asiakas sulki yhteyden (req:n close laukeaa jo kun POST-runko on luettu)
+  let open = true;
+  res.on('close', () => {
+    open = false;
+  });
+  
+  const send = (event: string, data: unknown) => {
+    if (!open) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // compression-middleware puskuroi muuten koko vastauksen
+    (res as typeof res & { flush?: () => void }).flush?.();
+  };
+  
+  // Pidä yhteys auki hitaan rekisterihaun aikana
+  const heartbeat = setInterval(() => {
+    if (open) res.write(': ping\n\n');
+  }, SSE_HEARTBEAT_MS);
+  
+  try {
+    logger.info(`Chat stream message received: ${message.substring(0, 50)}...`);
+    
+    const session = await loadSession(sessionId, getCustomer(res));
+    send('session', { sessionId: session.sessionId });
+    
+    const reply = await handleMessage(message, session, {
+      status: text => send('status', { message: text }),
+      vehicle: vehicle => send('vehicle', { vehicleData: vehicle }),
+      token: text => send('token', { text }),
     });
     
-    // Tarkista onko viestissä rekisterinumero
-    const regNumberMatch = message.match(/\b[A-Z]{2,3}-?\d{1,4}\b/i);
-    
-    let botResponse = '';
-    
-    if (regNumberMatch) {
-      const regNumber = regNumberMatch[0];
-      
-      if (TraficomService.validateRegistrationNumber(regNumber)) {
-        try {
-          const vehicleData = await TraficomService.getVehicleData(regNumber);
-          
-          if (vehicleData && vehicleData.make === 'BMW') {
-            // Tallenna ajoneuvotiedot sessioon
-            session.vehicleData = vehicleData;
-            
-            // Hae BMW-spesifistä dataa
-            const bmwIntelligence = await BMWIntelligence.getVehicleIntelligence(vehicleData);
-            
-            botResponse = `Loistavaa! Löysin ajoneuvosi tiedot:
-
-🚗 **${vehicleData.make} ${vehicleData.model}** (${vehicleData.modelYear})
-📅 Ensimmäinen rekisteröinti: ${vehicleData.firstRegistration}
-⛽ Käyttövoima: ${vehicleData.fuelType}
-🔧 Moottori: ${vehicleData.engineDisplacement}cc, ${vehicleData.enginePower} kW
-📊 CO2: ${vehicleData.co2Emissions} g/km
-🏃 Kilometrit: ${vehicleData.odometer ? `${vehicleData.odometer.toLocaleString('fi-FI')} km` : 'Ei tiedossa'}
-🔍 Seuraava katsastus: ${vehicleData.inspectionExpiry || 'Ei tiedossa'}
+    send('done', {
+      sessionId: session.sessionId,
+      message: reply.message,
+      timestamp: reply.timestamp,
+      vehicleData: session.vehicleData || null,
+      intent: reply.intent,
+      flow: reply.flow,
+    });
+    
+  } catch (error) {
+    logger.error('Chat stream error:', error);
+    send('error', { error: 'Internal server error' });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+};
 
-**BMW-spesifiset tiedot:**
-${bmwIntelligence.chassisCode ? `• Alusta: ${bmwIntelligence.chassisCode}` : ''}
-${bmwIntelligence.engineCode ? `• Moottorikoodi: ${bmwIntelligence.engineCode}` : ''}
-• Suositeltu öljy: ${bmwIntelligence.recommendedOil}
-• Öljymäärä: ${bmwIntelligence.oilCapacity}
-• Huoltoväli: ${bmwIntelligence.serviceIntervals}
+router.get('/stream', optionalCustomer, streamChat);
+router.post('/stream', optionalCustomer, streamChat);
 
-**Yleisiä ongelmia tässä mallissa:**
-${bmwIntelligence.commonIssues?.map((issue: string) => `• ${issue}`).join('\n') || 'Ei tiedossa'}
-
-Voinko auttaa sinua huoltotarpeen arvioinnissa tai varauksessa? 📅`;
-            
-          } else if (vehicleData) {
-            // Ei-BMW auto
-            botResponse = `Löysin ajoneuvon ${regNumber}, mutta se on ${vehicleData.make} ${vehicleData.model}. 
-
-Olemme erikoistuneet BMW-merkkisten autojen huoltoon ja korjauksiin. Voimme kuitenkin palvella myös muita merkkejä - ota yhteyttä suoraan puhelimitse: **050 547 7779** tai sähköpostilla, niin jutellaan lisää!`;
-            
-          } else {
-            botResponse = `Valitettavasti en löytänyt tietoja rekisterinumerolla ${regNumber}. Tarkista että numero on oikein kirjoitettu (esim. ABC-123).`;
-          }
-          
-        } catch (error) {
-          logger.error('Error processing vehicle lookup:', error);
-          botResponse = 'Anteeksi, tapahtui virhe haettaessa ajoneuvotietoja. Yritä hetken kuluttua uudelleen tai soita meille: 050 547 7779';
-        }
-      } else {
-        botResponse = 'Rekisterinumero näyttää olevan virheellisessä muodossa. Suomalainen rekisterinumero on muotoa ABC-123 tai AB-1234.';
-      }
+/**
+ * POST /api/v2/chat/session
+ * Aloita uusi sessio tervehdyksellä; kirjautunut asiakas tervehditään autotallinsa auton mukaan
+ */
+router.post('/session', optionalCustomer, async (req, res) => {
+  try {
+    const session = await loadSession(undefined, getCustomer(res));
+    const greeting = buildGreeting(session);
+    const timestamp = new Date().toISOString();
+    
+    session.messages.push({ role: 'assistant', content: greeting, timestamp });
+    await CacheService.namespace('chat').set(session.sessionId, JSON.stringify(session));
+    
+    res.json({
+      sessionId: session.sessionId,
+      message: greeting,
+      timestamp,
+      vehicleData: session.vehicleData || null,
+    });
+    
+  } catch (error) {
+    logger.error('Chat session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/v2/chat/:sessionId
+ * Hae chat-sessio; asiakkaaseen liitetyn session saa vain sama kirjautunut asiakas
+ */
+router.get('/:sessionId', optionalCustomer, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    
+    const cached = await CacheService.namespace('chat').get(sessionId);
+    const session: ChatSession | null = cached ? JSON.parse(cached) : null;
+    
+    if (!session || !isSessionOwner(session, getCustomer(res))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    const { customerId: _customerId, ...publicSession } = session;
+    res.json(publicSession);
+    
+  } catch (error) {
+    logger.error('Session retrieval error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Hae sessio Redisistä tai luo uusi. Kirjautuneen asiakkaan sessioon liitetään
+ * asiakas ja autotallin auto; asiakkaaseen liitettyä sessiota jatkaa vain sama
+ * kirjautunut asiakas, muille aloitetaan uusi.
+ */
+async function loadSession(sessionId?: string, customer?: CustomerAccount | null): Promise<ChatSession> {
+  let session: ChatSession | null = null;
+  if (sessionId) {
+    const cached = await CacheService.namespace('chat').get(sessionId);
+    session = cached ? JSON.parse(cached) : null;
+  }
+  if (!session || !isSessionOwner(session, customer)) {
+    session = { sessionId: session ? uuidv4() : sessionId || uuidv4(), messages: [] };
+  }
+  
+  if (customer && !session.customerId) {
+    session.customerId = customer.id;
+    session.vehicleData = session.vehicleData || findGreetedVehicle(customer.id)?.vehicle || undefined;
+  }
+  return session;
+}
+
+/**
+ * Anonyymin session saa kuka tahansa sessiotunnuksen tietävä, asiakkaaseen
+ * liitetyn vain sama asiakas
+ */
+function isSessionOwner(session: ChatSession, customer?: CustomerAccount | null): boolean {
+  return !session.customerId || session.customerId === customer?.id;
+}
+
+/**
+ * Autotallin auto, josta asiakasta tervehditään: viimeksi käsitelty auto
+ */
+function findGreetedVehicle(customerId: string): GarageVehicle | null {
+  try {
+    const latest = (vehicle: GarageVehicle) => vehicle.history[0]?.createdAt || vehicle.addedAt;
+    return CustomerService.getGarage(customerId)
+      .sort((a, b) => latest(b).localeCompare(latest(a)))[0] ?? null;
+  } catch (error) {
+    logger.warn('Garage lookup for chat failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Kirjaa tapahtuma kirjautuneen asiakkaan autotallin auton historiaan; muita autoja ei kirjata
+ */
+function recordHistory(session: ChatSession, registrationNumber: string | undefined, entry: Omit<VehicleHistoryEntry, 'createdAt'>) {
+  if (!session.customerId || !registrationNumber) return;
+  
+  try {
+    CustomerService.addHistory(session.customerId, registrationNumber, entry);
+  } catch (error) {
+    logger.warn('Garage history update failed:', error);
+  }
+}
+
+/**
+ * Käsittele käyttäjän viesti: vastaa, päivitä sessio ja tallenna se Redisiin (1 tunti)
+ */
+async function handleMessage(message: string, session: ChatSession, events: ReplyEvents = {}): Promise<ChatReply> {
+  // Lisää käyttäjän viesti
+  session.messages.push({
+    role: 'user',
+    content: message,
+    timestamp: new Date().toISOString(),
+  });
+  
+  const reply = await generateReply(message, session, events);
+  
+  // Lisää botin vastaus
+  session.messages.push({
+    role: 'assistant',
+    content: reply.message,
+    timestamp: reply.timestamp,
+  });
+  
+  // Yksi historiamerkintä sessiota kohden; päivittyy keskustelun jatkuessa
+  const opening = session.messages.find(entry => entry.role === 'user')?.content || message;
+  recordHistory(session, session.vehicleData?.registrationNumber, {
+    type: 'chat',
+    summary: `Chat: ${opening.length > 60 ? `${opening.slice(0, 57)}...` : opening}`,
+    reference: session.sessionId,
+  });
+  
+  await CacheService.namespace('chat').set(session.sessionId, JSON.stringify(session));
+  
+  return reply;
+}
+
+/**
+ * Muodosta vastaus: jatka keskeneräistä polkua tai vastaa viestin aikomuksen mukaan
+ */
+async function generateReply(message: string, session: ChatSession, events: ReplyEvents): Promise<ChatReply> {
+  // Tunnista aikomus ja poimi tiedot (rekisterinumero, työ, päivä, kellonaika)
+  const classification = await IntentService.classify(message);
+  const { intent } = classification;
+  logger.info(`Chat intent: ${intent} (${classification.confidence}, ${classification.classifier})`);
+  
+  const reply = await replyInDialogue(message, classification, session, events)
+    ?? await replyToIntent(message, classification, session, events);
+  
+  if (events.token && !reply.streamed) {
+    streamText(reply.text, events.token);
+  }
+  
+  return { message: reply.text, intent, flow: session.dialogue?.flow ?? null, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Keskustelupolut: vastaus tarjottuun polkuun, polun seuraava kysymys tai uuden polun aloitus.
+ * Palauttaa null, kun viesti ei kuulu mihinkään polkuun.
+ */
+async function replyInDialogue(message: string, classification: IntentResult, session: ChatSession, events: ReplyEvents): Promise<BotText | null> {
+  const offer = session.offer;
+  session.offer = undefined;
+  
+  let flow: FlowName;
+  let result: DialogueResult;
+  
+  if (session.dialogue) {
+    flow = session.dialogue.flow;
+    result = DialogueManager.advance(session.dialogue, message, classification);
+  } else if (offer && DialogueManager.parseYesNo(message) !== undefined) {
+    if (!DialogueManager.parseYesNo(message)) {
+      return { text: 'Selvä! Kysy vapaasti, jos voin auttaa jossain muussa. 🙂', streamed: false };
+    }
+    flow = offer.flow;
+    result = DialogueManager.start(flow, message, { ...offer.slots, ...classification.slots });
+  } else {
+    const started = DialogueManager.findFlow(classification);
+    if (!started) return null;
+    flow = started;
+    result = DialogueManager.start(flow, message, {
+      registrationNumber: session.vehicleData?.registrationNumber,
+      ...classification.slots,
+    });
+  }
+  
+  session.dialogue = result.state ?? undefined;
+  const { turn } = result;
+  
+  switch (turn.status) {
+    case 'complete':
+      return { text: await completeFlow(flow, turn.slots, session, events), streamed: false };
+      
+    case 'interrupted': {
+      // Vastaa sivukysymykseen ja palaa polun kysymykseen
+      const answer = await replyToIntent(message, classification, session, {});
+      return { text: `${answer.text}\n\n**Jatketaan:** ${turn.text}`, streamed: false };
+    }
+      
+    default:
+      return { text: turn.text, streamed: false };
+  }
+}
+
+/**
+ * Polun lopputulos kerätyistä tiedoista; jatkopolku tarjotaan kyllä/ei-kysymyksellä
+ */
+async function completeFlow(flow: FlowName, slots: DialogueSlots, session: ChatSession, events: ReplyEvents): Promise<string> {
+  let text: string;
+  let carried: DialogueSlots = {};
+  
+  switch (flow) {
+    case 'booking':
+      text = await completeBooking(slots, session, events);
+      break;
+      
+    case 'quote': {
+      const vehicle = await resolveVehicle(slots.registrationNumber, session, events);
+      text = buildPriceResponse(slots.serviceTypes || [], vehicle);
+      carried = { serviceTypes: slots.serviceTypes, registrationNumber: vehicle?.registrationNumber };
+      recordHistory(session, vehicle?.registrationNumber, {
+        type: 'quote',
+        summary: `Kustannusarvio: ${(slots.serviceTypes || []).map(id => QuoteEngine.getJob(id)?.name || id).join(', ')}`,
+        reference: session.sessionId,
+      });
+      break;
+    }
+      
+    case 'triage': {
+      const vehicle = await resolveVehicle(slots.registrationNumber, session, events);
+      const triage = TriageService.diagnose({ symptom: slots.symptom || '', answers: slots.followUps }, vehicle);
+      logger.info(`Triage: session=${session.sessionId}, symptoms=${triage.symptoms.map(s => s.id).join(',') || '-'}, causes=${triage.causes.map(c => `${c.id}:${c.probability}`).join(',') || '-'}, urgency=${triage.urgency}`);
+      text = buildTriageResponse(triage, vehicle);
+      carried = {
+        serviceTypes: QuoteEngine.getJob('diagnostics') ? ['diagnostics'] : undefined,
+        symptom: slots.symptom,
+        followUps: slots.followUps,
+        registrationNumber: vehicle?.registrationNumber,
+      };
+      recordHistory(session, vehicle?.registrationNumber, {
+        type: 'triage',
+        summary: `Vikakartoitus: ${triage.symptoms.map(symptom => symptom.name).join(', ') || slots.symptom || 'oire'}`,
+        reference: session.sessionId,
+      });
+      break;
+    }
+      
+    case 'inspection_reminder':
+      text = await completeInspectionReminder(slots, session);
+      break;
+  }
+  
+  const { next } = DialogueManager.getFlow(flow);
+  if (next) {
+    session.offer = { flow: next, slots: carried };
+    const { offer } = DialogueManager.getFlow(next);
+    if (offer) text += `\n\n${offer}`;
+  }
+  
+  return text;
+}
+
+/**
+ * Tilaa katsastusmuistutukset polun tiedoilla; suostumus annettiin viimeisessä vaiheessa
+ */
+async function completeInspectionReminder(slots: DialogueSlots, session: ChatSession): Promise<string> {
+  const phone = BusinessInfo.get().phone;
+  
+  try {
+    const { subscription, unsubscribeToken } = await InspectionReminderService.subscribe({
+      registrationNumber: slots.registrationNumber || '',
+      phone: slots.phone,
+      consent: true,
+    }, 'chat');
+    logger.info(`Chat inspection reminders: session=${session.sessionId}, subscription=${subscription.id}`);
+    
+    const unsubscribeUrl = InspectionReminderService.getUnsubscribeUrl(unsubscribeToken);
+    const days = InspectionReminderService.get().reminderDays.join(' ja ');
+    return `Kiitos! Muistutamme auton ${subscription.registrationNumber} katsastuksesta ${days} päivää ennen määräaikaa.
+
+${subscription.inspectionDue
+    ? `📅 Katsastuksen määräaika: ${formatDate(subscription.inspectionDue)}`
+    : '📅 Katsastuksen määräaikaa ei saatu rekisteristä juuri nyt. Tarkistamme sen myöhemmin uudelleen.'}
+${unsubscribeUrl ? `\nVoit lopettaa muistutukset milloin tahansa: ${unsubscribeUrl}` : `\nVoit lopettaa muistutukset viestin linkistä tai soittamalla ${phone}.`}`;
+    
+  } catch (error) {
+    logger.error('Chat inspection reminder error:', error);
+    return `Muistutuksen tilaaminen ei juuri nyt onnistunut. Yritä hetken kuluttua uudelleen tai soita ${phone}.`;
+  }
+}
+
+/**
+ * Varaa aika ajanvarauspolun tiedoilla. Jos aika ehti mennä, ehdottaa lähimpiä
+ * vapaita aikoja ja kysyy päivää uudelleen.
+ */
+async function completeBooking(slots: DialogueSlots, session: ChatSession, events: ReplyEvents): Promise<string> {
+  const { phone } = BusinessInfo.get();
+  const vehicle = await resolveVehicle(slots.registrationNumber, session, events);
+  const date = slots.date || '';
+  const time = slots.time || '';
+  let minutes = 0;
+  
+  try {
+    const work = BookingService.estimateWork({ jobs: slots.serviceTypes }, vehicle);
+    minutes = work.minutes;
+    const held = BookingService.hold({
+      date,
+      time,
+      work,
+      registrationNumber: vehicle?.registrationNumber ?? slots.registrationNumber,
+      notes: slots.symptom,
+      source: 'chat',
+    });
+    const { reservation, cancelToken } = BookingService.confirm(held.id, { phone: slots.phone || '' });
+    logger.info(`Chat booking: session=${session.sessionId}, reservation=${reservation.id}`);
+    recordHistory(session, reservation.registrationNumber, {
+      type: 'booking',
+      summary: `Huoltoaika ${formatDate(reservation.date)} klo ${reservation.start}`,
+      reference: reservation.id,
+    });
+    
+    const cancelUrl = BookingService.getCancelUrl(cancelToken);
+    NotificationService.notifyBookingConfirmed(reservation, cancelUrl).catch(error =>
+      logger.error('Booking confirmation notification failed:', error));
+    const { cancelNoticeHours } = BookingService.get();
+    return `Kiitos! Aikasi on varattu:
+
+${DialogueManager.summarize(slots)}
+• Arvioitu kesto: ${formatDuration(reservation.minutes)} (klo ${reservation.start}-${reservation.end})
+
+${cancelUrl ? `Voit perua ajan viimeistään ${cancelNoticeHours} h ennen osoitteessa ${cancelUrl}` : `Jos haluat perua ajan, soita ${phone} viimeistään ${cancelNoticeHours} h ennen.`}`;
+    
+  } catch (error) {
+    if (error instanceof SlotUnavailableError) {
+      const free = BookingService.getAvailability(date, 7, minutes)
+        .flatMap(day => day.slots.map(slot => `${formatDate(day.date)} klo ${slot}`))
+        .slice(0, 3);
+      const retry = DialogueManager.start('booking', '', {
+        serviceTypes: slots.serviceTypes,
+        registrationNumber: slots.registrationNumber,
+        phone: slots.phone,
+        symptom: slots.symptom,
+      }, { intro: false });
+      session.dialogue = retry.state ?? undefined;
+      return `Valitettavasti ${formatDate(date)} klo ${time} ei ole vapaana.${free.length > 0 ? ` Lähimmät vapaat ajat: ${free.join(', ')}.` : ''}
+
+${retry.turn.status === 'ask' ? retry.turn.text : ''}`.trim();
+    }
+    
+    // Varausta ei saatu tallennettua: pyyntö henkilökunnalle käsin vahvistettavaksi
+    logger.error('Chat booking failed:', error);
+    const summary = DialogueManager.summarize(slots);
+    const forwarded = await NotificationService.notifyBookingRequest(summary, slots.phone || '').catch(notifyError => {
+      logger.error('Booking request notification failed:', notifyError);
+      return false;
+    });
+    if (!forwarded) {
+      return `Valitettavasti varausta ei saatu tallennettua. Soita ${phone}, niin sovitaan aika puhelimessa.`;
+    }
+    logger.info(`Booking request forwarded to staff: session=${session.sessionId}, time=${date} ${time}`);
+    return `Kiitos! Varauspyyntösi on vastaanotettu:
+
+${summary}
+
+Vahvistamme ajan numeroon ${slots.phone} mahdollisimman pian. Kiireellisissä asioissa soita ${phone}.`;
+  }
+}
+
+/**
+ * Vastaa viestin aikomuksen mukaan
+ */
+async function replyToIntent(message: string, classification: IntentResult, session: ChatSession, events: ReplyEvents): Promise<BotText> {
+  const { intent, slots } = classification;
+  const business = BusinessInfo.get();
+  let botResponse = '';
+  let streamed = false;
+  
+  switch (intent) {
+    case 'vehicle_lookup':
+      botResponse = slots.registrationNumber
+        ? await buildVehicleResponse(slots.registrationNumber, session, events)
+        : 'Anna autosi rekisterinumero (esim. ABC-123), niin haen ajoneuvon tiedot. Suomalainen rekisterinumero on muotoa ABC-123 tai AB-1234.';
+      break;
       
-    } else if (message.toLowerCase().includes('varaus') || message.toLowerCase().includes('aika')) {
+    // Ajanvaraus ja oireet kulkevat yleensä polkujen kautta; nämä vastaukset jos polkua ei ole määritelty
+    case 'booking':
       botResponse = `Varaa aika huoltoon tai korjaukseen:
+${slots.date ? `\n🗓️ **Toivottu aika:** ${formatDate(slots.date)}${slots.time ? ` klo ${slots.time}` : ''} – vahvistamme ajan puhelimitse tai sähköpostilla` : ''}
 
-📞 **Soita:** 050 547 7779 (ma-pe 8-17)
-📧 **Sähköposti:** [email protected]
-📍 **Osoite:** [Lisää osoite]
+📞 **Soita:** ${business.phone} (${BusinessInfo.formatOpeningHours()})
+📧 **Sähköposti:** ${business.email}
+📍 **Osoite:** ${BusinessInfo.formatAddress()}
 
 Voit myös antaa rekisterinumerosi, niin voin hakea autosi tiedot ja arvioida huoltotarpeen!`;
+      break;
       
-    } else if (message.toLowerCase().includes('hinta') || message.toLowerCase().includes('hinnat')) {
-      botResponse = `Hinnoittelumme on reilu ja läpinäkyvä:
+    case 'price_query':
+      botResponse = buildPriceResponse(slots.serviceTypes || [], session.vehicleData);
+      break;
+      
+    case 'opening_hours':
+      botResponse = `Olemme avoinna:
 
-💶 **Työtuntihinta: 89€/h** (alv 0%)
+🕘 ${BusinessInfo.formatOpeningHours()}
 
-**Yleisimmät huollot:**
-• Öljynvaihto: 150-300€
-• Jarrut (levyt + palat): 600-1200€
-• Jarruneste: 80-150€
-• Ilmansuodatin: 80-150€
-• Sähköinen diagnoosi: sisältyy huoltoon
+Ajan voit varata soittamalla ${business.phone} tai sähköpostilla ${business.email}.`;
+      break;
+      
+    case 'location':
+      botResponse = `Löydät meidät osoitteesta:
 
-Isommat työt sovitaan aina erikseen ja annamme tarkan kustannusarvion ennen töiden aloitusta. 
+📍 **${BusinessInfo.formatAddress()}**
+🗺️ ${business.address.mapsUrl}
+
+Olemme avoinna ${BusinessInfo.formatOpeningHours()}.`;
+      break;
+      
+    case 'human_handoff':
+      botResponse = `Autamme mielellämme henkilökohtaisesti!
+
+📞 **Soita:** ${business.phone} (${BusinessInfo.formatOpeningHours()})
+📧 **Sähköposti:** ${business.email}
 
-Anna rekisterinumerosi, niin voin antaa tarkemman arvion autosi huoltotarpeesta! 🔧`;
+Kerro viestissä rekisterinumerosi ja asiasi, niin palaamme sinulle mahdollisimman pian.`;
+      break;
       
-    } else if (message.toLowerCase().includes('bmw') || message.toLowerCase().includes('erikois')) {
+    case 'symptom':
+      botResponse = buildSymptomResponse(session.vehicleData);
+      break;
+      
+    case 'fault_code':
+      botResponse = buildFaultCodeResponse(slots.faultCodes || [], session);
+      break;
+      
+    case 'bmw_info':
       botResponse = `Olemme BMW-erikoiskorjaamo Helsingissä! 🏎️
 
 **Miksi valita meidät:**
@@ -155,15 +640,41 @@ Anna rekisterinumerosi, niin voin antaa tarkemman arvion autosi huoltotarpeesta!
 • i-mallit (sähkö/hybridi)
 
 Anna autosi rekisterinumero, niin haen tarkat tiedot ja huoltohistorian!`;
+      break;
+      
+    default:
+      // Vapaamuotoiseen kysymykseen vastaa kielimalli, jos se on käytössä
+      if (intent === 'unknown') {
+        const answer = await LLMResponder.respond(message, {
+          history: session.messages.slice(0, -1).map(({ role, content }) => ({ role, content })),
+          vehicle: session.vehicleData,
+          tokensUsed: session.tokensUsed,
+        }, events.token);
+        
+        if (answer) {
+          streamed = Boolean(events.token);
+          session.tokensUsed = (session.tokensUsed || 0) + answer.tokens;
+          loggers.chat.aiResponse(session.sessionId, answer.model, answer.tokens);
+          botResponse = answer.text;
+          break;
+        }
+      }
       
-    } else {
-      // Yleinen vastaus
-      botResponse = `Hei! Olen Bemufixin virtuaalinen assistentti. 👋
+      // Kirjautunut asiakas tervehditään autonsa mukaan
+      if (intent === 'greeting' && session.customerId) {
+        botResponse = buildGreeting(session);
+        break;
+      }
+      
+      // Tervehdys tai tunnistamaton viesti
+      botResponse = `${intent === 'unknown' ? 'En valitettavasti ymmärtänyt kysymystäsi. ' : 'Hei! '}Olen Bemufixin virtuaalinen assistentti. 👋
 
 Voin auttaa sinua:
 • 🔍 Ajoneuvotietojen haussa (anna rekisterinumero)
 • 🔧 Huoltotarpeen arvioinnissa
+• 🚨 Vikakoodien selittämisessä (esim. P0171 tai 2A82)
 • 📅 Ajan varaamisessa
+• 🔔 Katsastusmuistutuksen tilaamisessa
 • 💶 Hintatietojen antamisessa
 
 **Aloitetaan:** Anna autosi rekisterinumero (esim. ABC-123), niin haen tiedot ja kerron mitä autosi tarvitsee!
@@ -172,60 +683,326 @@ Tai kysy suoraan esim:
 - "Paljonko maksaa öljynvaihto?"
 - "Haluan varata ajan"
 - "Mitä BMW-erikoisuuksia teillä on?"`;
+  }
+  
+  return { text: botResponse, streamed };
+}
+
+/**
+ * Keskustelun avaus: kirjautunut asiakas tervehditään autotallinsa auton mukaan
+ */
+function buildGreeting(session: ChatSession): string {
+  if (!session.customerId) {
+    return 'Terve! Olen BMW-erikoiskorjaamonne virtuaalinen assistentti. Voin auttaa sinua ajoneuvotietojen haussa, huoltotarpeen arvioinnissa ja ajanvarauksessa. Anna rekisterinumero, niin haen autosi tiedot!';
+  }
+  
+  const garageVehicle = findGreetedVehicle(session.customerId);
+  if (!garageVehicle) {
+    return 'Hei taas! 👋 Lisää autosi Oma autotalli -sivulle, niin muistan sen seuraavalla kerralla. Voit myös antaa rekisterinumeron tässä.';
+  }
+  
+  const { vehicle } = garageVehicle;
+  // Sukupolvi, esim. E90; tuntemattomalle mallille vain malli
+  const generation = vehicle?.bmwSpecific?.generation.startsWith('Unknown') ? undefined : vehicle?.bmwSpecific?.generation;
+  const label = [generation, vehicle?.model].filter(Boolean).join(' ')
+    || garageVehicle.nickname
+    || garageVehicle.registrationNumber;
+  // Lyhenteisiin ja numeroihin pääte kaksoispisteellä: 320i:si, ABC-123:si
+  const possessive = /\d|^[A-ZÅÄÖ-]+$/.test(label) ? `${label}:si` : `${label}si`;
+  
+  return `Hei taas, miten ${possessive} voi? 🚗
+
+Voin laskea hinta-arvion, kartoittaa oireita tai varata huoltoajan autollesi ${garageVehicle.registrationNumber}.`;
+}
+
+/**
+ * Lähetä valmis teksti muutaman sanan paloina
+ */
+function streamText(text: string, onToken: (text: string) => void) {
+  const words = text.split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    onToken(words.slice(i, i + STREAM_CHUNK_WORDS).join(''));
+  }
+}
+
+/**
+ * Hae ajoneuvo rekisteristä; BMW:lle liitetään mallikohtaiset tiedot
+ */
+async function lookupVehicle(regNumber: string, session: ChatSession, events: ReplyEvents): Promise<Vehicle | null> {
+  events.status?.(`Haen ajoneuvon ${regNumber} tietoja rekisteristä...`);
+  const vehicleData = await TraficomService.getVehicleData(regNumber);
+  
+  if (vehicleData && vehicleData.make === 'BMW') {
+    // Hae BMW-spesifistä dataa
+    vehicleData.bmwSpecific = await BMWIntelligence.getVehicleIntelligence(vehicleData);
+  }
+  
+  // Päivitä autotallin auton tallennetut tiedot
+  if (vehicleData && session.customerId) {
+    try {
+      CustomerService.rememberLookup(session.customerId, vehicleData);
+    } catch (error) {
+      logger.warn('Garage vehicle update failed:', error);
     }
-    
-    // Lisää botin vastaus
-    session.messages.push({
-      role: 'assistant',
-      content: botResponse,
-      timestamp: new Date().toISOString(),
-    });
-    
-    // Tallenna sessio Redisiin (1 tunti)
-    await RedisService.setWithTTL(
-      `chat:${session.sessionId}`,
-      JSON.stringify(session),
-      3600
-    );
-    
-    res.json({
-      sessionId: session.sessionId,
-      message: botResponse,
-      timestamp: new Date().toISOString(),
-      vehicleData: session.vehicleData || null,
-    });
-    
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  return vehicleData;
+}
+
+/**
+ * Polun auto: session auto tai rekisterinumerolla haettu BMW, joka tallennetaan sessioon
+ */
+async function resolveVehicle(regNumber: string | undefined, session: ChatSession, events: ReplyEvents): Promise<Vehicle | undefined> {
+  if (!regNumber || session.vehicleData?.registrationNumber === regNumber) return session.vehicleData;
+  
+  try {
+    const vehicleData = await lookupVehicle(regNumber, session, events);
+    if (vehicleData && vehicleData.make === 'BMW') {
+      session.vehicleData = vehicleData;
+      events.vehicle?.(vehicleData);
+      return vehicleData;
     }
-    
-    logger.error('Chat error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+  } catch (error) {
+    logger.error('Error processing vehicle lookup:', error);
   }
-});
+  return undefined;
+}
 
 /**
- * GET /api/v2/chat/:sessionId
- * Hae chat-sessio
+ * Hae ajoneuvon tiedot rekisterinumerolla ja tallenna BMW:n tiedot sessioon
  */
-router.get('/:sessionId', async (req, res) => {
+async function buildVehicleResponse(regNumber: string, session: ChatSession, events: ReplyEvents): Promise<string> {
+  const { phone } = BusinessInfo.get();
+  
   try {
-    const { sessionId } = req.params;
+    const vehicleData = await lookupVehicle(regNumber, session, events);
     
-    const cached = await RedisService.get(`chat:${sessionId}`);
+    if (vehicleData && vehicleData.make === 'BMW' && vehicleData.bmwSpecific) {
+      const bmwIntelligence = vehicleData.bmwSpecific;
+      
+      // Tallenna ajoneuvotiedot sessioon ja tarjoa ajanvarausta
+      session.vehicleData = vehicleData;
+      session.offer = { flow: 'booking', slots: { registrationNumber: vehicleData.registrationNumber } };
+      events.vehicle?.(vehicleData);
+      
+      return `Loistavaa! Löysin ajoneuvosi tiedot:
+
+🚗 **${vehicleData.make} ${vehicleData.model}** (${vehicleData.modelYear ?? 'vuosimalli ei tiedossa'})
+📅 Ensimmäinen rekisteröinti: ${vehicleData.firstRegistration || 'Ei tiedossa'}
+⛽ Käyttövoima: ${vehicleData.fuelType || 'Ei tiedossa'}
+🔧 Moottori: ${vehicleData.engineDisplacement ?? '?'}cc, ${vehicleData.enginePower ?? '?'} kW
+📊 CO2: ${vehicleData.co2Emissions ?? '?'} g/km
+🏃 Kilometrit: ${vehicleData.odometer ? `${vehicleData.odometer.toLocaleString('fi-FI')} km` : 'Ei tiedossa'}
+🔍 Seuraava katsastus: ${vehicleData.inspectionExpiry || 'Ei tiedossa'}
+
+**BMW-spesifiset tiedot:**
+${bmwIntelligence.chassisCode ? `• Alusta: ${bmwIntelligence.chassisCode}` : ''}
+${bmwIntelligence.engineCode ? `• Moottorikoodi: ${bmwIntelligence.engineCode}` : ''}
+• Suositeltu öljy: ${bmwIntelligence.recommendedOil}
+• Öljymäärä: ${bmwIntelligence.oilCapacity}
+• Huoltoväli: ${bmwIntelligence.serviceIntervals}
+
+**Yleisiä ongelmia tässä mallissa:**
+${bmwIntelligence.commonIssues.map(issue => `• ${issue}`).join('\n') || 'Ei tiedossa'}
+
+Voin myös arvioida huoltotarpeen tai laskea hinta-arvion. ${DialogueManager.getFlow('booking').offer || 'Haluatko varata ajan?'}`;
+    }
     
-    if (!cached) {
-      return res.status(404).json({ error: 'Session not found' });
+    if (vehicleData) {
+      // Ei-BMW auto
+      events.vehicle?.(vehicleData);
+      return `Löysin ajoneuvon ${regNumber}, mutta se on ${vehicleData.make} ${vehicleData.model}. 
+
+Olemme erikoistuneet BMW-merkkisten autojen huoltoon ja korjauksiin. Voimme kuitenkin palvella myös muita merkkejä - ota yhteyttä suoraan puhelimitse: **${phone}** tai sähköpostilla, niin jutellaan lisää!`;
     }
     
-    const session = JSON.parse(cached);
-    res.json(session);
+    return `Valitettavasti en löytänyt tietoja rekisterinumerolla ${regNumber}. Tarkista että numero on oikein kirjoitettu (esim. ABC-123).`;
     
   } catch (error) {
-    logger.error('Session retrieval error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    logger.error('Error processing vehicle lookup:', error);
+    return `Anteeksi, tapahtui virhe haettaessa ajoneuvotietoja. Yritä hetken kuluttua uudelleen tai soita meille: ${phone}`;
   }
-});
+}
+
+/**
+ * Oirekuvaukseen vastaus: ohjaa vikadiagnoosiin ja kertoo sen hinnan
+ */
+function buildSymptomResponse(vehicle?: Vehicle): string {
+  const { phone } = BusinessInfo.get();
+  const price = diagnosticsPrice(vehicle);
+  
+  return `Ikävä kuulla autosi oireista! 🔧
+
+Oireen syy selviää luotettavimmin vikadiagnoosilla: luemme vikakoodit BMW-diagnoosilaitteella ja tarkastamme auton${price ? ` (${price}, sis. alv)` : ''}.
+
+${vehicle ? `Kerro vielä, milloin oire ilmenee (kylmänä, lämpimänä, kiihdyttäessä, jarruttaessa), niin osaamme varautua autosi ${vehicle.make} ${vehicle.model} tyypillisiin vikoihin.` : 'Anna autosi rekisterinumero, niin katson mallin tyypilliset viat.'}
+
+Jos auton ajaminen tuntuu vaaralliselta tai vikavalo vilkkuu punaisena, älä jatka ajoa vaan soita meille: **${phone}**`;
+}
+
+// Kiireellisyyden merkki vikakartoituksen vastauksessa
+const URGENCY_ICONS: Record<TriageResult['urgency'], string> = { safe: '🟢', soon: '🟡', stop: '🔴' };
+
+/**
+ * Vikakartoituksen tulos: todennäköiset syyt, kiireellisyys ja hinta-arvio
+ */
+function buildTriageResponse(triage: TriageResult, vehicle?: Vehicle): string {
+  const { phone } = BusinessInfo.get();
+  const { urgency } = TriageService.get();
+  const level = urgency[triage.urgency];
+  const diagnostics = diagnosticsPrice(vehicle);
+  const range = (price: { min: number; max: number }) =>
+    price.min === price.max ? euros(price.min) : `${euros(price.min)}-${euros(price.max)}`;
+  
+  const causes = triage.causes.map((cause, index) => {
+    const price = cause.price ? range(cause.price) : 'hinta selviää diagnoosissa';
+    const known = cause.modelIssue && vehicle ? `\n   ⚠️ Tunnettu vika mallissa ${vehicle.make} ${vehicle.model}` : '';
+    return `${index + 1}. **${cause.name}** (${Math.round(cause.probability * 100)} %) – ${price}${known}`;
+  });
+  
+  const summary = causes.length > 0
+    ? `**Todennäköisimmät syyt${triage.symptoms[0] ? ` (${triage.symptoms[0].name.toLowerCase()})` : ''}:**
+${causes.join('\n')}`
+    : 'En pysty kuvauksen perusteella arvioimaan syytä luotettavasti, joten auto kannattaa tarkastaa.';
+  
+  return `${summary}
+
+${URGENCY_ICONS[triage.urgency]} **${level?.label || ''}:** ${level?.advice || ''}
+
+Varmistamme syyn vikadiagnoosilla${diagnostics ? ` (${diagnostics}, sis. alv)` : ''} ennen korjausta.${triage.price ? ` Korjauksen arvioitu hinta ${range(triage.price)} (sis. alv${vehicle ? '' : ', tarkentuu mallin mukaan'}).` : ''}${triage.urgency === 'stop' ? `\n\n📞 **${phone}**` : ''}`;
+}
+
+/**
+ * Vikakoodien merkitys, tyypilliset syyt auton moottorille ja hinta-arvio; tarjoaa vikadiagnoosin varausta
+ */
+function buildFaultCodeResponse(codes: string[], session: ChatSession): string {
+  const vehicle = session.vehicleData;
+  const diagnostics = diagnosticsPrice(vehicle);
+  
+  if (codes.length === 0) {
+    return `Kerro vikakoodi, niin kerron mitä se tarkoittaa. Koodi on muotoa P0171 (OBD-II) tai BMW:n oma koodi, esim. 2A82.
+
+Jos sinulla ei ole lukulaitetta, luemme vikamuistin vikadiagnoosissa${diagnostics ? ` (${diagnostics}, sis. alv)` : ''}.`;
+  }
+  
+  const { urgency } = TriageService.get();
+  const range = (price: { min: number; max: number }) =>
+    price.min === price.max ? euros(price.min) : `${euros(price.min)}-${euros(price.max)}`;
+  let engineKnown = false;
+  
+  const sections = codes.map(code => {
+    const result = DtcService.lookup(code, { vehicle });
+    if (!result) {
+      return `**${code}:** En löydä koodia tietokannastani. Koodin merkitys selviää vikadiagnoosissa BMW-diagnoosilaitteella.`;
+    }
+    
+    if (result.engine) engineKnown = true;
+    const level = urgency[result.urgency];
+    // BMW:n omat koodit tunnetaan vain tietyille moottoreille
+    const generic = result.system !== 'obd' && !result.engineSpecific;
+    const lines = [
+      `**${result.code} – ${result.name}**${result.engine && !generic ? ` (moottori ${result.engine})` : ''}`,
+      'Tyypilliset syyt:',
+      ...result.causes.map(cause => `• ${cause}`),
+      ...result.knownIssues.map(issue => `⚠️ Tunnettu vika moottorissa ${result.engine}: ${issue}`),
+    ];
+    if (generic) {
+      lines.push('ℹ️ BMW:n oman koodin merkitys riippuu moottorinohjauksesta, joten tarkistamme sen autosi diagnoosilaitteella.');
+    }
+    lines.push(`${URGENCY_ICONS[result.urgency]} **${level?.label || ''}**${result.price ? ` – korjauksen arvioitu hinta ${range(result.price)} (sis. alv)` : ''}`);
+    return lines.join('\n');
+  });
+  
+  session.offer = {
+    flow: 'booking',
+    slots: { serviceTypes: QuoteEngine.getJob('diagnostics') ? ['diagnostics'] : undefined, registrationNumber: vehicle?.registrationNumber },
+  };
+  
+  return `${sections.join('\n\n')}
+
+Vikakoodi kertoo, mikä järjestelmä on havainnut vian, mutta ei aina suoraan viallista osaa. Varmistamme syyn vikadiagnoosilla${diagnostics ? ` (${diagnostics}, sis. alv)` : ''} ennen korjausta.${engineKnown ? '' : ' Anna rekisterinumerosi, niin katson koodien merkityksen juuri autosi moottorille.'}
+
+${DialogueManager.getFlow('booking').offer || 'Haluatko varata ajan?'}`;
+}
+
+/**
+ * Vikadiagnoosin hinta tekstinä auton mallin mukaan
+ */
+function diagnosticsPrice(vehicle?: Vehicle): string | null {
+  const job = QuoteEngine.getJob('diagnostics');
+  const range = job ? QuoteEngine.priceRange(job.id, vehicle ? BMWIntelligence.getQuoteContext(vehicle) : {}) : null;
+  return range ? (range.min === range.max ? euros(range.min) : `${euros(range.min)}-${euros(range.max)}`) : null;
+}
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return `${day}.${month}.${year}`;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${(minutes / 60).toLocaleString('fi-FI', { maximumFractionDigits: 1 })} h`;
+
+const euros = (value: number, decimals = 0) =>
+  `${value.toLocaleString('fi-FI', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} €`;
+
+/**
+ * Hintavastaus QuoteEnginen hinnastosta: eritelty arvio kysytylle työlle
+ * tai yleisimpien töiden hinnat, session auton mallin mukaan jos tiedossa
+ */
+function buildPriceResponse(jobIds: string[], vehicle?: Vehicle): string {
+  const pricing = QuoteEngine.getPricing();
+  const vatPercent = `${(pricing.vatRate * 100).toLocaleString('fi-FI')} %`;
+  const jobs = jobIds.map(id => QuoteEngine.getJob(id)).filter((job): job is RepairJob => Boolean(job));
+
+  if (jobs.length > 0 && vehicle) {
+    const quote = BMWIntelligence.getRepairQuote(vehicle, jobs.map(job => job.id));
+    const lines = quote.lines.map(line => line.type === 'labour'
+      ? `• ${line.description}: ${line.quantity.toLocaleString('fi-FI')} h × ${euros(line.unitPrice)} = ${euros(line.total, 2)}`
+      : `• ${line.description}: ${euros(line.total, 2)}`);
+    const notes = quote.jobs.filter(job => job.note).map(job => `ℹ️ ${job.note}`);
+
+    return `**Kustannusarvio: ${quote.jobs.map(job => job.name).join(', ')}** (${quote.vehicle})
+
+${lines.join('\n')}
+
+Yhteensä alv 0 %: ${euros(quote.totals.excludingVat, 2)}
+ALV ${vatPercent}: ${euros(quote.totals.vat, 2)}
+**Yhteensä: ${euros(quote.totals.includingVat, 2)}**
+${notes.length > 0 ? `\n${notes.join('\n')}\n` : ''}
+Arvio perustuu mallin tyypillisiin työaikoihin. Tarkka hinta vahvistetaan ennen töiden aloitusta.`;
+  }
+
+  if (jobs.length > 0) {
+    const ranges = jobs.map(job => {
+      const range = QuoteEngine.priceRange(job.id);
+      return `• ${job.name}: ${range ? `${euros(range.min)}-${euros(range.max)}` : 'kysy hinta'}`;
+    });
+
+    return `Hinta-arvio (sis. alv ${vatPercent}):
+
+${ranges.join('\n')}
+
+Hinta riippuu mallista ja moottorista. Anna rekisterinumerosi, niin lasken tarkan arvion juuri sinun autollesi! 🔧`;
+  }
+
+  const context = vehicle ? BMWIntelligence.getQuoteContext(vehicle) : {};
+  const common = COMMON_JOBS.map(id => {
+    const job = QuoteEngine.getJob(id);
+    const range = BMWIntelligence.getRepairCostEstimate(id, context);
+    const price = range.min === range.max ? euros(range.min) : `${euros(range.min)}-${euros(range.max)}`;
+    return job ? `• ${job.name}: ${price}` : null;
+  }).filter(Boolean);
+
+  return `Hinnoittelumme on reilu ja läpinäkyvä:
+
+💶 **Työtuntihinta: ${euros(pricing.shopRate)}/h** (alv 0 %)
+
+**Yleisimmät huollot${vehicle ? ` autollesi ${vehicle.make} ${vehicle.model}` : ''} (sis. alv ${vatPercent}):**
+${common.join('\n')}
+• Sähköinen diagnoosi: sisältyy huoltoon
+
+Isommat työt sovitaan aina erikseen ja annamme tarkan kustannusarvion ennen töiden aloitusta. 
+
+${vehicle ? 'Kysy minkä tahansa työn hintaa, esim. "Paljonko maksaa jakoketjun vaihto?" 🔧' : 'Anna rekisterinumerosi, niin voin antaa tarkemman arvion autosi huoltotarpeesta! 🔧'}`;
+}
 
 export default router;
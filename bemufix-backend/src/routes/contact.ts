@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ContactRequestSchema } from '../models/Contact';
+import { createRateLimiter } from '../middleware/rateLimiter';
+import { ContactService } from '../services/ContactService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Muutama viesti tunnissa riittää ihmiselle; loput ovat roskapostia
+const contactThrottle = createRateLimiter({
+  prefix: 'contact',
+  windowSeconds: 60 * 60,
+  max: Number(process.env.CONTACT_RATE_LIMIT_MAX) || 5
+});
+
+/**
+ * POST /api/contact
+ * Yhteydenottolomakkeen viesti; tallennetaan ja korjaamolle lähtee ilmoitus
+ */
+router.post('/', contactThrottle, async (req, res) => {
+  try {
+    const request = ContactRequestSchema.parse(req.body);
+
+    // Botti täytti piilokentän: vastataan kuin onnistuneeseen, mutta ei tallenneta
+    if (request.website) {
+      logger.info(`Contact form honeypot filled from ${req.ip}`);
+      return res.status(202).json({ received: true });
+    }
+
+    await ContactService.submit(request);
+    res.status(202).json({ received: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error('Contact form error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
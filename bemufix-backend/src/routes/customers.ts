@@ -0,0 +1,157 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { GarageVehicleRequestSchema, LoginRequestSchema, LoginVerifyRequestSchema } from '../models/Customer';
+import type { CustomerAccount } from '../models/Customer';
+import { createRateLimiter } from '../middleware/rateLimiter';
+import { getBearerToken, getCustomer, requireCustomer } from '../middleware/customerAuth';
+import {
+  CustomerService,
+  GarageFullError,
+  GarageVehicleNotFoundError,
+  InvalidLoginError
+} from '../services/CustomerService';
+import { InvalidRegistrationNumberError } from '../services/InspectionReminderService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Koodin pyyntöjä ja arvauksia rajoitetaan IP-osoitteittain
+const loginThrottle = createRateLimiter({
+  prefix: 'customer-login',
+  windowSeconds: 60 * 60,
+  max: Number(process.env.LOGIN_RATE_LIMIT_MAX) || 10
+});
+
+/**
+ * POST /api/customers/login
+ * Lähetä kirjautumiskoodi ja -linkki sähköpostiin. Vastaus on sama, oli tiliä tai ei.
+ */
+router.post('/login', loginThrottle, async (req, res) => {
+  try {
+    await CustomerService.requestLogin(LoginRequestSchema.parse(req.body));
+    res.status(202).json({ sent: true });
+
+  } catch (error) {
+    sendError(res, error, 'Customer login request error:');
+  }
+});
+
+/**
+ * POST /api/customers/login/verify
+ * Kirjaudu koodilla ({ email, code }) tai linkin tunnuksella ({ token }); palauttaa istuntotunnuksen
+ */
+router.post('/login/verify', loginThrottle, (req, res) => {
+  try {
+    const { customer, token, expiresAt } = CustomerService.verifyLogin(LoginVerifyRequestSchema.parse(req.body));
+    res.json({ token, expiresAt, customer: toPublic(customer) });
+
+  } catch (error) {
+    sendError(res, error, 'Customer login error:');
+  }
+});
+
+/**
+ * POST /api/customers/logout
+ * Päätä istunto
+ */
+router.post('/logout', requireCustomer, (req, res) => {
+  try {
+    CustomerService.logout(getBearerToken(req) || '');
+    res.status(204).end();
+
+  } catch (error) {
+    sendError(res, error, 'Customer logout error:');
+  }
+});
+
+/**
+ * GET /api/customers/me
+ * Kirjautuneen asiakkaan tiedot ja autotallin autot historioineen
+ */
+router.get('/me', requireCustomer, (req, res) => {
+  try {
+    const customer = getCustomer(res)!;
+    res.json({ customer: toPublic(customer), vehicles: CustomerService.getGarage(customer.id) });
+
+  } catch (error) {
+    sendError(res, error, 'Customer profile error:');
+  }
+});
+
+/**
+ * POST /api/customers/me/vehicles
+ * Lisää auto autotalliin rekisterinumerolla; tiedot haetaan rekisteristä
+ */
+router.post('/me/vehicles', requireCustomer, async (req, res) => {
+  try {
+    const request = GarageVehicleRequestSchema.parse(req.body);
+    const vehicle = await CustomerService.addVehicle(getCustomer(res)!.id, request);
+    res.status(201).json({ vehicle });
+
+  } catch (error) {
+    sendError(res, error, 'Garage vehicle add error:');
+  }
+});
+
+/**
+ * POST /api/customers/me/vehicles/:registrationNumber/refresh
+ * Päivitä auton tiedot rekisteristä
+ */
+router.post('/me/vehicles/:registrationNumber/refresh', requireCustomer, async (req, res) => {
+  try {
+    const vehicle = await CustomerService.refreshVehicle(getCustomer(res)!.id, req.params.registrationNumber);
+    res.json({ vehicle });
+
+  } catch (error) {
+    sendError(res, error, 'Garage vehicle refresh error:');
+  }
+});
+
+/**
+ * DELETE /api/customers/me/vehicles/:registrationNumber
+ * Poista auto autotallista
+ */
+router.delete('/me/vehicles/:registrationNumber', requireCustomer, (req, res) => {
+  try {
+    CustomerService.removeVehicle(getCustomer(res)!.id, req.params.registrationNumber);
+    res.status(204).end();
+
+  } catch (error) {
+    sendError(res, error, 'Garage vehicle remove error:');
+  }
+});
+
+/**
+ * Asiakkaan tiedot ilman sisäisiä aikaleimoja
+ */
+function toPublic(customer: CustomerAccount) {
+  return {
+    id: customer.id,
+    email: customer.email,
+    name: customer.name,
+    phone: customer.phone,
+    locale: customer.locale
+  };
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof InvalidLoginError) {
+    return res.status(401).json({ error: 'Invalid or expired login code' });
+  }
+  if (error instanceof InvalidRegistrationNumberError) {
+    return res.status(400).json({ error: 'Invalid registration number' });
+  }
+  if (error instanceof GarageVehicleNotFoundError) {
+    return res.status(404).json({ error: 'Vehicle not found' });
+  }
+  if (error instanceof GarageFullError) {
+    return res.status(409).json({ error: error.message, limit: error.limit });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export default router;
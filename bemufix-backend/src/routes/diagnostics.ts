@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { DtcService } from '../services/DtcService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const DtcQuerySchema = z.object({
+  // Moottorikoodi tai -perhe, esim. N47 tai N47D20
+  engine: z.string().regex(/^[A-Za-z]\d{2}[A-Za-z0-9]{0,3}$/, 'expected engine code like N47 or N47D20').optional()
+});
+
+/**
+ * GET /api/diagnostics/dtc/:code?engine=N47
+ * Vikakoodin merkitys, tyypilliset syyt moottorille ja korjauksen hinta-arvio (sis. alv)
+ */
+router.get('/dtc/:code', (req, res) => {
+  try {
+    const { engine } = DtcQuerySchema.parse(req.query);
+
+    if (!DtcService.normalize(req.params.code)) {
+      return res.status(400).json({ error: 'Invalid fault code' });
+    }
+
+    const result = DtcService.lookup(req.params.code, { engine });
+    if (!result) {
+      return res.status(404).json({ error: 'Unknown fault code' });
+    }
+    res.json(result);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error('Fault code lookup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
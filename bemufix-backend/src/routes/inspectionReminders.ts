@@ -0,0 +1,109 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { InspectionSubscribeRequestSchema, InspectionSubscription } from '../models/InspectionReminder';
+import { NotificationLocaleSchema } from '../models/Notification';
+import { createRateLimiter } from '../middleware/rateLimiter';
+import {
+  InspectionReminderService,
+  InvalidRegistrationNumberError,
+  SubscriptionNotFoundError
+} from '../services/InspectionReminderService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const subscribeThrottle = createRateLimiter({
+  prefix: 'inspection-reminders',
+  windowSeconds: 60 * 60,
+  max: Number(process.env.INSPECTION_RATE_LIMIT_MAX) || 5
+});
+
+/**
+ * GET /api/inspection-reminders/consent
+ * Suostumusteksti lomakkeelle (?locale=fi|en)
+ */
+router.get('/consent', (req, res) => {
+  try {
+    const locale = NotificationLocaleSchema.default('fi').parse(req.query.locale);
+    res.json({ locale, text: InspectionReminderService.getConsentText(locale), reminderDays: InspectionReminderService.get().reminderDays });
+
+  } catch (error) {
+    sendError(res, error, 'Inspection consent error:');
+  }
+});
+
+/**
+ * POST /api/inspection-reminders
+ * Tilaa katsastusmuistutukset rekisterinumerolla ja sähköpostilla tai puhelinnumerolla
+ */
+router.post('/', subscribeThrottle, async (req, res) => {
+  try {
+    const request = InspectionSubscribeRequestSchema.parse(req.body);
+    const { subscription } = await InspectionReminderService.subscribe(request, 'web');
+    res.status(201).json({ subscription: toPublic(subscription) });
+
+  } catch (error) {
+    sendError(res, error, 'Inspection subscribe error:');
+  }
+});
+
+/**
+ * GET /api/inspection-reminders/:token
+ * Tilauksen tiedot peruutuslinkin tunnuksella
+ */
+router.get('/:token', (req, res) => {
+  try {
+    const subscription = InspectionReminderService.findByToken(req.params.token);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+    res.json({ subscription: toPublic(subscription) });
+
+  } catch (error) {
+    sendError(res, error, 'Inspection subscription lookup error:');
+  }
+});
+
+/**
+ * DELETE /api/inspection-reminders/:token
+ * Lopeta muistutukset
+ */
+router.delete('/:token', (req, res) => {
+  try {
+    res.json({ subscription: toPublic(InspectionReminderService.unsubscribe(req.params.token)) });
+
+  } catch (error) {
+    sendError(res, error, 'Inspection unsubscribe error:');
+  }
+});
+
+/**
+ * Tilaus ilman lähetyshistoriaa
+ */
+function toPublic(subscription: InspectionSubscription) {
+  return {
+    status: subscription.status,
+    registrationNumber: subscription.registrationNumber,
+    email: subscription.email,
+    phone: subscription.phone,
+    inspectionDue: subscription.inspectionDue,
+    createdAt: subscription.createdAt,
+    unsubscribedAt: subscription.unsubscribedAt
+  };
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof InvalidRegistrationNumberError) {
+    return res.status(400).json({ error: 'Invalid registration number' });
+  }
+  if (error instanceof SubscriptionNotFoundError) {
+    return res.status(404).json({ error: 'Subscription not found' });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export default router;
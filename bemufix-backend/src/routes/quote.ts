@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { QuoteEngine, UnknownRepairJobError } from '../services/QuoteEngine';
+import { BMWIntelligence } from '../services/BMWIntelligence';
+import { CacheService } from '../services/CacheService';
+import { TraficomService } from '../services/TraficomService';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const QuoteRequestSchema = z.object({
+  jobs: z.array(z.string().min(1)).min(1).max(20),
+  registrationNumber: z.string().min(1).max(10).optional()
+});
+
+/**
+ * GET /api/quote/pricing
+ * Työtuntihinta, alv ja yleisimpien töiden hintahaarukat (sis. alv)
+ */
+router.get('/pricing', (req, res) => {
+  try {
+    const pricing = QuoteEngine.getPricing();
+
+    res.json({
+      shopRate: pricing.shopRate,
+      vatRate: pricing.vatRate,
+      jobs: pricing.jobs.map(job => ({
+        id: job.id,
+        name: job.name,
+        description: job.description,
+        priceRange: QuoteEngine.priceRange(job.id)
+      }))
+    });
+
+  } catch (error) {
+    logger.error('Pricing error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/quote
+ * Eritelty kustannusarvio, hinnoiteltu rekisterinumeron mukaiselle mallille.
+ * Sama arvio välimuistissa hinnaston revision, auton ja töiden mukaan.
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { jobs, registrationNumber } = QuoteRequestSchema.parse(req.body);
+
+    let vehicle = null;
+    if (registrationNumber) {
+      if (!TraficomService.validateRegistrationNumber(registrationNumber)) {
+        return res.status(400).json({ error: 'Invalid registration number' });
+      }
+      vehicle = await TraficomService.getVehicleData(registrationNumber);
+    }
+
+    const cache = CacheService.namespace('quote');
+    const cacheKey = `r${QuoteEngine.getPricing().revision}:${vehicle?.registrationNumber || '-'}:${[...jobs].sort().join(',')}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return res.json({ vehicle, quote: JSON.parse(cached) });
+    }
+
+    const quote = vehicle ? BMWIntelligence.getRepairQuote(vehicle, jobs) : QuoteEngine.quote(jobs);
+    await cache.set(cacheKey, JSON.stringify(quote));
+    res.json({ vehicle, quote });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof UnknownRepairJobError) {
+      return res.status(400).json({ error: 'Unknown repair job', details: error.jobIds });
+    }
+    logger.error('Quote error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import {
+  CreateStaffRequestSchema,
+  StaffLoginRequestSchema,
+  StaffRefreshRequestSchema,
+  UpdateStaffRequestSchema
+} from '../models/Staff';
+import type { StaffAccount } from '../models/Staff';
+import { createRateLimiter } from '../middleware/rateLimiter';
+import { getStaff, requireStaff } from '../middleware/staffAuth';
+import {
+  InvalidCredentialsError,
+  InvalidRefreshTokenError,
+  LastAdminError,
+  StaffAuthNotConfiguredError,
+  StaffAuthService,
+  StaffExistsError,
+  StaffNotFoundError
+} from '../services/StaffAuthService';
+import type { StaffSession } from '../services/StaffAuthService';
+import logger, { loggers } from '../utils/logger';
+
+const router = Router();
+
+// Kirjautumisia ja tunnusten uusimisia rajoitetaan IP-osoitteittain
+const loginThrottle = createRateLimiter({
+  prefix: 'staff-login',
+  windowSeconds: 15 * 60,
+  max: Number(process.env.STAFF_LOGIN_RATE_LIMIT_MAX) || 20
+});
+
+/**
+ * POST /api/staff/login
+ * Kirjaudu sähköpostilla ja salasanalla; palauttaa pääsy- ja uusimistunnuksen.
+ * Toistuvat väärät salasanat lukitsevat tilin hetkeksi; lukittu tili saa saman
+ * vastauksen kuin väärä salasana.
+ */
+router.post('/login', loginThrottle, async (req, res) => {
+  const ip = req.ip || 'unknown';
+  try {
+    const request = StaffLoginRequestSchema.parse(req.body);
+    try {
+      const session = await StaffAuthService.login(request);
+      loggers.security.authSuccess(session.staff.id, ip);
+      res.json(toSession(session));
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        loggers.security.authFailure(request.email, ip, error.message);
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    sendError(res, error, 'Staff login error:');
+  }
+});
+
+/**
+ * POST /api/staff/refresh
+ * Vaihda uusimistunnus uuteen pääsy- ja uusimistunnukseen; vanha lakkaa toimimasta
+ */
+router.post('/refresh', loginThrottle, (req, res) => {
+  try {
+    const { refreshToken } = StaffRefreshRequestSchema.parse(req.body);
+    res.json(toSession(StaffAuthService.refresh(refreshToken)));
+
+  } catch (error) {
+    sendError(res, error, 'Staff token refresh error:');
+  }
+});
+
+/**
+ * POST /api/staff/logout
+ * Päätä uusimistunnuksen istunto
+ */
+router.post('/logout', (req, res) => {
+  try {
+    const { refreshToken } = StaffRefreshRequestSchema.parse(req.body);
+    StaffAuthService.logout(refreshToken);
+    res.status(204).end();
+
+  } catch (error) {
+    sendError(res, error, 'Staff logout error:');
+  }
+});
+
+/**
+ * GET /api/staff/me
+ * Kirjautuneen työntekijän tiedot ja rooli
+ */
+router.get('/me', requireStaff(), (req, res) => {
+  res.json({ staff: toPublic(getStaff(res)!) });
+});
+
+/**
+ * GET /api/staff/users
+ * Kaikki henkilökunnan tilit (ylläpitäjä)
+ */
+router.get('/users', requireStaff('admin'), (req, res) => {
+  try {
+    res.json({ staff: StaffAuthService.listStaff().map(toPublic) });
+
+  } catch (error) {
+    sendError(res, error, 'Staff list error:');
+  }
+});
+
+/**
+ * POST /api/staff/users
+ * Luo tili ({ email, name, role, password }) (ylläpitäjä)
+ */
+router.post('/users', requireStaff('admin'), async (req, res) => {
+  try {
+    const staff = await StaffAuthService.createStaff(CreateStaffRequestSchema.parse(req.body));
+    res.status(201).json({ staff: toPublic(staff) });
+
+  } catch (error) {
+    sendError(res, error, 'Staff create error:');
+  }
+});
+
+/**
+ * PATCH /api/staff/users/:id
+ * Muuta nimeä, roolia tai salasanaa tai poista tili käytöstä (ylläpitäjä)
+ */
+router.patch('/users/:id', requireStaff('admin'), async (req, res) => {
+  try {
+    const staff = await StaffAuthService.updateStaff(req.params.id, UpdateStaffRequestSchema.parse(req.body));
+    res.json({ staff: toPublic(staff) });
+
+  } catch (error) {
+    sendError(res, error, 'Staff update error:');
+  }
+});
+
+/**
+ * POST /api/staff/users/:id/unlock
+ * Avaa väärien salasanojen lukitsema tili (ylläpitäjä)
+ */
+router.post('/users/:id/unlock', requireStaff('admin'), (req, res) => {
+  try {
+    res.json({ staff: toPublic(StaffAuthService.unlock(req.params.id)) });
+
+  } catch (error) {
+    sendError(res, error, 'Staff unlock error:');
+  }
+});
+
+/**
+ * Tilin tiedot ilman salasanan tiivistettä
+ */
+function toPublic(staff: StaffAccount) {
+  return {
+    id: staff.id,
+    email: staff.email,
+    name: staff.name,
+    role: staff.role,
+    disabled: staff.disabled,
+    lockedUntil: staff.lockedUntil,
+    lastLoginAt: staff.lastLoginAt
+  };
+}
+
+function toSession(session: StaffSession) {
+  return {
+    accessToken: session.accessToken,
+    accessTokenExpiresAt: session.accessTokenExpiresAt,
+    refreshToken: session.refreshToken,
+    refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+    staff: toPublic(session.staff)
+  };
+}
+
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof InvalidCredentialsError) {
+    return res.status(401).json({ error: 'Invalid email or password' });
+  }
+  if (error instanceof InvalidRefreshTokenError) {
+    return res.status(401).json({ error: 'Invalid or expired refresh token' });
+  }
+  if (error instanceof StaffNotFoundError) {
+    return res.status(404).json({ error: 'Staff account not found' });
+  }
+  if (error instanceof StaffExistsError || error instanceof LastAdminError) {
+    return res.status(409).json({ error: error.message });
+  }
+  if (error instanceof StaffAuthNotConfiguredError) {
+    return res.status(503).json({ error: 'Staff login not configured' });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export default router;
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { VinDecoder } from '../services/VinDecoder';
+import { VehicleStore } from '../services/VehicleStore';
+import { BMWIntelligence } from '../services/BMWIntelligence';
+import { TraficomService } from '../services/TraficomService';
+import { ServiceRecordSchema, TransmissionSchema } from '../models/Maintenance';
+import { IssueSeveritySchema, VehicleConditionSchema } from '../models/Valuation';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const MaintenanceRequestSchema = z.object({
+  registrationNumber: z.string().min(1).max(10),
+  odometer: z.number().nonnegative().optional(),
+  transmission: TransmissionSchema.optional(),
+  history: z.array(ServiceRecordSchema).max(200).default([])
+});
+
+const ValuationRequestSchema = z.object({
+  registrationNumber: z.string().min(1).max(10),
+  odometer: z.number().nonnegative().optional(),
+  condition: VehicleConditionSchema.optional(),
+  knownIssues: IssueSeveritySchema.optional()
+});
+
+/**
+ * GET /api/vehicle/vin/:vin
+ * Purkaa VIN-tunnuksen ja palauttaa BMW-tiedot, jos tunnus on kelvollinen
+ */
+router.get('/vin/:vin', async (req, res) => {
+  const vin = VinDecoder.normalize(req.params.vin);
+
+  if (!VinDecoder.isWellFormed(vin)) {
+    return res.status(400).json({ error: 'Invalid VIN', details: 'VIN must be 17 characters without I, O or Q' });
+  }
+
+  try {
+    const decoded = VinDecoder.decode(vin);
+
+    // Rekisteritiedot paikallisesta kannasta, jos auto löytyy
+    const vehicle = VehicleStore.findByVin(vin);
+
+    let intelligence = null;
+    if (decoded.valid && decoded.isBmw) {
+      intelligence = await BMWIntelligence.getVehicleIntelligence(vehicle ?? {
+        make: 'BMW',
+        model: decoded.type?.model ?? '',
+        modelYear: decoded.modelYear ?? undefined,
+        vin
+      });
+    }
+
+    res.json({ vin: decoded, vehicle, intelligence });
+
+  } catch (error) {
+    logger.error('VIN decode error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/vehicle/maintenance
+ * Huoltosuunnitelma rekisterinumeron, mittarilukeman ja huoltohistorian perusteella
+ */
+router.post('/maintenance', async (req, res) => {
+  try {
+    const { registrationNumber, odometer, transmission, history } = MaintenanceRequestSchema.parse(req.body);
+
+    if (!TraficomService.validateRegistrationNumber(registrationNumber)) {
+      return res.status(400).json({ error: 'Invalid registration number' });
+    }
+
+    const vehicle = await TraficomService.getVehicleData(registrationNumber);
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    const plan = BMWIntelligence.getMaintenanceSchedule(vehicle, { odometer, transmission, history });
+    res.json({ vehicle, plan });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error('Maintenance plan error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/vehicle/valuation
+ * Markkina-arvo vertailukauppojen perusteella (kunto, kilometrit, tunnetut viat)
+ */
+router.post('/valuation', async (req, res) => {
+  try {
+    const { registrationNumber, ...options } = ValuationRequestSchema.parse(req.body);
+
+    if (!TraficomService.validateRegistrationNumber(registrationNumber)) {
+      return res.status(400).json({ error: 'Invalid registration number' });
+    }
+
+    const vehicle = await TraficomService.getVehicleData(registrationNumber);
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    const valuation = BMWIntelligence.getValuation(vehicle, options);
+    if (!valuation) {
+      return res.status(422).json({ error: 'Valuation not available for this vehicle' });
+    }
+
+    res.json({ vehicle, valuation });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    logger.error('Valuation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
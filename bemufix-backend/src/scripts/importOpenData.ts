@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+import { OpenDataImporter } from '../services/registry/OpenDataImporter';
+import { VehicleStore } from '../services/VehicleStore';
+import logger from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Import a Traficom open-data CSV dump into the local vehicle store
+ *
+ * Usage: npm run import:opendata -- <file.csv> [--partial] [--encoding=latin1]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find(arg => !arg.startsWith('--')) || process.env.TRAFICOM_OPEN_DATA_FILE;
+  const encoding = args.find(arg => arg.startsWith('--encoding='))?.split('=')[1] as BufferEncoding | undefined;
+
+  if (!filePath) {
+    logger.error('Usage: npm run import:opendata -- <file.csv> [--partial] [--encoding=latin1]');
+    process.exit(1);
+  }
+
+  try {
+    const report = await OpenDataImporter.import(filePath, {
+      partial: args.includes('--partial'),
+      encoding
+    });
+    console.table({
+      rows: report.rows,
+      inserted: report.inserted,
+      updated: report.updated,
+      unchanged: report.unchanged,
+      dropped: report.dropped,
+      skipped: report.skipped
+    });
+  } catch (error) {
+    logger.error('Open data import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    VehicleStore.close();
+  }
+}
+
+main();
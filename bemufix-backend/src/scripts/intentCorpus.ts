@@ -0,0 +1,48 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { IntentSchema, IntentSlots, IntentSlotsSchema } from '../models/Intent';
+
+const CorpusEntrySchema = z.object({
+  text: z.string().min(1),
+  intent: IntentSchema,
+  slots: IntentSlotsSchema.optional()
+}).strict();
+
+export type CorpusEntry = z.infer<typeof CorpusEntrySchema>;
+
+// Relative dates in the corpus ("huomenna", "perjantaina") are resolved from this Monday
+export const CORPUS_TODAY = new Date(2026, 9, 19);
+export const MIN_ACCURACY = 0.9;
+
+export function getCorpusFile(): string {
+  return path.join(__dirname, '../../knowledge/intents/corpus.jsonl');
+}
+
+/**
+ * Labelled messages of the corpus, one JSON object per line
+ */
+export function loadCorpus(file: string = getCorpusFile()): CorpusEntry[] {
+  return fs.readFileSync(file, 'utf-8')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map((line, i) => {
+      const result = CorpusEntrySchema.safeParse(JSON.parse(line));
+      if (!result.success) throw new Error(`Invalid corpus line ${i + 1}: ${result.error.message}`);
+      return result.data;
+    });
+}
+
+/**
+ * Whether the extracted slots equal the labelled ones; list order does not matter
+ */
+export function sameSlots(entry: CorpusEntry, slots: IntentSlots): boolean {
+  const expected = entry.slots || {};
+  const keys = new Set([...Object.keys(expected), ...Object.keys(slots)] as (keyof IntentSlots)[]);
+  return [...keys].every(key => {
+    const [a, b] = [expected[key], slots[key]];
+    return Array.isArray(a) && Array.isArray(b)
+      ? [...a].sort().join() === [...b].sort().join()
+      : a === b;
+  });
+}
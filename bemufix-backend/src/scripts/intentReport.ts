@@ -0,0 +1,59 @@
+import dotenv from 'dotenv';
+import { IntentService } from '../services/IntentService';
+import logger from '../utils/logger';
+import { CORPUS_TODAY, MIN_ACCURACY, getCorpusFile, loadCorpus, sameSlots } from './intentCorpus';
+
+dotenv.config();
+
+/**
+ * Run the intent pipeline over the labelled corpus and print accuracy,
+ * misclassifications and slot mismatches
+ *
+ * Usage: npm run intents:report -- [corpus.jsonl]
+ */
+async function main() {
+  const corpusFile = process.argv[2] || getCorpusFile();
+
+  try {
+    const entries = loadCorpus(corpusFile);
+
+    let correctIntents = 0;
+    let correctSlots = 0;
+    const misclassified: Record<string, string | number>[] = [];
+    const slotMismatches: Record<string, string>[] = [];
+
+    for (const entry of entries) {
+      const result = await IntentService.classify(entry.text, { today: CORPUS_TODAY });
+
+      if (result.intent === entry.intent) {
+        correctIntents++;
+      } else {
+        misclassified.push({ text: entry.text, expected: entry.intent, got: result.intent, confidence: result.confidence });
+      }
+
+      if (sameSlots(entry, result.slots)) {
+        correctSlots++;
+      } else {
+        slotMismatches.push({ text: entry.text, expected: JSON.stringify(entry.slots || {}), got: JSON.stringify(result.slots) });
+      }
+    }
+
+    const accuracy = correctIntents / entries.length;
+    console.log(`Intent model revision ${IntentService.getModel().revision}, ${entries.length} labelled messages`);
+    console.log(`Intent accuracy: ${(accuracy * 100).toFixed(1)} % (${correctIntents}/${entries.length})`);
+    console.log(`Slot accuracy: ${((correctSlots / entries.length) * 100).toFixed(1)} % (${correctSlots}/${entries.length})`);
+
+    if (misclassified.length > 0) console.table(misclassified);
+    if (slotMismatches.length > 0) console.table(slotMismatches);
+
+    if (accuracy < MIN_ACCURACY || slotMismatches.length > 0) {
+      logger.error(`Intent corpus check failed (accuracy ${(accuracy * 100).toFixed(1)} %, required ${MIN_ACCURACY * 100} %; ${slotMismatches.length} slot mismatches)`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Intent report failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+main();
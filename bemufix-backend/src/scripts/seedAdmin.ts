@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { CreateStaffRequestSchema } from '../models/Staff';
+import { StaffAuthService } from '../services/StaffAuthService';
+import { StaffStore } from '../services/StaffStore';
+import logger from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Create the first admin account in the local staff store. The password is
+ * read from STAFF_SEED_PASSWORD, or generated and printed once. Does nothing
+ * when an admin already exists; further accounts are made through /api/staff/users.
+ *
+ * Usage: npm run staff:seed-admin -- <email> [--name=Ylläpitäjä]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const email = args.find(arg => !arg.startsWith('--')) || process.env.STAFF_SEED_EMAIL;
+  const name = args.find(arg => arg.startsWith('--name='))?.split('=')[1] || 'Ylläpitäjä';
+
+  if (!email) {
+    logger.error('Usage: npm run staff:seed-admin -- <email> [--name=Ylläpitäjä]');
+    process.exit(1);
+  }
+
+  try {
+    if (StaffAuthService.hasAdmin()) {
+      logger.error(`An admin already exists in ${StaffStore.getFilePath()}, not creating another`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const generated = !process.env.STAFF_SEED_PASSWORD;
+    const password = process.env.STAFF_SEED_PASSWORD || crypto.randomBytes(18).toString('base64url');
+    const staff = await StaffAuthService.createStaff(CreateStaffRequestSchema.parse({ email, name, role: 'admin', password }));
+
+    console.table({ id: staff.id, email: staff.email, role: staff.role, store: StaffStore.getFilePath() });
+    if (generated) {
+      console.log(`Generated password (shown only now): ${password}`);
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.error(`Invalid admin account: ${error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    } else {
+      logger.error('Admin seed failed:', error);
+    }
+    process.exitCode = 1;
+  } finally {
+    StaffStore.close();
+  }
+}
+
+main();
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import type { BMWModel } from '../models/BMWModel';
+import type { Valuation, VehicleCondition } from '../models/Valuation';
+import { ValuationService, ValuationInput } from '../services/ValuationService';
+
+export interface ReferenceCase {
+  name: string;
+  input: Omit<ValuationInput, 'model' | 'today'> & { generation: string; model: string };
+  today: string;
+  expect: Partial<Record<VehicleCondition | 'band', { min: number; max: number }>> & Partial<Pick<Valuation, 'basis' | 'confidence'>>;
+}
+
+export interface ReferenceResult {
+  name: string;
+  valuation: Valuation | null;
+  // Empty when the case passed
+  failures: string[];
+}
+
+export function getReferenceCasesFile(): string {
+  return path.join(__dirname, '../../knowledge/valuation/reference-cases.json');
+}
+
+export function loadReferenceCases(file: string = getReferenceCasesFile()): ReferenceCase[] {
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as ReferenceCase[];
+}
+
+/**
+ * Value the car of a reference case and compare it to the expected ranges
+ */
+export function runReferenceCase(reference: ReferenceCase, models: BMWModel[]): ReferenceResult {
+  const { generation, model: name, ...input } = reference.input;
+  const model = models.find(m => m.generation === generation && m.model === name);
+  const valuation = model ? ValuationService.value({ ...input, model, today: new Date(reference.today) }) : null;
+  return { name: reference.name, valuation, failures: valuation ? check(reference, valuation) : ['model or valuation missing'] };
+}
+
+function check(reference: ReferenceCase, valuation: Valuation): string[] {
+  const failures: string[] = [];
+
+  for (const [key, range] of Object.entries(reference.expect)) {
+    if (typeof range !== 'object') continue;
+    const values = key === 'band' ? [valuation.band.low, valuation.band.high] : [valuation.values[key as VehicleCondition]];
+    if (values.some(value => value < range.min || value > range.max)) {
+      failures.push(`${key} ${values.join('-')} outside ${range.min}-${range.max}`);
+    }
+  }
+  if (reference.expect.basis && reference.expect.basis !== valuation.basis) {
+    failures.push(`basis ${valuation.basis}`);
+  }
+  if (reference.expect.confidence && reference.expect.confidence !== valuation.confidence) {
+    failures.push(`confidence ${valuation.confidence}`);
+  }
+
+  return failures;
+}
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { BMWModelCatalog } from '../services/BMWModelCatalog';
+import { ValuationService } from '../services/ValuationService';
+import logger from '../utils/logger';
+import { getReferenceCasesFile, loadReferenceCases, runReferenceCase } from './valuationCases';
+
+dotenv.config();
+
+/**
+ * Print the valuation calibration and check it against the reference cases
+ *
+ * Usage: npm run valuation:report -- [reference-cases.json]
+ */
+function main() {
+  const casesFile = process.argv[2] || getReferenceCasesFile();
+
+  try {
+    const models = BMWModelCatalog.load();
+    const calibration = ValuationService.getCalibration();
+
+    console.log(`Comparable sales: ${calibration.rows} (${calibration.skipped} skipped), latest ${calibration.latestSale}, σ=${calibration.globalSd.toFixed(3)}`);
+    console.table(Object.fromEntries(Object.entries(calibration.coefficients).map(([feature, value]) => [feature, Number(value.toFixed(4))])));
+
+    const results = loadReferenceCases(casesFile).map(reference => runReferenceCase(reference, models));
+
+    console.table(results.map(result => ({
+      case: result.name,
+      good: result.valuation?.values.good,
+      band: result.valuation ? `${result.valuation.band.low}-${result.valuation.band.high}` : '-',
+      confidence: result.valuation?.confidence,
+      result: result.failures.length === 0 ? 'ok' : result.failures.join('; ')
+    })));
+
+    const failed = results.filter(result => result.failures.length > 0).length;
+    if (failed > 0) {
+      logger.error(`${failed} of ${results.length} valuation reference cases failed`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Valuation report failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+main();
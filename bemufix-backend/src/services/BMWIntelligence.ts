@@ -1,31 +1,29 @@
-import { VehicleInfo } from './VehicleLookupService';
-import { RedisService } from './RedisService';
+import { CacheService } from './CacheService';
+import { BMWModelCatalog } from './BMWModelCatalog';
+import { BMWModelMatcher, BodyStyle, ModelMatchResult, VinHints } from './BMWModelMatcher';
+import { VinDecoder } from './VinDecoder';
+import { MaintenancePlanner, MaintenancePlanOptions, PlannableVehicle } from './MaintenancePlanner';
+import type { BMWModel } from '../models/BMWModel';
+import { QuoteEngine } from './QuoteEngine';
+import { ValuationService } from './ValuationService';
+import type { MaintenancePlan } from '../models/Maintenance';
+import type { QuoteContext, RepairQuote } from '../models/Quote';
+import { VehicleIntelligenceSchema } from '../models/Vehicle';
+import type { Vehicle, VehicleIntelligence } from '../models/Vehicle';
+import type { DecodedVin, VinBodyStyle, VinTypeCode } from '../models/Vin';
+import type { IssueSeverity, Valuation, VehicleCondition } from '../models/Valuation';
 import logger from '../utils/logger';
 
-interface BMWModel {
-  series: string;
-  model: string;
-  yearStart: number;
-  yearEnd: number;
-  engineCode: string;
-  generation: string;
-  chassisCode: string;
-  recommendedOil: string;
-  oilCapacity: string;
-  serviceIntervals: string;
-  commonIssues: string[];
-  estimatedValue: {
-    excellent: number;
-    good: number;
-    fair: number;
-    poor: number;
-  };
-  partsPriceLevel: 'Low' | 'Medium' | 'High' | 'Premium';
-  specialNotes?: string;
+type VehicleIdentity = Pick<Vehicle, 'make' | 'model' | 'modelYear' | 'fuelType' | 'engineDisplacement' | 'enginePower' | 'vin' | 'odometer'>;
+
+export interface ValuationOptions {
+  odometer?: number;
+  condition?: VehicleCondition;
+  knownIssues?: IssueSeverity;
 }
 
 export class BMWIntelligence {
-  private static bmwDatabase: Map<string, BMWModel[]> = new Map();
+  private static bmwDatabase: BMWModel[] = [];
   private static initialized = false;
 
   /**
@@ -47,112 +45,99 @@ export class BMWIntelligence {
   /**
    * Get BMW-specific intelligence for a vehicle
    */
-  static async getVehicleIntelligence(vehicleInfo: VehicleInfo | { make: string; model: string; year?: number; modelYear?: number }) {
+  static async getVehicleIntelligence(vehicle: VehicleIdentity): Promise<VehicleIntelligence> {
     if (!this.initialized) {
       await this.initialize();
     }
 
+    const { decodedVin, vinType, hints } = this.decodeVin(vehicle.vin);
+    const year = vehicle.modelYear || hints.modelYear || 0;
+
     try {
-      // Normalisoi year/modelYear
-      const year: number = ('year' in vehicleInfo ? vehicleInfo.year : vehicleInfo.modelYear) || 0;
-      
-      const cacheKey = `bmw:${vehicleInfo.make}:${vehicleInfo.model}:${year}`;
+      // Odometer in 10,000 km steps, the valuation depends on it
+      const cacheKey = `${vehicle.make}:${vehicle.model}:${year}:${vehicle.engineDisplacement || 0}:${vehicle.enginePower || 0}:${decodedVin?.isBmw ? decodedVin.typeCode : ''}:${Math.round((vehicle.odometer || 0) / 10000)}`;
       
-      // Check cache first
-      const cached = await RedisService.get(cacheKey);
-      if (cached) {
-        return JSON.parse(cached);
-      }
+      const intelligence = await CacheService.namespace('bmw').cached(cacheKey, VehicleIntelligenceSchema, async () => {
+        // Find matching BMW model by series, variant, year and engine
+        const match = this.matchModel(vehicle, hints);
 
-      // Find matching BMW model
-      const modelKey = `${vehicleInfo.model}`.toLowerCase().replace(/\s+/g, '');
-      const models = this.bmwDatabase.get(modelKey) || [];
-      
-      const matchingModel = models.find(model => 
-        year && year >= model.yearStart && year <= model.yearEnd
-      );
-
-      if (!matchingModel) {
-        // Generic BMW data for unknown models
-        const vehicleInfoForGeneric: VehicleInfo = {
-          registrationNumber: '',
-          make: vehicleInfo.make,
-          model: vehicleInfo.model,
-          year: year || 0,
-          color: '',
-          engineSize: '',
-          fuelType: '',
-          power: '',
-          co2Emissions: '',
-          euroClass: '',
-          vehicleClass: '',
-          mass: '',
-          seats: 0,
-          nextInspection: '',
-          taxClass: '',
-          dataSource: 'cache',
-          timestamp: new Date().toISOString(),
-          confidence: 0.5
+        if (!match.best) {
+          // Generic BMW data for unknown models
+          return this.getGenericBMWIntelligence(year, vinType);
+        }
+
+        const matchingModel = match.best.model;
+
+        // Market value from comparable sales
+        const currentValue = ValuationService.value({
+          model: matchingModel,
+          modelYear: year || undefined,
+          odometer: vehicle.odometer,
+          fuel: BMWModelMatcher.fuelFromRegister(vehicle.fuelType) || match.best.engine?.fuel,
+          body: this.bodyStyle(matchingModel, match.parsed.body, vinType)
+        });
+
+        return {
+          engineCode: match.best.engine?.code || matchingModel.engineCode,
+          generation: matchingModel.generation,
+          chassisCode: matchingModel.chassisCode,
+          recommendedOil: matchingModel.recommendedOil,
+          oilCapacity: matchingModel.oilCapacity,
+          serviceIntervals: matchingModel.serviceIntervals,
+          commonIssues: matchingModel.commonIssues,
+          estimatedValue: currentValue,
+          partsPriceLevel: matchingModel.partsPriceLevel,
+          specialNotes: matchingModel.specialNotes,
+          match: {
+            confidence: match.best.confidence,
+            alternatives: match.alternatives.map(alternative => ({
+              generation: alternative.model.generation,
+              model: alternative.model.model,
+              engineCode: alternative.engine?.code || alternative.model.engineCode,
+              confidence: alternative.confidence
+            }))
+          }
         };
-        const genericIntelligence = this.getGenericBMWIntelligence(vehicleInfoForGeneric);
-        await RedisService.setWithTTL(cacheKey, JSON.stringify(genericIntelligence), 24 * 60 * 60);
-        return genericIntelligence;
-      }
+      });
 
-      // Calculate estimated current value based on age and condition
-      const currentValue = this.calculateCurrentValue(matchingModel, year || 0);
-
-      const intelligence = {
-        engineCode: matchingModel.engineCode,
-        generation: matchingModel.generation,
-        chassisCode: matchingModel.chassisCode,
-        recommendedOil: matchingModel.recommendedOil,
-        oilCapacity: matchingModel.oilCapacity,
-        serviceIntervals: matchingModel.serviceIntervals,
-        commonIssues: matchingModel.commonIssues,
-        estimatedValue: currentValue,
-        partsPriceLevel: matchingModel.partsPriceLevel,
-        specialNotes: matchingModel.specialNotes
-      };
-
-      // Cache for 24 hours
-      await RedisService.setWithTTL(cacheKey, JSON.stringify(intelligence), 24 * 60 * 60);
-      
-      return intelligence;
+      return intelligence ?? this.getGenericBMWIntelligence(year, vinType);
 
     } catch (error) {
       logger.error('Failed to get BMW intelligence:', error);
-      const year: number = ('year' in vehicleInfo ? vehicleInfo.year : vehicleInfo.modelYear) || 0;
-      const vehicleInfoForGeneric: VehicleInfo = {
-        registrationNumber: '',
-        make: vehicleInfo.make,
-        model: vehicleInfo.model,
-        year: year,
-        color: '',
-        engineSize: '',
-        fuelType: '',
-        power: '',
-        co2Emissions: '',
-        euroClass: '',
-        vehicleClass: '',
-        mass: '',
-        seats: 0,
-        nextInspection: '',
-        taxClass: '',
-        dataSource: 'cache',
-        timestamp: new Date().toISOString(),
-        confidence: 0.5
-      };
-      return this.getGenericBMWIntelligence(vehicleInfoForGeneric);
+      return this.getGenericBMWIntelligence(year, vinType);
     }
   }
 
+  /**
+   * A valid BMW VIN pins down chassis, engine and model year
+   */
+  private static decodeVin(vin: string | undefined): { decodedVin: DecodedVin | null; vinType: VinTypeCode | null; hints: VinHints } {
+    const decodedVin = VinDecoder.tryDecode(vin);
+    const vinType = decodedVin?.isBmw ? decodedVin.type : null;
+    return {
+      decodedVin,
+      vinType,
+      hints: {
+        chassisCode: vinType?.chassisCode,
+        engineCode: vinType?.engineCode,
+        modelYear: decodedVin?.isBmw ? decodedVin.modelYear ?? undefined : undefined
+      }
+    };
+  }
+
+  /**
+   * Score the catalogue against a vehicle's register data and VIN
+   */
+  static matchModel(vehicle: VehicleIdentity, hints: VinHints = {}): ModelMatchResult {
+    return BMWModelMatcher.match(vehicle, this.bmwDatabase, hints);
+  }
+
   /**
    * Get service recommendations based on mileage and last service
    */
-  static getServiceRecommendations(vehicleInfo: VehicleInfo, mileage?: number): string[] {
+  static getServiceRecommendations(vehicle: Pick<Vehicle, 'modelYear' | 'odometer'>, mileage = vehicle.odometer): string[] {
     const recommendations: string[] = [];
-    const age = new Date().getFullYear() - vehicleInfo.year;
+    const age = new Date().getFullYear() - (vehicle.modelYear || 0);
 
     // Age-based recommendations
     if (age > 10) {
@@ -192,205 +177,133 @@ export class BMWIntelligence {
   }
 
   /**
-   * Get estimated repair cost for common BMW issues
+   * Get estimated repair cost for common BMW issues, including VAT
+   */
+  static getRepairCostEstimate(issue: string, context: QuoteContext = {}): { min: number; max: number; description: string } {
+    const job = QuoteEngine.getJob(issue);
+    const range = QuoteEngine.priceRange(issue, context);
+
+    if (!job || !range) {
+      return { min: 200, max: 1000, description: 'General repair estimate' };
+    }
+    return { ...range, description: job.description };
+  }
+
+  /**
+   * Itemised quote priced for the vehicle's model, engine and parts price level
+   */
+  static getRepairQuote(vehicle: VehicleIdentity, jobIds: string[]): RepairQuote {
+    return QuoteEngine.quote(jobIds, this.getQuoteContext(vehicle));
+  }
+
+  /**
+   * Market valuation for a specific car, or null when the model is not in the catalogue
+   */
+  static getValuation(vehicle: VehicleIdentity, options: ValuationOptions = {}): Valuation | null {
+    if (vehicle.make !== 'BMW') return null;
+
+    const { vinType, hints } = this.decodeVin(vehicle.vin);
+    const match = this.matchModel(vehicle, hints);
+    if (!match.best) return null;
+
+    return ValuationService.value({
+      model: match.best.model,
+      modelYear: vehicle.modelYear || hints.modelYear,
+      odometer: options.odometer ?? vehicle.odometer,
+      fuel: BMWModelMatcher.fuelFromRegister(vehicle.fuelType) || match.best.engine?.fuel,
+      body: this.bodyStyle(match.best.model, match.parsed.body, vinType),
+      condition: options.condition,
+      knownIssues: options.knownIssues
+    });
+  }
+
+  /**
+   * Body style from the VIN, the register model string or the series
+   */
+  private static bodyStyle(model: BMWModel, parsed: BodyStyle | undefined, vinType: VinTypeCode | null): VinBodyStyle | undefined {
+    if (vinType) return vinType.body;
+    if (parsed) return parsed;
+    return model.series === 'X' ? 'suv' : undefined;
+  }
+
+  /**
+   * Vehicle facts that change labour hours and parts prices
    */
-  static getRepairCostEstimate(issue: string): { min: number; max: number; description: string } {
-    const repairCosts: Record<string, { min: number; max: number; description: string }> = {
-      'oil_change': { min: 150, max: 300, description: 'Standard oil and filter change with BMW-approved oil' },
-      'brake_pads': { min: 400, max: 800, description: 'Front or rear brake pad replacement' },
-      'brake_discs': { min: 600, max: 1200, description: 'Brake disc replacement (pair)' },
-      'timing_chain': { min: 2000, max: 4500, description: 'Timing chain and guides replacement' },
-      'water_pump': { min: 800, max: 1500, description: 'Water pump replacement' },
-      'thermostat': { min: 300, max: 600, description: 'Thermostat housing replacement' },
-      'spark_plugs': { min: 200, max: 400, description: 'Spark plug replacement (set of 4-8)' },
-      'air_filter': { min: 80, max: 150, description: 'Engine air filter replacement' },
-      'cabin_filter': { min: 60, max: 120, description: 'Cabin/pollen filter replacement' },
-      'battery': { min: 200, max: 500, description: 'BMW battery replacement and coding' },
-      'alternator': { min: 800, max: 1500, description: 'Alternator replacement' },
-      'starter': { min: 600, max: 1200, description: 'Starter motor replacement' },
-      'suspension': { min: 500, max: 1500, description: 'Suspension component replacement (per corner)' },
-      'transmission_service': { min: 400, max: 800, description: 'Automatic transmission service' },
-      'differential_service': { min: 250, max: 450, description: 'Differential oil change' }
+  static getQuoteContext(vehicle: VehicleIdentity): QuoteContext {
+    const label = `${vehicle.make} ${vehicle.model}`;
+    if (vehicle.make !== 'BMW') return { model: label };
+
+    const { vinType, hints } = this.decodeVin(vehicle.vin);
+    const best = this.matchModel(vehicle, hints).best;
+
+    return {
+      generation: best?.model.generation || vinType?.chassisCode,
+      series: best?.model.series,
+      engineCode: best?.engine?.code || vinType?.engineCode,
+      partsPriceLevel: best?.model.partsPriceLevel,
+      model: label
     };
+  }
 
-    return repairCosts[issue] || { min: 200, max: 1000, description: 'General repair estimate' };
+  /**
+   * Known issues of the catalogue models using an engine family ("N47"),
+   * leaving out issues that name another engine
+   */
+  static getEngineIssues(family: string): string[] {
+    const prefix = family.toUpperCase();
+    const issues = this.bmwDatabase
+      .filter(model => [model.engineCode, ...(model.engines || []).map(engine => engine.code)]
+        .some(code => code.split('/').some(part => part.startsWith(prefix))))
+      .flatMap(model => model.commonIssues)
+      .filter(issue => (issue.match(/\b[BMNS]\d{2}\b/g) || []).every(named => named === prefix));
+
+    return [...new Set(issues)];
   }
 
   /**
-   * Load BMW database with model-specific information
+   * Load BMW database from the versioned catalogue files and watch them for changes
    */
   private static async loadBMWDatabase(): Promise<void> {
-    const bmwModels: BMWModel[] = [
-      // 3 Series E46 (1998-2006)
-      {
-        series: '3',
-        model: '318i',
-        yearStart: 1998,
-        yearEnd: 2006,
-        engineCode: 'M43B19',
-        generation: 'E46',
-        chassisCode: 'E46',
-        recommendedOil: 'BMW Longlife-01 5W-30',
-        oilCapacity: '4.25L',
-        serviceIntervals: 'Every 15,000 km or 1 year',
-        commonIssues: [
-          'Cooling system plastic parts failure',
-          'Window regulator failure',
-          'Door handle breaking',
-          'Subframe mounting points corrosion'
-        ],
-        estimatedValue: {
-          excellent: 8000,
-          good: 6000,
-          fair: 4000,
-          poor: 2000
-        },
-        partsPriceLevel: 'Medium'
-      },
-      {
-        series: '3',
-        model: '320i',
-        yearStart: 1998,
-        yearEnd: 2006,
-        engineCode: 'M52B20/M54B22',
-        generation: 'E46',
-        chassisCode: 'E46',
-        recommendedOil: 'BMW Longlife-01 5W-30',
-        oilCapacity: '6.5L',
-        serviceIntervals: 'Every 15,000 km or 1 year',
-        commonIssues: [
-          'VANOS system failure',
-          'Cooling system issues',
-          'Window regulator failure',
-          'Subframe mounting points'
-        ],
-        estimatedValue: {
-          excellent: 12000,
-          good: 9000,
-          fair: 6000,
-          poor: 3000
-        },
-        partsPriceLevel: 'Medium'
-      },
-      // 3 Series E90 (2005-2013)
-      {
-        series: '3',
-        model: '320i',
-        yearStart: 2005,
-        yearEnd: 2013,
-        engineCode: 'N46B20/N43B20',
-        generation: 'E90',
-        chassisCode: 'E90/E91/E92/E93',
-        recommendedOil: 'BMW Longlife-04 5W-30',
-        oilCapacity: '6.5L',
-        serviceIntervals: 'Every 20,000 km or 2 years',
-        commonIssues: [
-          'Timing chain stretch',
-          'High pressure fuel pump failure',
-          'Water pump failure',
-          'Thermostat housing cracking'
-        ],
-        estimatedValue: {
-          excellent: 15000,
-          good: 12000,
-          fair: 8000,
-          poor: 5000
-        },
-        partsPriceLevel: 'High'
-      },
-      // 5 Series E60 (2003-2010)
-      {
-        series: '5',
-        model: '520i',
-        yearStart: 2003,
-        yearEnd: 2010,
-        engineCode: 'M54B22/N43B20',
-        generation: 'E60',
-        chassisCode: 'E60/E61',
-        recommendedOil: 'BMW Longlife-04 5W-30',
-        oilCapacity: '6.5L',
-        serviceIntervals: 'Every 20,000 km or 2 years',
-        commonIssues: [
-          'iDrive system failures',
-          'Air suspension problems',
-          'Electronic parking brake issues',
-          'Timing chain problems'
-        ],
-        estimatedValue: {
-          excellent: 18000,
-          good: 14000,
-          fair: 10000,
-          poor: 6000
-        },
-        partsPriceLevel: 'High'
-      },
-      // X3 E83 (2003-2010)
-      {
-        series: 'X',
-        model: 'X3',
-        yearStart: 2003,
-        yearEnd: 2010,
-        engineCode: 'M54B25/N52B25',
-        generation: 'E83',
-        chassisCode: 'E83',
-        recommendedOil: 'BMW Longlife-04 5W-30',
-        oilCapacity: '6.5L',
-        serviceIntervals: 'Every 20,000 km or 2 years',
-        commonIssues: [
-          'Transfer case failure',
-          'Rear differential problems',
-          'Cooling system issues',
-          'Suspension wear'
-        ],
-        estimatedValue: {
-          excellent: 16000,
-          good: 12000,
-          fair: 8000,
-          poor: 5000
-        },
-        partsPriceLevel: 'High'
-      }
-    ];
+    this.indexModels(BMWModelCatalog.load());
 
-    // Group models by model name for quick lookup
-    for (const model of bmwModels) {
-      const key = model.model.toLowerCase().replace(/\s+/g, '');
-      if (!this.bmwDatabase.has(key)) {
-        this.bmwDatabase.set(key, []);
-      }
-      this.bmwDatabase.get(key)!.push(model);
-    }
+    BMWModelCatalog.onReload(models => {
+      this.indexModels(models);
+      // Cached intelligence may be based on the previous catalogue
+      CacheService.namespace('bmw').invalidate().catch(error => {
+        logger.error('Failed to clear BMW intelligence cache after reload:', error);
+      });
+    });
 
-    logger.info(`Loaded ${bmwModels.length} BMW models into intelligence database`);
+    if (process.env.BMW_CATALOG_WATCH !== 'false') {
+      BMWModelCatalog.watch();
+    }
   }
 
   /**
-   * Calculate current estimated value based on age and market conditions
+   * Replace the in-memory model list
    */
-  private static calculateCurrentValue(model: BMWModel, year: number): string {
-    const age = new Date().getFullYear() - year;
-    const depreciationFactor = Math.max(0.3, 1 - (age * 0.08)); // Minimum 30% of original value
-    
-    const currentValues = {
-      excellent: Math.round(model.estimatedValue.excellent * depreciationFactor),
-      good: Math.round(model.estimatedValue.good * depreciationFactor),
-      fair: Math.round(model.estimatedValue.fair * depreciationFactor),
-      poor: Math.round(model.estimatedValue.poor * depreciationFactor)
-    };
+  private static indexModels(models: BMWModel[]): void {
+    this.bmwDatabase = models;
+    logger.info(`Loaded ${models.length} BMW models into intelligence database`);
+  }
 
-    return `€${currentValues.excellent} (excellent) - €${currentValues.poor} (poor condition)`;
+  /**
+   * List the loaded BMW models
+   */
+  static getLoadedModels(): BMWModel[] {
+    return this.bmwDatabase;
   }
 
   /**
-   * Get generic BMW intelligence for unknown models
+   * Get generic BMW intelligence for unknown models, with VIN type data when known
    */
-  private static getGenericBMWIntelligence(vehicleInfo: VehicleInfo) {
-    const age = new Date().getFullYear() - vehicleInfo.year;
+  private static getGenericBMWIntelligence(year: number, vinType: VinTypeCode | null = null): VehicleIntelligence {
+    const age = new Date().getFullYear() - year;
     
     return {
-      engineCode: 'Unknown - Check VIN decoder',
-      generation: 'Unknown generation',
-      chassisCode: 'Unknown chassis',
+      engineCode: vinType?.engineCode || 'Unknown - Check VIN decoder',
+      generation: vinType?.chassisCode || 'Unknown generation',
+      chassisCode: vinType?.chassisCode || 'Unknown chassis',
       recommendedOil: age > 15 ? 'BMW Longlife-01 5W-30' : 'BMW Longlife-04 5W-30',
       oilCapacity: '4.5-6.5L (model dependent)',
       serviceIntervals: age > 15 ? 'Every 10,000 km or 1 year' : 'Every 20,000 km or 2 years',
@@ -400,48 +313,18 @@ export class BMWIntelligence {
         'Check BMW-specific service bulletins',
         'Monitor for software updates'
       ],
-      estimatedValue: 'Market research required for accurate valuation',
-      partsPriceLevel: 'High' as const
+      estimatedValue: null,
+      partsPriceLevel: 'High'
     };
   }
 
   /**
-   * Get maintenance schedule for BMW vehicle
+   * Get a dated, prioritised maintenance schedule from the model's service items
+   * and the last-done records
    */
-  static getMaintenanceSchedule(vehicleInfo: VehicleInfo, currentMileage: number = 0) {
-    const age = new Date().getFullYear() - vehicleInfo.year;
-    const schedule = [];
-
-    // Basic maintenance intervals
-    const oilChangeInterval = age > 10 ? 10000 : 15000;
-    const nextOilChange = Math.ceil(currentMileage / oilChangeInterval) * oilChangeInterval;
-    
-    schedule.push({
-      service: 'Oil & Filter Change',
-      nextDue: nextOilChange,
-      priority: 'High',
-      estimatedCost: '€150-300'
-    });
-
-    // Age-based scheduling
-    if (currentMileage > 60000) {
-      schedule.push({
-        service: 'Spark Plugs',
-        nextDue: Math.ceil(currentMileage / 60000) * 60000,
-        priority: 'Medium',
-        estimatedCost: '€200-400'
-      });
-    }
-
-    if (currentMileage > 80000) {
-      schedule.push({
-        service: 'Brake Fluid',
-        nextDue: Math.ceil(currentMileage / 40000) * 40000,
-        priority: 'High',
-        estimatedCost: '€80-150'
-      });
-    }
-
-    return schedule;
+  static getMaintenanceSchedule(vehicle: VehicleIdentity & PlannableVehicle, options: MaintenancePlanOptions = {}): MaintenancePlan {
+    const { hints } = this.decodeVin(vehicle.vin);
+    const model = vehicle.make === 'BMW' ? this.matchModel(vehicle, hints).best?.model ?? null : null;
+    return MaintenancePlanner.plan(vehicle, model, options);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { BMWModel, CatalogFile, CatalogFileSchema } from '../models/BMWModel';
+import logger from '../utils/logger';
+
+export interface CatalogIssue {
+  file: string;
+  field: string;
+  message: string;
+}
+
+export interface CatalogFileSummary {
+  file: string;
+  generation: string;
+  chassisCode: string;
+  revision: number;
+  updated: string;
+  models: number;
+}
+
+/**
+ * Thrown when one or more knowledge-base files fail validation
+ */
+export class CatalogValidationError extends Error {
+  constructor(readonly issues: CatalogIssue[]) {
+    super(`Invalid BMW model catalogue:\n${issues.map(issue => `  ${issue.file}: ${issue.field} - ${issue.message}`).join('\n')}`);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+type ReloadListener = (models: BMWModel[]) => void;
+
+/**
+ * Loads the BMW model knowledge base from versioned JSON files,
+ * one per chassis generation, and hot-reloads them when they change on disk.
+ */
+export class BMWModelCatalog {
+  private static models: BMWModel[] = [];
+  private static files: CatalogFileSummary[] = [];
+  private static watcher: fs.FSWatcher | null = null;
+  private static reloadTimer: NodeJS.Timeout | null = null;
+  private static listeners: ReloadListener[] = [];
+  private static readonly RELOAD_DEBOUNCE_MS = 250;
+
+  static getDirectory(): string {
+    return process.env.BMW_CATALOG_DIR || path.join(__dirname, '../../knowledge/bmw-models');
+  }
+
+  /**
+   * Read and validate every catalogue file. Throws CatalogValidationError
+   * listing each failing file and field; the current catalogue is kept on failure.
+   */
+  static load(): BMWModel[] {
+    const directory = this.getDirectory();
+    const fileNames = fs.readdirSync(directory).filter(name => name.endsWith('.json')).sort();
+
+    const issues: CatalogIssue[] = [];
+    const models: BMWModel[] = [];
+    const files: CatalogFileSummary[] = [];
+    const generations = new Map<string, string>();
+
+    for (const fileName of fileNames) {
+      const parsed = this.readFile(path.join(directory, fileName), fileName, issues);
+      if (!parsed) continue;
+
+      const previous = generations.get(parsed.generation);
+      if (previous) {
+        issues.push({ file: fileName, field: 'generation', message: `${parsed.generation} is already defined in ${previous}` });
+        continue;
+      }
+      generations.set(parsed.generation, fileName);
+
+      for (const model of parsed.models) {
+        models.push({
+          ...model,
+          generation: parsed.generation,
+          chassisCode: model.chassisCode || parsed.chassisCode,
+          source: { file: fileName, revision: parsed.revision }
+        });
+      }
+
+      files.push({
+        file: fileName,
+        generation: parsed.generation,
+        chassisCode: parsed.chassisCode,
+        revision: parsed.revision,
+        updated: parsed.updated,
+        models: parsed.models.length
+      });
+    }
+
+    if (issues.length > 0) {
+      throw new CatalogValidationError(issues);
+    }
+
+    this.models = models;
+    this.files = files;
+    logger.info(`Loaded ${models.length} BMW models from ${files.length} catalogue files in ${directory}`);
+    return models;
+  }
+
+  static getModels(): BMWModel[] {
+    return this.models;
+  }
+
+  static getFiles(): CatalogFileSummary[] {
+    return this.files;
+  }
+
+  /**
+   * Register a callback for successful hot reloads
+   */
+  static onReload(listener: ReloadListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Watch the catalogue directory and reload on change
+   */
+  static watch(): void {
+    if (this.watcher) return;
+
+    try {
+      this.watcher = fs.watch(this.getDirectory(), (_event, fileName) => {
+        if (fileName && !fileName.toString().endsWith('.json')) return;
+
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.reload(), this.RELOAD_DEBOUNCE_MS);
+      });
+      this.watcher.unref();
+      logger.info(`Watching BMW model catalogue for changes: ${this.getDirectory()}`);
+    } catch (error) {
+      logger.error('Failed to watch BMW model catalogue:', error);
+    }
+  }
+
+  static stopWatching(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Reload from disk, keeping the previous catalogue if validation fails
+   */
+  static reload(): boolean {
+    try {
+      const models = this.load();
+      this.listeners.forEach(listener => listener(models));
+      return true;
+    } catch (error) {
+      logger.error(`BMW model catalogue reload rejected, keeping previous version: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private static readFile(filePath: string, fileName: string, issues: CatalogIssue[]): CatalogFile | null {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      issues.push({ file: fileName, field: '(file)', message: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+
+    const result = CatalogFileSchema.safeParse(raw);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({ file: fileName, field: this.formatPath(issue.path), message: issue.message });
+      }
+      return null;
+    }
+
+    return result.data;
+  }
+
+  private static formatPath(fieldPath: (string | number)[]): string {
+    if (fieldPath.length === 0) return '(root)';
+    return fieldPath
+      .map((segment, index) => typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`)
+      .join('');
+  }
+}
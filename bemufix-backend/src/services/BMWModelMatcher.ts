@@ -0,0 +1,288 @@
+import type { BMWModel, CatalogEngine, FuelKind } from '../models/BMWModel';
+import type { Vehicle } from '../models/Vehicle';
+
+export type Drivetrain = 'rwd' | 'xdrive';
+export type BodyStyle = 'sedan' | 'touring' | 'coupe' | 'convertible' | 'gran-turismo' | 'gran-coupe' | 'compact';
+
+/**
+ * A register model string such as "3-sarja 320d xDrive Touring" broken into parts
+ */
+export interface ParsedModelName {
+  raw: string;
+  series?: string;
+  variant?: string;
+  fuel?: FuelKind;
+  drivetrain?: Drivetrain;
+  body?: BodyStyle;
+}
+
+export interface ModelCandidate {
+  model: BMWModel;
+  engine?: CatalogEngine;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface ModelMatchResult {
+  parsed: ParsedModelName;
+  best: ModelCandidate | null;
+  alternatives: ModelCandidate[];
+}
+
+export type MatchableVehicle = Pick<Vehicle, 'model' | 'modelYear' | 'fuelType' | 'engineDisplacement' | 'enginePower'>;
+
+/**
+ * Facts decoded from the VIN, trusted over the register model string
+ */
+export interface VinHints {
+  chassisCode?: string;
+  engineCode?: string;
+  modelYear?: number;
+}
+
+const FUEL_SUFFIX: Record<string, FuelKind> = { i: 'petrol', d: 'diesel', e: 'hybrid' };
+
+const BODY_PATTERNS: [RegExp, BodyStyle][] = [
+  [/\bgran\s?coupe\b/, 'gran-coupe'],
+  [/\bgran\s?turismo\b|\bgt\b/, 'gran-turismo'],
+  [/\btouring\b|\bfarmari\b|\bkombi\b/, 'touring'],
+  [/\bcabrio(let)?\b|\bconvertible\b|\bavo\b/, 'convertible'],
+  [/\bcoupe\b|\b2d\b/, 'coupe'],
+  [/\bcompact\b/, 'compact'],
+  [/\bsedan\b|\blimousine\b|\b4d\b/, 'sedan']
+];
+
+// Score weights, summing to 1.0
+const WEIGHTS = { name: 0.4, year: 0.25, displacement: 0.15, power: 0.15, fuel: 0.05 };
+
+/**
+ * Matches register model strings against the BMW model catalogue
+ */
+export class BMWModelMatcher {
+  static readonly MIN_CONFIDENCE = 0.55;
+  private static readonly MAX_ALTERNATIVES = 3;
+  private static readonly MIN_ALTERNATIVE_CONFIDENCE = 0.3;
+
+  /**
+   * Parse a Finnish register model string into series, variant, fuel, drivetrain and body
+   */
+  static parse(raw: string): ParsedModelName {
+    const text = raw
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/\bbmw\b/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const parsed: ParsedModelName = { raw };
+
+    if (/x-?drive|\b4x4\b|\b\d{3}x[id]\b/.test(text)) {
+      parsed.drivetrain = 'xdrive';
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if ((match = text.match(/\bm(\d)\b/))) {
+      // M3, M5 ...
+      parsed.series = `M${match[1]}`;
+      parsed.variant = `M${match[1]}`;
+      parsed.fuel = 'petrol';
+    } else if ((match = text.match(/\bm(\d)(\d{2})([ide])\b/))) {
+      // M340i, M550d ...
+      parsed.series = match[1];
+      parsed.variant = `M${match[1]}${match[2]}${match[3]}`;
+      parsed.fuel = FUEL_SUFFIX[match[3]];
+    } else if ((match = text.match(/\bx(\d)\b/))) {
+      // X3 xDrive20d, X5 3.0d ...
+      parsed.series = `X${match[1]}`;
+      const engine = text.match(/x-?drive\s?(\d{2})([ide])\b/)
+        || text.match(/\b(\d{2})([ide])\b/)
+        || text.match(/\b(\d)\.(\d)s?([id])\b/);
+      if (engine) {
+        const suffix = engine.length === 4 ? engine[3] : engine[2];
+        const size = engine.length === 4 ? `${engine[1]}${engine[2]}` : engine[1];
+        parsed.variant = `X${match[1]} ${size}${suffix}`;
+        parsed.fuel = FUEL_SUFFIX[suffix];
+      } else {
+        parsed.variant = `X${match[1]}`;
+      }
+      parsed.drivetrain = parsed.drivetrain || 'xdrive';
+    } else if ((match = text.match(/\bi(\d|x)\b/))) {
+      parsed.series = `i${match[1].toUpperCase()}`;
+      parsed.variant = parsed.series;
+      parsed.fuel = 'electric';
+    } else if ((match = text.match(/\bz(\d)\b/))) {
+      parsed.series = `Z${match[1]}`;
+      parsed.variant = parsed.series;
+    } else if ((match = text.match(/\b(\d)(\d{2})x?([ide])\b/))) {
+      // 320d, 330xd, 530e ...
+      parsed.series = match[1];
+      parsed.variant = `${match[1]}${match[2]}${match[3]}`;
+      parsed.fuel = FUEL_SUFFIX[match[3]];
+    }
+
+    if (!parsed.series && (match = text.match(/\b(\d)\s?-?\s?(sarja|series|er)\b/))) {
+      parsed.series = match[1];
+    }
+
+    if (/\bdiesel\b/.test(text)) parsed.fuel = 'diesel';
+    else if (/hybrid|iperformance|plug-?in/.test(text)) parsed.fuel = 'hybrid';
+    else if (!parsed.fuel && /\bbensiini\b|\bpetrol\b/.test(text)) parsed.fuel = 'petrol';
+    else if (!parsed.fuel && /\bsahko\b|\belectric\b/.test(text)) parsed.fuel = 'electric';
+
+    parsed.body = BODY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+
+    return parsed;
+  }
+
+  /**
+   * Map a Traficom fuel label (Bensiini, Diesel, Bensiini/Sähkö) to a fuel kind
+   */
+  static fuelFromRegister(fuelType: string | undefined): FuelKind | undefined {
+    if (!fuelType) return undefined;
+    const text = fuelType.toLowerCase();
+    if (text.includes('/') && text.includes('sähkö')) return 'hybrid';
+    if (text.includes('sähkö') || text.includes('electric')) return 'electric';
+    if (text.includes('diesel')) return 'diesel';
+    if (text.includes('bensiini') || text.includes('petrol')) return 'petrol';
+    return undefined;
+  }
+
+  /**
+   * Score every catalogue model against the vehicle and return the best match
+   * (if confident enough) together with the runner-up alternatives
+   */
+  static match(vehicle: MatchableVehicle, models: BMWModel[], hints: VinHints = {}): ModelMatchResult {
+    const parsed = this.parse(vehicle.model);
+    const fuel = this.fuelFromRegister(vehicle.fuelType) || parsed.fuel;
+    const modelYear = vehicle.modelYear || hints.modelYear;
+
+    const candidates = models
+      .map(model => this.score(parsed, fuel, { ...vehicle, modelYear }, model, hints))
+      .filter((candidate): candidate is ModelCandidate => candidate !== null)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const [first, ...rest] = candidates;
+    const best = first && first.confidence >= this.MIN_CONFIDENCE ? first : null;
+    const alternatives = (best ? rest : candidates)
+      .filter(candidate => candidate.confidence >= this.MIN_ALTERNATIVE_CONFIDENCE)
+      .slice(0, this.MAX_ALTERNATIVES);
+
+    return { parsed, best, alternatives };
+  }
+
+  private static score(parsed: ParsedModelName, fuel: FuelKind | undefined, vehicle: MatchableVehicle, model: BMWModel, hints: VinHints): ModelCandidate | null {
+    const catalogName = this.parse(model.model);
+    const catalogSeries = catalogName.series || model.series;
+
+    // Different series can never be the same car
+    if (parsed.series && catalogSeries && parsed.series !== catalogSeries) {
+      return null;
+    }
+
+    const reasons: string[] = [];
+    let score = 0;
+    let multiplier = 1;
+
+    // Name
+    if (parsed.variant && catalogName.variant) {
+      if (parsed.variant === catalogName.variant) {
+        score += WEIGHTS.name;
+        reasons.push(`variant ${parsed.variant}`);
+      } else if (catalogName.variant === catalogSeries || parsed.variant === parsed.series) {
+        // One side only names the series (e.g. "X3")
+        score += WEIGHTS.name * 0.5;
+        reasons.push(`series ${catalogSeries}`);
+      }
+    } else if (parsed.series) {
+      score += WEIGHTS.name * 0.5;
+      reasons.push(`series ${parsed.series}`);
+    } else {
+      score += WEIGHTS.name * 0.5;
+    }
+
+    // Model year
+    if (vehicle.modelYear) {
+      const outside = Math.max(model.yearStart - vehicle.modelYear, vehicle.modelYear - model.yearEnd, 0);
+      if (outside === 0) {
+        score += WEIGHTS.year;
+        reasons.push(`year ${vehicle.modelYear} in ${model.yearStart}-${model.yearEnd}`);
+      } else if (outside === 1) {
+        score += WEIGHTS.year * 0.5;
+      } else {
+        multiplier *= 0.7;
+      }
+    } else {
+      score += WEIGHTS.year * 0.5;
+    }
+
+    // Chassis from the VIN
+    if (hints.chassisCode) {
+      if (model.generation === hints.chassisCode || model.chassisCode.split('/').includes(hints.chassisCode)) {
+        reasons.push(`VIN chassis ${hints.chassisCode}`);
+      } else {
+        multiplier *= 0.5;
+      }
+    }
+
+    // Engine: the VIN engine if the model offers it, else the one closest to the register data
+    const vinEngine = model.engines?.find(e => e.code === hints.engineCode);
+    const engine = vinEngine || this.closestEngine(vehicle, model.engines);
+    if (vinEngine) {
+      reasons.push(`VIN engine ${vinEngine.code}`);
+    }
+    // A VIN-confirmed engine counts as a match where the register has no figure
+    score += (vinEngine && !vehicle.engineDisplacement ? 1 : this.measure(vehicle.engineDisplacement, engine?.displacementCc, [30, 100, 250])) * WEIGHTS.displacement;
+    score += (vinEngine && !vehicle.enginePower ? 1 : this.measure(vehicle.enginePower, engine?.powerKw, [3, 10, 25])) * WEIGHTS.power;
+    if (engine && vehicle.engineDisplacement && Math.abs(vehicle.engineDisplacement - engine.displacementCc) <= 30) {
+      reasons.push(`${engine.displacementCc}cc`);
+    }
+    if (engine && vehicle.enginePower && Math.abs(vehicle.enginePower - engine.powerKw) <= 3) {
+      reasons.push(`${engine.powerKw} kW`);
+    }
+
+    // Fuel
+    const catalogFuels = model.engines ? model.engines.map(e => e.fuel) : catalogName.fuel ? [catalogName.fuel] : [];
+    if (fuel && catalogFuels.length > 0) {
+      if (catalogFuels.includes(fuel)) {
+        score += WEIGHTS.fuel;
+        reasons.push(fuel);
+      } else {
+        multiplier *= 0.6;
+      }
+    } else {
+      score += WEIGHTS.fuel * 0.5;
+    }
+
+    return {
+      model,
+      engine,
+      confidence: Math.round(score * multiplier * 100) / 100,
+      reasons
+    };
+  }
+
+  private static closestEngine(vehicle: MatchableVehicle, engines: CatalogEngine[] | undefined): CatalogEngine | undefined {
+    if (!engines || engines.length === 0) return undefined;
+
+    const distance = (engine: CatalogEngine) =>
+      (vehicle.engineDisplacement ? Math.abs(vehicle.engineDisplacement - engine.displacementCc) / 100 : 0) +
+      (vehicle.enginePower ? Math.abs(vehicle.enginePower - engine.powerKw) / 10 : 0);
+
+    return engines.reduce((closest, engine) => distance(engine) < distance(closest) ? engine : closest);
+  }
+
+  /**
+   * 1 for a close match, partial credit for near values, 0.5 when either side is unknown
+   */
+  private static measure(actual: number | undefined, expected: number | undefined, tolerances: [number, number, number]): number {
+    if (!actual || !expected) return 0.5;
+
+    const diff = Math.abs(actual - expected);
+    if (diff <= tolerances[0]) return 1;
+    if (diff <= tolerances[1]) return 0.6;
+    if (diff <= tolerances[2]) return 0.2;
+    return 0;
+  }
+}
@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BookingFile,
+  BookingFileSchema,
+  BookingResource,
+  Customer,
+  DayAvailability,
+  Reservation,
+  ReservationSource,
+  ReservationStatus,
+  WorkEstimate,
+  WorkRequest
+} from '../models/Booking';
+import type { ServiceItemId } from '../models/BMWModel';
+import type { Vehicle } from '../models/Vehicle';
+import { BMWIntelligence } from './BMWIntelligence';
+import { BookingStore } from './BookingStore';
+import { BusinessInfo, WEEKDAYS } from './BusinessInfo';
+import { MaintenancePlanner } from './MaintenancePlanner';
+import { QuoteEngine } from './QuoteEngine';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+import { zonedDate, zonedTime } from '../utils/timeZone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Thrown when the requested start time is closed, too soon or fully booked
+ */
+export class SlotUnavailableError extends Error {
+  constructor(readonly date: string, readonly time: string) {
+    super(`Slot not available: ${date} ${time}`);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a hold expired and its slot was taken by someone else
+ */
+export class HoldExpiredError extends Error {
+  constructor(readonly reservationId: string) {
+    super(`Hold expired: ${reservationId}`);
+    this.name = 'HoldExpiredError';
+  }
+}
+
+/**
+ * Thrown for an unknown reservation id or cancellation token
+ */
+export class ReservationNotFoundError extends Error {
+  constructor() {
+    super('Reservation not found');
+    this.name = 'ReservationNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a reservation cannot change any more: confirming a confirmed or
+ * cancelled one, or cancelling online too close to the start
+ */
+export class ReservationStateError extends Error {
+  constructor(readonly status: ReservationStatus, message: string) {
+    super(message);
+    this.name = 'ReservationStateError';
+  }
+}
+
+/**
+ * Workshop booking: durations from the work to be done, free start times from
+ * the opening hours and the lifts and technicians already taken, and
+ * reservations held while the customer fills in their details, then confirmed
+ * with a cancellation token.
+ */
+export class BookingService {
+  private static config: BookingFile | null = null;
+
+  static getFile(): string {
+    return process.env.BOOKING_FILE || path.join(__dirname, '../../knowledge/booking/booking.json');
+  }
+
+  static get(): BookingFile {
+    if (this.config) return this.config;
+
+    const file = this.getFile();
+    const config = BookingFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    this.validateReferences(config);
+    this.config = config;
+    logger.info(`Loaded booking rules revision ${config.revision} (${config.resources.length} resources) from ${file}`);
+    return config;
+  }
+
+  /**
+   * Read the booking rules again, keeping the loaded rules if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.config, config => { this.config = config; }, () => this.get());
+  }
+
+  /**
+   * Workshop time for the requested jobs and maintenance items, using the model's
+   * labour hours. With neither given, the car's due maintenance items are booked.
+   */
+  static estimateWork(request: WorkRequest, vehicle?: Vehicle): WorkEstimate {
+    const config = this.get();
+    const context = vehicle ? BMWIntelligence.getQuoteContext(vehicle) : {};
+    let serviceItems: ServiceItemId[] = request.serviceItems || [];
+
+    if (vehicle && !request.jobs?.length && serviceItems.length === 0) {
+      serviceItems = BMWIntelligence.getMaintenanceSchedule(vehicle).entries
+        .filter(entry => entry.status !== 'ok')
+        .map(entry => entry.item);
+    }
+
+    const jobs = [...new Set(request.jobs || [])];
+    const fixed: WorkEstimate['lines'] = [];
+    for (const id of new Set(serviceItems)) {
+      const work = config.serviceItems[id];
+      if (work && 'job' in work) {
+        if (!jobs.includes(work.job)) jobs.push(work.job);
+      } else {
+        const item = MaintenancePlanner.getServiceItems(null).find(candidate => candidate.id === id);
+        fixed.push({ id, name: item?.name || id, minutes: work?.minutes ?? config.defaultMinutes });
+      }
+    }
+
+    const quote = jobs.length > 0 ? QuoteEngine.quote(jobs, context) : null;
+    const lines = [
+      ...(quote?.jobs || []).map(job => ({
+        id: job.id,
+        name: job.name,
+        minutes: Math.round(quote?.lines
+          .filter(line => line.job === job.id && line.type === 'labour')
+          .reduce((sum, line) => sum + line.quantity * 60, 0) ?? 0)
+      })),
+      ...fixed
+    ];
+
+    const total = lines.reduce((sum, line) => sum + line.minutes, 0) || config.defaultMinutes;
+    return {
+      minutes: Math.max(config.slotMinutes, Math.ceil(total / config.slotMinutes) * config.slotMinutes),
+      lines,
+      jobs,
+      serviceItems: [...new Set(serviceItems)],
+      vehicle: vehicle ? `${vehicle.make} ${vehicle.model}` : null
+    };
+  }
+
+  /**
+   * Free start times for work of the given length, day by day from `from`
+   */
+  static getAvailability(from: string, days: number, minutes: number, now: Date = new Date()): DayAvailability[] {
+    const config = this.get();
+    const last = this.addDays(this.startOfDay(now), config.horizonDays);
+    const result: DayAvailability[] = [];
+
+    for (let i = 0; i < days; i++) {
+      const day = this.addDays(this.parseDate(from), i);
+      if (day > last) break;
+
+      const date = this.formatDate(day);
+      const hours = this.getHours(date);
+      if (!hours) {
+        result.push({ date, open: null, close: null, slots: [] });
+        continue;
+      }
+
+      const active = BookingStore.findActive(date, now);
+      const length = Math.min(minutes, hours.close - hours.open);
+      const slots: string[] = [];
+      for (let start = hours.open; start + length <= hours.close; start += config.slotMinutes) {
+        if (this.isTooSoon(date, start, now)) continue;
+        if (this.pickResources(date, start, start + length, active)) slots.push(this.formatTime(start));
+      }
+      result.push({ date, open: this.formatTime(hours.open), close: this.formatTime(hours.close), slots });
+    }
+
+    return result;
+  }
+
+  /**
+   * Reserve a lift and a technician for the work while the customer confirms
+   */
+  static hold(
+    input: { date: string; time: string; work: WorkEstimate; registrationNumber?: string; notes?: string; source: ReservationSource },
+    now: Date = new Date()
+  ): Reservation {
+    const config = this.get();
+    const { date, time, work } = input;
+    const hours = this.getHours(date);
+    const start = this.toMinutes(time);
+
+    const last = this.addDays(this.startOfDay(now), config.horizonDays);
+    if (!hours || this.parseDate(date) > last || this.isTooSoon(date, start, now)
+      || start < hours.open || (start - hours.open) % config.slotMinutes !== 0) {
+      throw new SlotUnavailableError(date, time);
+    }
+    const end = start + Math.min(work.minutes, hours.close - hours.open);
+    if (end > hours.close) throw new SlotUnavailableError(date, time);
+
+    return BookingStore.transaction(() => {
+      const resources = this.pickResources(date, start, end, BookingStore.findActive(date, now));
+      if (!resources) throw new SlotUnavailableError(date, time);
+
+      const reservation: Reservation = {
+        id: uuidv4(),
+        status: 'held',
+        source: input.source,
+        date,
+        start: this.formatTime(start),
+        end: this.formatTime(end),
+        minutes: end - start,
+        liftId: resources.lift.id,
+        technicianId: resources.technician.id,
+        jobs: work.jobs,
+        serviceItems: work.serviceItems,
+        ...(input.registrationNumber ? { registrationNumber: input.registrationNumber } : {}),
+        ...(input.notes ? { notes: input.notes } : {}),
+        holdExpiresAt: new Date(now.getTime() + config.holdMinutes * 60 * 1000).toISOString(),
+        createdAt: now.toISOString()
+      };
+      BookingStore.save(reservation);
+      return reservation;
+    });
+  }
+
+  /**
+   * Confirm a held reservation. An expired hold is still confirmed when its
+   * resources are free. The cancellation token is only returned here; the
+   * store keeps its hash.
+   */
+  static confirm(id: string, customer: Customer, now: Date = new Date()): { reservation: Reservation; cancelToken: string } {
+    return BookingStore.transaction(() => {
+      const held = BookingStore.findById(id);
+      if (!held) throw new ReservationNotFoundError();
+      if (held.status !== 'held') {
+        throw new ReservationStateError(held.status, `Reservation is already ${held.status}`);
+      }
+
+      const expired = !held.holdExpiresAt || held.holdExpiresAt <= now.toISOString();
+      if (expired) {
+        const others = BookingStore.findActive(held.date, now).filter(reservation => reservation.id !== id);
+        const taken = (resourceId: string) => others.some(reservation =>
+          (reservation.liftId === resourceId || reservation.technicianId === resourceId)
+          && this.overlaps(reservation, this.toMinutes(held.start), this.toMinutes(held.end)));
+        if (taken(held.liftId) || taken(held.technicianId)) throw new HoldExpiredError(id);
+      }
+
+      const cancelToken = crypto.randomBytes(24).toString('base64url');
+      const reservation: Reservation = { ...held, status: 'confirmed', customer, confirmedAt: now.toISOString() };
+      delete reservation.holdExpiresAt;
+      BookingStore.save(reservation, this.hashToken(cancelToken));
+      logger.info(`Reservation confirmed: ${reservation.id} ${reservation.date} ${reservation.start}-${reservation.end}, lift=${reservation.liftId}, technician=${reservation.technicianId}`);
+      return { reservation, cancelToken };
+    });
+  }
+
+  /**
+   * Reservation behind a cancellation token
+   */
+  static findByToken(token: string): Reservation | null {
+    return BookingStore.findByTokenHash(this.hashToken(token));
+  }
+
+  /**
+   * Cancel with the token; cancelling twice returns the cancelled reservation
+   */
+  static cancel(token: string, now: Date = new Date()): Reservation {
+    const config = this.get();
+    const tokenHash = this.hashToken(token);
+
+    return BookingStore.transaction(() => {
+      const reservation = BookingStore.findByTokenHash(tokenHash);
+      if (!reservation) throw new ReservationNotFoundError();
+      if (reservation.status === 'cancelled') return reservation;
+
+      if (this.startsAt(reservation).getTime() - now.getTime() < config.cancelNoticeHours * HOUR_MS) {
+        throw new ReservationStateError(reservation.status, `Online cancellation closes ${config.cancelNoticeHours} h before the start`);
+      }
+
+      return this.markCancelled(reservation, now);
+    });
+  }
+
+  /**
+   * Confirmed reservations and open holds of a day for the workshop staff
+   */
+  static getSchedule(date: string, now: Date = new Date()): Reservation[] {
+    return BookingStore.findActive(date, now);
+  }
+
+  /**
+   * Cancel by staff, e.g. after a phone call; the online notice period does not apply
+   */
+  static cancelById(id: string, now: Date = new Date()): Reservation {
+    return BookingStore.transaction(() => {
+      const reservation = BookingStore.findById(id);
+      if (!reservation) throw new ReservationNotFoundError();
+      if (reservation.status === 'cancelled') return reservation;
+
+      return this.markCancelled(reservation, now);
+    });
+  }
+
+  /**
+   * Start of a reservation as a point in time
+   */
+  static startsAt(reservation: Reservation): Date {
+    return this.toDate(reservation.date, this.toMinutes(reservation.start));
+  }
+
+  /**
+   * Customer-facing cancellation link, or null when SITE_URL is not set
+   */
+  static getCancelUrl(token: string): string | null {
+    const site = process.env.SITE_URL?.replace(/\/+$/, '');
+    return site ? `${site}/ajanvaraus/peru/${encodeURIComponent(token)}` : null;
+  }
+
+  /**
+   * Save a reservation as cancelled at `now`
+   */
+  private static markCancelled(reservation: Reservation, now: Date): Reservation {
+    const cancelled: Reservation = { ...reservation, status: 'cancelled', cancelledAt: now.toISOString() };
+    BookingStore.save(cancelled);
+    logger.info(`Reservation cancelled: ${cancelled.id} ${cancelled.date} ${cancelled.start}`);
+    return cancelled;
+  }
+
+  /**
+   * Opening and closing minute of a date, null when the workshop is closed
+   */
+  private static getHours(date: string): { open: number; close: number } | null {
+    if (this.get().closedDates.includes(date)) return null;
+    const hours = BusinessInfo.get().openingHours[this.weekday(date)];
+    return hours ? { open: this.toMinutes(hours.open), close: this.toMinutes(hours.close) } : null;
+  }
+
+  /**
+   * A free lift and a technician working that day, or null when either is taken
+   */
+  private static pickResources(date: string, start: number, end: number, active: Reservation[]): { lift: BookingResource; technician: BookingResource } | null {
+    const weekday = this.weekday(date);
+    const free = (resource: BookingResource) =>
+      (!resource.days || resource.days.includes(weekday))
+      && !active.some(reservation =>
+        (reservation.liftId === resource.id || reservation.technicianId === resource.id) && this.overlaps(reservation, start, end));
+
+    const { resources } = this.get();
+    const lift = resources.find(resource => resource.type === 'lift' && free(resource));
+    const technician = resources.find(resource => resource.type === 'technician' && free(resource));
+    return lift && technician ? { lift, technician } : null;
+  }
+
+  private static overlaps(reservation: Reservation, start: number, end: number): boolean {
+    return this.toMinutes(reservation.start) < end && start < this.toMinutes(reservation.end);
+  }
+
+  private static isTooSoon(date: string, start: number, now: Date): boolean {
+    return this.toDate(date, start).getTime() < now.getTime() + this.get().minNoticeHours * HOUR_MS;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static weekday(date: string) {
+    return WEEKDAYS[(this.parseDate(date).getUTCDay() + 6) % 7];
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private static formatTime(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Calendar day as UTC midnight, for day arithmetic independent of the server time zone
+   */
+  private static parseDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * Point in time of a workshop clock time; opening hours are in the workshop time zone
+   */
+  private static toDate(date: string, minutes: number): Date {
+    return zonedTime(date, minutes);
+  }
+
+  /**
+   * The workshop's current day
+   */
+  private static startOfDay(date: Date): Date {
+    return this.parseDate(zonedDate(date));
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static validateReferences(config: BookingFile): void {
+    const problems: string[] = [];
+
+    for (const type of ['lift', 'technician'] as const) {
+      if (!config.resources.some(resource => resource.type === type)) problems.push(`no ${type} resources`);
+    }
+    const ids = config.resources.map(resource => resource.id);
+    for (const id of new Set(ids.filter((id, index) => ids.indexOf(id) !== index))) {
+      problems.push(`duplicate resource ${id}`);
+    }
+    for (const [item, work] of Object.entries(config.serviceItems)) {
+      if ('job' in work && !QuoteEngine.getJob(work.job)) problems.push(`service item ${item}: unknown job ${work.job}`);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid booking rules: ${problems.join('; ')}`);
+    }
+  }
+}
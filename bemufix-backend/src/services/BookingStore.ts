@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Reservation } from '../models/Booking';
+import logger from '../utils/logger';
+
+interface ReservationRow {
+  data: string;
+}
+
+/**
+ * Local SQLite store for workshop reservations. The start and end minutes are
+ * kept in columns so overlapping reservations can be found per day.
+ */
+export class BookingStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.BOOKING_STORE_FILE || path.join(process.cwd(), 'data', 'bookings.sqlite');
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reservations (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        date TEXT NOT NULL,
+        start_minute INTEGER NOT NULL,
+        end_minute INTEGER NOT NULL,
+        hold_expires_at TEXT,
+        cancel_token_hash TEXT UNIQUE,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_reservations_date ON reservations (date, status);
+    `);
+
+    this.db = db;
+    logger.info(`Booking store opened: ${filePath}`);
+    return db;
+  }
+
+  /**
+   * Run a read-check-write sequence as one write transaction, so two
+   * requests cannot take the same lift or technician
+   */
+  static transaction<T>(fn: () => T): T {
+    return this.open().transaction(fn).immediate();
+  }
+
+  /**
+   * Confirmed reservations and unexpired holds of a day
+   */
+  static findActive(date: string, now: Date): Reservation[] {
+    const rows = this.open()
+      .prepare(`
+        SELECT data FROM reservations
+        WHERE date = ? AND (status = 'confirmed' OR (status = 'held' AND hold_expires_at > ?))
+        ORDER BY start_minute
+      `)
+      .all(date, now.toISOString()) as ReservationRow[];
+    return rows.map(row => JSON.parse(row.data) as Reservation);
+  }
+
+  /**
+   * Confirmed reservations between two dates, inclusive
+   */
+  static findConfirmed(from: string, to: string): Reservation[] {
+    const rows = this.open()
+      .prepare(`
+        SELECT data FROM reservations
+        WHERE date BETWEEN ? AND ? AND status = 'confirmed'
+        ORDER BY date, start_minute
+      `)
+      .all(from, to) as ReservationRow[];
+    return rows.map(row => JSON.parse(row.data) as Reservation);
+  }
+
+  static findById(id: string): Reservation | null {
+    const row = this.open()
+      .prepare('SELECT data FROM reservations WHERE id = ?')
+      .get(id) as ReservationRow | undefined;
+    return row ? JSON.parse(row.data) as Reservation : null;
+  }
+
+  static findByTokenHash(tokenHash: string): Reservation | null {
+    const row = this.open()
+      .prepare('SELECT data FROM reservations WHERE cancel_token_hash = ?')
+      .get(tokenHash) as ReservationRow | undefined;
+    return row ? JSON.parse(row.data) as Reservation : null;
+  }
+
+  /**
+   * Insert or update a reservation; the cancellation token hash is kept unless a new one is given
+   */
+  static save(reservation: Reservation, tokenHash?: string): void {
+    this.open().prepare(`
+      INSERT INTO reservations (id, status, date, start_minute, end_minute, hold_expires_at, cancel_token_hash, data, updated_at)
+      VALUES (@id, @status, @date, @startMinute, @endMinute, @holdExpiresAt, @tokenHash, @data, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        date = excluded.date,
+        start_minute = excluded.start_minute,
+        end_minute = excluded.end_minute,
+        hold_expires_at = excluded.hold_expires_at,
+        cancel_token_hash = COALESCE(excluded.cancel_token_hash, reservations.cancel_token_hash),
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: reservation.id,
+      status: reservation.status,
+      date: reservation.date,
+      startMinute: this.toMinutes(reservation.start),
+      endMinute: this.toMinutes(reservation.end),
+      holdExpiresAt: reservation.holdExpiresAt || null,
+      tokenHash: tokenHash || null,
+      data: JSON.stringify(reservation),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
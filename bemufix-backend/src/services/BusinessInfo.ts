@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+const TimeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'expected HH:MM');
+
+const DayHoursSchema = z.object({ open: TimeSchema, close: TimeSchema }).strict().nullable();
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+const BusinessSchema = z.object({
+  name: z.string().min(1),
+  phone: z.string().min(1),
+  email: z.string().email(),
+  address: z.object({
+    street: z.string().min(1),
+    postalCode: z.string().min(1),
+    city: z.string().min(1),
+    mapsUrl: z.string().url()
+  }).strict(),
+  openingHours: z.object(Object.fromEntries(WEEKDAYS.map(day => [day, DayHoursSchema])) as Record<Weekday, typeof DayHoursSchema>).strict(),
+  openingHoursNote: z.string().optional()
+}).strict();
+
+export type Business = z.infer<typeof BusinessSchema>;
+
+const WEEKDAY_LABELS: Record<Weekday, string> = { mon: 'Ma', tue: 'Ti', wed: 'Ke', thu: 'To', fri: 'Pe', sat: 'La', sun: 'Su' };
+
+/**
+ * Workshop contact details and opening hours (knowledge/business.json)
+ */
+export class BusinessInfo {
+  private static business: Business | null = null;
+
+  static getFile(): string {
+    return process.env.BUSINESS_INFO_FILE || path.join(__dirname, '../../knowledge/business.json');
+  }
+
+  static get(): Business {
+    if (this.business) return this.business;
+
+    const file = this.getFile();
+    this.business = BusinessSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    logger.info(`Loaded business info from ${file}`);
+    return this.business;
+  }
+
+  /**
+   * Read the business info again, keeping the loaded info if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.business, business => { this.business = business; }, () => this.get());
+  }
+
+  /**
+   * Opening hours as Finnish text, consecutive days with equal hours grouped: "Ma-Pe: 9-18"
+   */
+  static formatOpeningHours(): string {
+    const { openingHours, openingHoursNote } = this.get();
+    const groups: { from: Weekday; to: Weekday; hours: string }[] = [];
+
+    for (const day of WEEKDAYS) {
+      const hours = openingHours[day];
+      if (!hours) continue;
+
+      const text = `${this.formatTime(hours.open)}-${this.formatTime(hours.close)}`;
+      const last = groups[groups.length - 1];
+      if (last && last.hours === text && WEEKDAYS.indexOf(last.to) === WEEKDAYS.indexOf(day) - 1) {
+        last.to = day;
+      } else {
+        groups.push({ from: day, to: day, hours: text });
+      }
+    }
+
+    const lines = groups.map(group =>
+      `${WEEKDAY_LABELS[group.from]}${group.to !== group.from ? `-${WEEKDAY_LABELS[group.to]}` : ''}: ${group.hours}`);
+    if (openingHoursNote) lines.push(openingHoursNote);
+    return lines.join(' | ');
+  }
+
+  static formatAddress(): string {
+    const { address } = this.get();
+    return `${address.street}, ${address.postalCode} ${address.city}`;
+  }
+
+  private static formatTime(time: string): string {
+    const [hours, minutes] = time.split(':');
+    return minutes === '00' ? String(Number(hours)) : `${Number(hours)}.${minutes}`;
+  }
+}
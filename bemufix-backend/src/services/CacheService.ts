@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { RedisService } from './RedisService';
+import logger, { loggers } from '../utils/logger';
+
+export type CacheNamespaceName = 'vehicle' | 'bmw' | 'chat' | 'quote';
+
+// Default lifetimes; CACHE_TTL_<NAMESPACE> overrides them in seconds
+const DEFAULT_TTL_SECONDS: Record<CacheNamespaceName, number> = {
+  vehicle: 24 * 60 * 60,
+  bmw: 24 * 60 * 60,
+  chat: 60 * 60,
+  quote: 60 * 60
+};
+
+// How long a namespace version is trusted before it is read again, so an
+// invalidation on one instance reaches the others within this time
+const VERSION_REFRESH_MS = 10 * 1000;
+
+export interface CacheStats {
+  version: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  sets: number;
+  // Stale entries served while refreshing, and loads shared by concurrent callers
+  stale: number;
+  coalesced: number;
+}
+
+export interface CachedOptions {
+  // Seconds the entry is kept; defaults to the namespace TTL
+  ttl?: number;
+  // Seconds after which the entry is still served but refreshed in the background
+  staleAfter?: number;
+}
+
+// Values stored by cached(), with the time they were loaded
+const CachedEntrySchema = z.object({
+  cachedAt: z.number(),
+  value: z.unknown()
+});
+
+interface CacheLog {
+  hit(key: string): void;
+  miss(key: string): void;
+  set(key: string, ttl: number): void;
+}
+
+/**
+ * Thrown when a namespace version could not be stored, so the old entries stay in use
+ */
+export class CacheInvalidationError extends Error {
+  constructor(readonly namespace: CacheNamespaceName) {
+    super(`Could not invalidate the ${namespace} cache: key-value store unavailable`);
+    this.name = 'CacheInvalidationError';
+  }
+}
+
+/**
+ * A group of cache keys with one lifetime. Keys carry the namespace version
+ * (`vehicle:v3:...`), so bumping the version invalidates the whole namespace
+ * at once; the old keys are then removed in the background.
+ */
+export class CacheNamespace {
+  private version: number | null = null;
+  private versionReadAt = 0;
+  private readonly counters = { hits: 0, misses: 0, sets: 0, stale: 0, coalesced: 0 };
+  // Loads in progress by key, shared by everyone asking for the same key
+  private readonly loading = new Map<string, Promise<unknown>>();
+
+  constructor(
+    readonly name: CacheNamespaceName,
+    readonly ttlSeconds: number,
+    private readonly log: CacheLog
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = await RedisService.get(await this.key(key));
+    if (value === null) {
+      this.counters.misses++;
+      this.log.miss(key);
+    } else {
+      this.counters.hits++;
+      this.log.hit(key);
+    }
+    return value;
+  }
+
+  /**
+   * Store a value for the namespace TTL, or `ttlSeconds` when given
+   */
+  async set(key: string, value: string, ttlSeconds: number = this.ttlSeconds): Promise<boolean> {
+    const stored = await RedisService.setWithTTL(await this.key(key), value, ttlSeconds);
+    if (stored) {
+      this.counters.sets++;
+      this.log.set(key, ttlSeconds);
+    }
+    return stored;
+  }
+
+  async del(key: string): Promise<boolean> {
+    return RedisService.del(await this.key(key));
+  }
+
+  /**
+   * Typed read-through cache: the cached value when it passes `schema`, else
+   * the loader's result, which is stored unless null. Past `staleAfter` the
+   * cached value is returned and reloaded in the background. Concurrent
+   * callers of the same key share one load.
+   */
+  async cached<T>(
+    key: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    loader: () => Promise<T | null>,
+    options: CachedOptions = {}
+  ): Promise<T | null> {
+    const ttl = options.ttl ?? this.ttlSeconds;
+    const entry = await this.readEntry(key, schema);
+    if (!entry) {
+      return this.load(key, loader, ttl);
+    }
+
+    if (options.staleAfter !== undefined && Date.now() - entry.cachedAt > options.staleAfter * 1000) {
+      this.counters.stale++;
+      this.load(key, loader, ttl).catch(error => {
+        logger.warn(`Background refresh of ${this.name}:${key} failed, serving the cached value:`, error);
+      });
+    }
+    return entry.value;
+  }
+
+  /**
+   * Value stored by cached() without loading it
+   */
+  async peek<T>(key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T | null> {
+    return (await this.readEntry(key, schema))?.value ?? null;
+  }
+
+  /**
+   * Keys of the current version, without the namespace prefix
+   */
+  async *keys(pattern = '*'): AsyncGenerator<string> {
+    const prefix = await this.key('');
+    for await (const key of RedisService.scan(`${prefix}${pattern}`)) {
+      yield key.slice(prefix.length);
+    }
+  }
+
+  /**
+   * Drop every entry by moving to the next version. Returns the new version;
+   * throws CacheInvalidationError when the store did not take the new version.
+   */
+  async invalidate(): Promise<number> {
+    const previous = await this.getVersion(true);
+    const stored = await RedisService.incr(this.versionKey());
+    if (stored === null) throw new CacheInvalidationError(this.name);
+
+    this.version = stored + 1;
+    this.versionReadAt = Date.now();
+    logger.info(`Cache ${this.name} invalidated, now version ${this.version}`);
+
+    RedisService.clearCachePattern(`${this.name}:v${previous}:*`).catch(error => {
+      logger.error(`Failed to remove old ${this.name} cache entries:`, error);
+    });
+    return this.version;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return { version: await this.getVersion(), ttlSeconds: this.ttlSeconds, ...this.counters };
+  }
+
+  /**
+   * Full store key of a key in this namespace
+   */
+  async key(key: string): Promise<string> {
+    return `${this.name}:v${await this.getVersion()}:${key}`;
+  }
+
+  private async readEntry<T>(key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<{ cachedAt: number; value: T } | null> {
+    const raw = await this.get(key);
+    if (raw === null) return null;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      json = null;
+    }
+    const entry = CachedEntrySchema.safeParse(json);
+    const value = entry.success ? schema.safeParse(entry.data.value) : null;
+    if (!entry.success || !value?.success) {
+      logger.warn(`Discarding cached ${this.name} entry in an outdated format: ${key}`);
+      return null;
+    }
+    return { cachedAt: entry.data.cachedAt, value: value.data };
+  }
+
+  private load<T>(key: string, loader: () => Promise<T | null>, ttl: number): Promise<T | null> {
+    const pending = this.loading.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending as Promise<T | null>;
+    }
+
+    const load = (async () => {
+      try {
+        const value = await loader();
+        if (value !== null) {
+          await this.set(key, JSON.stringify({ cachedAt: Date.now(), value }), ttl);
+        }
+        return value;
+      } finally {
+        this.loading.delete(key);
+      }
+    })();
+    this.loading.set(key, load);
+    return load;
+  }
+
+  private async getVersion(refresh = false): Promise<number> {
+    if (refresh || this.version === null || Date.now() - this.versionReadAt > VERSION_REFRESH_MS) {
+      // The counter starts from nothing, so the first version is 1
+      const stored = await RedisService.get(this.versionKey());
+      this.version = (Number(stored) || 0) + 1;
+      this.versionReadAt = Date.now();
+    }
+    return this.version;
+  }
+
+  private versionKey(): string {
+    return `cache:version:${this.name}`;
+  }
+}
+
+/**
+ * Named cache namespaces shared by the services
+ */
+export class CacheService {
+  private static namespaces = new Map<CacheNamespaceName, CacheNamespace>();
+
+  static namespace(name: CacheNamespaceName): CacheNamespace {
+    let namespace = this.namespaces.get(name);
+    if (!namespace) {
+      const ttl = Number(process.env[`CACHE_TTL_${name.toUpperCase()}`]) || DEFAULT_TTL_SECONDS[name];
+      namespace = new CacheNamespace(name, ttl, name === 'vehicle' ? loggers.vehicleLookup.cache : this.debugLog(name));
+      this.namespaces.set(name, namespace);
+    }
+    return namespace;
+  }
+
+  static async stats(): Promise<Record<CacheNamespaceName, CacheStats>> {
+    const names = Object.keys(DEFAULT_TTL_SECONDS) as CacheNamespaceName[];
+    const stats = await Promise.all(names.map(name => this.namespace(name).getStats()));
+    return Object.fromEntries(names.map((name, i) => [name, stats[i]])) as Record<CacheNamespaceName, CacheStats>;
+  }
+
+  private static debugLog(name: CacheNamespaceName): CacheLog {
+    return {
+      hit: key => logger.debug(`Cache hit: ${name}:${key}`),
+      miss: key => logger.debug(`Cache miss: ${name}:${key}`),
+      set: (key, ttl) => logger.debug(`Cache set: ${name}:${key} (TTL: ${ttl}s)`)
+    };
+  }
+}
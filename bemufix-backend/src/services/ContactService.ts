@@ -0,0 +1,39 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ContactInquiry, ContactRequest } from '../models/Contact';
+import { ContactStore } from './ContactStore';
+import { NotificationService } from './NotificationService';
+import logger from '../utils/logger';
+
+export class ContactService {
+  /**
+   * Store a contact form inquiry and queue a notification to the workshop.
+   * The inquiry is kept even if the notification cannot be queued.
+   */
+  static async submit(request: ContactRequest, now: Date = new Date()): Promise<ContactInquiry> {
+    const inquiry: ContactInquiry = {
+      id: uuidv4(),
+      name: request.name,
+      phone: request.phone,
+      email: request.email,
+      message: request.message,
+      createdAt: now.toISOString(),
+      notificationQueued: false
+    };
+    ContactStore.save(inquiry);
+
+    const queued = await NotificationService.notifyContactReceived(inquiry).catch(error => {
+      logger.error(`Contact inquiry ${inquiry.id} notification failed:`, error);
+      return false;
+    });
+
+    if (!queued) {
+      logger.warn(`Contact inquiry ${inquiry.id} stored without a notification`);
+      return inquiry;
+    }
+
+    inquiry.notificationQueued = true;
+    ContactStore.save(inquiry);
+    logger.info(`Contact inquiry ${inquiry.id} received`);
+    return inquiry;
+  }
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ContactInquiry } from '../models/Contact';
+import logger from '../utils/logger';
+
+interface InquiryRow {
+  data: string;
+}
+
+/**
+ * Local SQLite store for contact form inquiries
+ */
+export class ContactStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.CONTACT_STORE_FILE || path.join(process.cwd(), 'data', 'contact.sqlite');
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS inquiries (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_inquiries_created ON inquiries (created_at);
+    `);
+
+    this.db = db;
+    logger.info(`Contact store opened: ${filePath}`);
+    return db;
+  }
+
+  static findById(id: string): ContactInquiry | null {
+    const row = this.open()
+      .prepare('SELECT data FROM inquiries WHERE id = ?')
+      .get(id) as InquiryRow | undefined;
+    return row ? JSON.parse(row.data) as ContactInquiry : null;
+  }
+
+  static save(inquiry: ContactInquiry): void {
+    this.open()
+      .prepare(`
+        INSERT INTO inquiries (id, created_at, data) VALUES (@id, @createdAt, @data)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data
+      `)
+      .run({ id: inquiry.id, createdAt: inquiry.createdAt, data: JSON.stringify(inquiry) });
+  }
+}
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  CustomerAccount,
+  GarageVehicle,
+  GarageVehicleRequest,
+  LoginChallenge,
+  LoginRequest,
+  LoginVerifyRequest,
+  VehicleHistoryEntry
+} from '../models/Customer';
+import type { Vehicle } from '../models/Vehicle';
+import { CustomerStore } from './CustomerStore';
+import { BMWIntelligence } from './BMWIntelligence';
+import { InvalidRegistrationNumberError } from './InspectionReminderService';
+import { NotificationService } from './NotificationService';
+import { TraficomService } from './TraficomService';
+import logger from '../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Wrong codes allowed before the login has to be requested again
+const MAX_CODE_ATTEMPTS = 5;
+const MAX_GARAGE_VEHICLES = 10;
+// History entries kept per vehicle
+const HISTORY_LIMIT = 50;
+
+/**
+ * Thrown for a wrong, used or expired login code or link
+ */
+export class InvalidLoginError extends Error {
+  constructor() {
+    super('Invalid or expired login code');
+    this.name = 'InvalidLoginError';
+  }
+}
+
+export class GarageVehicleNotFoundError extends Error {
+  constructor(readonly registrationNumber: string) {
+    super(`Vehicle not in garage: ${registrationNumber}`);
+    this.name = 'GarageVehicleNotFoundError';
+  }
+}
+
+export class GarageFullError extends Error {
+  constructor(readonly limit: number) {
+    super(`Garage is full (${limit} vehicles)`);
+    this.name = 'GarageFullError';
+  }
+}
+
+/**
+ * Customer accounts with a garage of saved vehicles. Customers log in with a
+ * one-time code or link sent to their email; the account is created on the
+ * first login. Each vehicle keeps its last register lookup and a history of
+ * what was done with it in chat and booking.
+ */
+export class CustomerService {
+  /**
+   * Email a login code and link. Nothing tells whether the address has an
+   * account, and a new request replaces the previous code.
+   */
+  static async requestLogin(request: LoginRequest, now: Date = new Date()): Promise<void> {
+    const minutes = Number(process.env.LOGIN_CODE_MINUTES) || 15;
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const linkToken = crypto.randomBytes(24).toString('base64url');
+    const locale = request.locale || CustomerStore.findByEmail(request.email)?.locale || 'fi';
+
+    CustomerStore.purgeExpired(now.toISOString());
+    CustomerStore.saveChallenge({
+      email: request.email,
+      locale,
+      codeHash: this.hash(code),
+      linkHash: this.hash(linkToken),
+      attempts: 0,
+      expiresAt: new Date(now.getTime() + minutes * MINUTE_MS).toISOString(),
+      createdAt: now.toISOString()
+    });
+
+    const site = process.env.SITE_URL?.replace(/\/+$/, '');
+    await NotificationService.enqueue({
+      template: 'login_code',
+      channel: 'email',
+      to: request.email,
+      locale,
+      params: {
+        code,
+        minutes: String(minutes),
+        loginUrl: site ? `${site}/autotalli?login=${encodeURIComponent(linkToken)}` : undefined
+      }
+    }, now);
+    logger.info(`Customer login code sent to ${this.maskEmail(request.email)}`);
+  }
+
+  /**
+   * Check a login code or link and open a session. The returned token is the
+   * only copy; it is stored as a hash.
+   */
+  static verifyLogin(
+    request: LoginVerifyRequest,
+    now: Date = new Date()
+  ): { customer: CustomerAccount; token: string; expiresAt: string } {
+    const challenge = 'token' in request
+      ? CustomerStore.findChallengeByLink(this.hash(request.token))
+      : CustomerStore.findChallenge(request.email);
+    if (!challenge || new Date(challenge.expiresAt) <= now) throw new InvalidLoginError();
+
+    if ('code' in request && !this.matches(challenge, request.code)) {
+      this.recordFailedAttempt(challenge);
+      throw new InvalidLoginError();
+    }
+
+    return CustomerStore.transaction(() => {
+      // A code or link works once
+      CustomerStore.deleteChallenge(challenge.email);
+
+      const existing = CustomerStore.findByEmail(challenge.email);
+      const customer: CustomerAccount = existing
+        ? { ...existing, lastLoginAt: now.toISOString() }
+        : { id: uuidv4(), email: challenge.email, locale: challenge.locale, createdAt: now.toISOString(), lastLoginAt: now.toISOString() };
+      CustomerStore.saveCustomer(customer);
+
+      const token = crypto.randomBytes(32).toString('base64url');
+      const days = Number(process.env.CUSTOMER_SESSION_DAYS) || 30;
+      const expiresAt = new Date(now.getTime() + days * DAY_MS).toISOString();
+      CustomerStore.saveSession(this.hash(token), customer.id, expiresAt);
+
+      logger.info(`Customer ${existing ? 'logged in' : 'created'}: ${customer.id}`);
+      return { customer, token, expiresAt };
+    });
+  }
+
+  /**
+   * Customer behind a session token, or null when unknown or expired
+   */
+  static authenticate(token: string, now: Date = new Date()): CustomerAccount | null {
+    const customerId = CustomerStore.findSession(this.hash(token), now.toISOString());
+    return customerId ? CustomerStore.findById(customerId) : null;
+  }
+
+  static logout(token: string): void {
+    CustomerStore.deleteSession(this.hash(token));
+  }
+
+  static getGarage(customerId: string): GarageVehicle[] {
+    return CustomerStore.findVehicles(customerId);
+  }
+
+  static findVehicle(customerId: string, registrationNumber: string): GarageVehicle | null {
+    return CustomerStore.findVehicle(customerId, TraficomService.normalizeRegistrationNumber(registrationNumber));
+  }
+
+  /**
+   * Save a car to the garage with its register data. Adding a saved car again
+   * only updates its nickname.
+   */
+  static async addVehicle(customerId: string, request: GarageVehicleRequest, now: Date = new Date()): Promise<GarageVehicle> {
+    if (!TraficomService.validateRegistrationNumber(request.registrationNumber)) {
+      throw new InvalidRegistrationNumberError(request.registrationNumber);
+    }
+    const registrationNumber = TraficomService.normalizeRegistrationNumber(request.registrationNumber);
+
+    const existing = CustomerStore.findVehicle(customerId, registrationNumber);
+    if (existing) {
+      const updated = { ...existing, nickname: request.nickname ?? existing.nickname };
+      CustomerStore.saveVehicle(customerId, updated);
+      return updated;
+    }
+    if (CustomerStore.findVehicles(customerId).length >= MAX_GARAGE_VEHICLES) {
+      throw new GarageFullError(MAX_GARAGE_VEHICLES);
+    }
+
+    const garageVehicle: GarageVehicle = {
+      registrationNumber,
+      nickname: request.nickname || undefined,
+      vehicle: await this.lookup(registrationNumber),
+      history: [{ type: 'added', summary: 'Lisätty autotalliin', createdAt: now.toISOString() }],
+      addedAt: now.toISOString(),
+      refreshedAt: now.toISOString()
+    };
+    CustomerStore.saveVehicle(customerId, garageVehicle);
+    logger.info(`Garage vehicle added: customer=${customerId}, ${registrationNumber}`);
+    return garageVehicle;
+  }
+
+  /**
+   * Fetch the register data again; the saved data is kept when the lookup fails
+   */
+  static async refreshVehicle(customerId: string, registrationNumber: string, now: Date = new Date()): Promise<GarageVehicle> {
+    const garageVehicle = this.findVehicle(customerId, registrationNumber);
+    if (!garageVehicle) throw new GarageVehicleNotFoundError(registrationNumber);
+
+    const vehicle = await this.lookup(garageVehicle.registrationNumber);
+    const refreshed = vehicle ? { ...garageVehicle, vehicle, refreshedAt: now.toISOString() } : garageVehicle;
+    CustomerStore.saveVehicle(customerId, refreshed);
+    return refreshed;
+  }
+
+  static removeVehicle(customerId: string, registrationNumber: string): void {
+    const normalized = TraficomService.normalizeRegistrationNumber(registrationNumber);
+    if (!CustomerStore.deleteVehicle(customerId, normalized)) {
+      throw new GarageVehicleNotFoundError(normalized);
+    }
+    logger.info(`Garage vehicle removed: customer=${customerId}, ${normalized}`);
+  }
+
+  /**
+   * Keep the latest lookup of a garage car, e.g. from the chat; other cars are ignored
+   */
+  static rememberLookup(customerId: string, vehicle: Vehicle, now: Date = new Date()): void {
+    const garageVehicle = CustomerStore.findVehicle(customerId, vehicle.registrationNumber);
+    if (!garageVehicle) return;
+
+    CustomerStore.saveVehicle(customerId, { ...garageVehicle, vehicle, refreshedAt: now.toISOString() });
+  }
+
+  /**
+   * Add an entry to a garage car's history. An entry with the same type and
+   * reference replaces the earlier one. Returns false when the car is not in the garage.
+   */
+  static addHistory(customerId: string, registrationNumber: string, entry: Omit<VehicleHistoryEntry, 'createdAt'>, now: Date = new Date()): boolean {
+    return CustomerStore.transaction(() => {
+      const garageVehicle = CustomerStore.findVehicle(customerId, TraficomService.normalizeRegistrationNumber(registrationNumber));
+      if (!garageVehicle) return false;
+
+      const history = garageVehicle.history.filter(previous =>
+        !(entry.reference && previous.type === entry.type && previous.reference === entry.reference));
+      history.unshift({ ...entry, createdAt: now.toISOString() });
+
+      CustomerStore.saveVehicle(customerId, { ...garageVehicle, history: history.slice(0, HISTORY_LIMIT) });
+      return true;
+    });
+  }
+
+  /**
+   * Register data with BMW intelligence; null when not found or the lookup fails
+   */
+  private static async lookup(registrationNumber: string): Promise<Vehicle | null> {
+    try {
+      const vehicle = await TraficomService.getVehicleData(registrationNumber);
+      if (vehicle && vehicle.make === 'BMW') {
+        vehicle.bmwSpecific = await BMWIntelligence.getVehicleIntelligence(vehicle);
+      }
+      return vehicle;
+    } catch (error) {
+      logger.warn(`Garage vehicle lookup failed for ${registrationNumber}:`, error);
+      return null;
+    }
+  }
+
+  private static matches(challenge: LoginChallenge, code: string): boolean {
+    const expected = Buffer.from(challenge.codeHash, 'hex');
+    const given = Buffer.from(this.hash(code), 'hex');
+    return crypto.timingSafeEqual(expected, given);
+  }
+
+  /**
+   * Count a wrong code; the code stops working after MAX_CODE_ATTEMPTS
+   */
+  private static recordFailedAttempt(challenge: LoginChallenge): void {
+    const attempts = challenge.attempts + 1;
+    if (attempts >= MAX_CODE_ATTEMPTS) {
+      CustomerStore.deleteChallenge(challenge.email);
+      logger.warn(`Customer login code of ${this.maskEmail(challenge.email)} locked after ${attempts} wrong attempts`);
+      return;
+    }
+    CustomerStore.saveChallenge({ ...challenge, attempts });
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private static maskEmail(email: string): string {
+    const [name, domain] = email.split('@');
+    return `${name.slice(0, 2)}***@${domain}`;
+  }
+}
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { CustomerAccount, GarageVehicle, LoginChallenge } from '../models/Customer';
+import logger from '../utils/logger';
+
+interface DataRow {
+  data: string;
+}
+
+/**
+ * Local SQLite store for customer accounts, their garage vehicles, pending
+ * logins and login sessions. Login codes and session tokens are kept as
+ * SHA-256 hashes only.
+ */
+export class CustomerStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.CUSTOMER_STORE_FILE || path.join(process.cwd(), 'data', 'customers.sqlite');
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS vehicles (
+        customer_id TEXT NOT NULL,
+        registration_number TEXT NOT NULL,
+        data TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (customer_id, registration_number)
+      );
+      CREATE TABLE IF NOT EXISTS login_challenges (
+        email TEXT PRIMARY KEY,
+        link_hash TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        customer_id TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_customer ON sessions (customer_id);
+    `);
+
+    this.db = db;
+    logger.info(`Customer store opened: ${filePath}`);
+    return db;
+  }
+
+  static transaction<T>(fn: () => T): T {
+    return this.open().transaction(fn).immediate();
+  }
+
+  static findById(id: string): CustomerAccount | null {
+    const row = this.open().prepare('SELECT data FROM customers WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as CustomerAccount : null;
+  }
+
+  static findByEmail(email: string): CustomerAccount | null {
+    const row = this.open().prepare('SELECT data FROM customers WHERE email = ?').get(email) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as CustomerAccount : null;
+  }
+
+  static saveCustomer(customer: CustomerAccount): void {
+    this.open().prepare(`
+      INSERT INTO customers (id, email, data, updated_at)
+      VALUES (@id, @email, @data, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        email = excluded.email,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: customer.id,
+      email: customer.email,
+      data: JSON.stringify(customer),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Garage vehicles of a customer in the order they were added
+   */
+  static findVehicles(customerId: string): GarageVehicle[] {
+    const rows = this.open()
+      .prepare('SELECT data FROM vehicles WHERE customer_id = ? ORDER BY added_at, registration_number')
+      .all(customerId) as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as GarageVehicle);
+  }
+
+  static findVehicle(customerId: string, registrationNumber: string): GarageVehicle | null {
+    const row = this.open()
+      .prepare('SELECT data FROM vehicles WHERE customer_id = ? AND registration_number = ?')
+      .get(customerId, registrationNumber) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as GarageVehicle : null;
+  }
+
+  static saveVehicle(customerId: string, vehicle: GarageVehicle): void {
+    this.open().prepare(`
+      INSERT INTO vehicles (customer_id, registration_number, data, added_at, updated_at)
+      VALUES (@customerId, @registrationNumber, @data, @addedAt, @updatedAt)
+      ON CONFLICT(customer_id, registration_number) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      customerId,
+      registrationNumber: vehicle.registrationNumber,
+      data: JSON.stringify(vehicle),
+      addedAt: vehicle.addedAt,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Remove a vehicle from the garage; false when it was not there
+   */
+  static deleteVehicle(customerId: string, registrationNumber: string): boolean {
+    return this.open()
+      .prepare('DELETE FROM vehicles WHERE customer_id = ? AND registration_number = ?')
+      .run(customerId, registrationNumber).changes > 0;
+  }
+
+  static findChallenge(email: string): LoginChallenge | null {
+    const row = this.open().prepare('SELECT data FROM login_challenges WHERE email = ?').get(email) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as LoginChallenge : null;
+  }
+
+  static findChallengeByLink(linkHash: string): LoginChallenge | null {
+    const row = this.open().prepare('SELECT data FROM login_challenges WHERE link_hash = ?').get(linkHash) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as LoginChallenge : null;
+  }
+
+  /**
+   * Store a login challenge, replacing an earlier one for the same email
+   */
+  static saveChallenge(challenge: LoginChallenge): void {
+    this.open().prepare(`
+      INSERT INTO login_challenges (email, link_hash, data, expires_at)
+      VALUES (@email, @linkHash, @data, @expiresAt)
+      ON CONFLICT(email) DO UPDATE SET
+        link_hash = excluded.link_hash,
+        data = excluded.data,
+        expires_at = excluded.expires_at
+    `).run({
+      email: challenge.email,
+      linkHash: challenge.linkHash,
+      data: JSON.stringify(challenge),
+      expiresAt: challenge.expiresAt
+    });
+  }
+
+  static deleteChallenge(email: string): void {
+    this.open().prepare('DELETE FROM login_challenges WHERE email = ?').run(email);
+  }
+
+  static saveSession(tokenHash: string, customerId: string, expiresAt: string): void {
+    this.open()
+      .prepare('INSERT INTO sessions (token_hash, customer_id, expires_at, created_at) VALUES (?, ?, ?, ?)')
+      .run(tokenHash, customerId, expiresAt, new Date().toISOString());
+  }
+
+  /**
+   * Customer id of a session that has not expired
+   */
+  static findSession(tokenHash: string, now: string): string | null {
+    const row = this.open()
+      .prepare('SELECT customer_id FROM sessions WHERE token_hash = ? AND expires_at > ?')
+      .get(tokenHash, now) as { customer_id: string } | undefined;
+    return row?.customer_id ?? null;
+  }
+
+  static deleteSession(tokenHash: string): void {
+    this.open().prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  /**
+   * Drop expired sessions and login challenges; returns the number of rows removed
+   */
+  static purgeExpired(now: string): number {
+    const db = this.open();
+    return db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now).changes
+      + db.prepare('DELETE FROM login_challenges WHERE expires_at <= ?').run(now).changes;
+  }
+}
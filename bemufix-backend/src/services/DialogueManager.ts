@@ -0,0 +1,349 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  DialogueFlows,
+  DialogueFlowsSchema,
+  DialogueSlotName,
+  DialogueSlots,
+  DialogueState,
+  Flow,
+  FlowName,
+  FlowStep
+} from '../models/Dialogue';
+import type { Intent, IntentResult } from '../models/Intent';
+import { BusinessInfo, WEEKDAYS } from './BusinessInfo';
+import { QuoteEngine } from './QuoteEngine';
+import { FinnishStemmer } from './intent/FinnishStemmer';
+import { SlotExtractor } from './intent/SlotExtractor';
+import { TriageService } from './TriageService';
+import { InspectionReminderService } from './InspectionReminderService';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+// Commands and yes/no answers only count in short messages, so "ei käynnisty" stays a symptom
+const MAX_COMMAND_WORDS = 5;
+
+// Questions answered in the middle of a flow, after which the pending question is repeated
+const INTERRUPTING_INTENTS: Intent[] = ['opening_hours', 'location', 'human_handoff', 'bmw_info', 'fault_code'];
+
+// Slots read from any message of a flow; the others only answer their own question
+const EXTRACTED_SLOTS: DialogueSlotName[] = ['registrationNumber', 'serviceTypes', 'date', 'time', 'phone'];
+
+export type DialogueCommand = 'cancel' | 'back';
+
+type SlotValue = DialogueSlots[DialogueSlotName];
+
+/**
+ * What the bot does next in a flow:
+ * - ask: send `text`, which asks for the pending slot
+ * - complete: all slots collected, the route builds the answer
+ * - cancelled: the customer left the flow
+ * - interrupted: the message was a side question; answer it and then send `text`
+ */
+export type DialogueTurn =
+  | { status: 'ask'; text: string }
+  | { status: 'complete'; slots: DialogueSlots }
+  | { status: 'cancelled'; text: string }
+  | { status: 'interrupted'; text: string };
+
+export interface DialogueResult {
+  // State to keep in the session, null when the flow has ended
+  state: DialogueState | null;
+  turn: DialogueTurn;
+}
+
+export interface DialogueOptions {
+  today?: Date;
+  // false leaves out the flow's intro, e.g. when a flow is restarted
+  intro?: boolean;
+}
+
+/**
+ * Multi-turn chat flows (booking, quote, symptom triage) defined in
+ * knowledge/dialogue/flows.json. The manager keeps track of which slot
+ * was asked, fills slots from the answers and handles "peruuta" and "takaisin";
+ * the chat route stores the state in the session and builds the final answers.
+ * Triage follow-up questions come from TriageService.
+ */
+export class DialogueManager {
+  private static flows: DialogueFlows | null = null;
+
+  static getFlowsFile(): string {
+    return process.env.DIALOGUE_FLOWS_FILE || path.join(__dirname, '../../knowledge/dialogue/flows.json');
+  }
+
+  static getFlows(): DialogueFlows {
+    if (this.flows) return this.flows;
+
+    const file = this.getFlowsFile();
+    this.flows = DialogueFlowsSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    logger.info(`Loaded dialogue flows revision ${this.flows.revision} from ${file}`);
+    return this.flows;
+  }
+
+  /**
+   * Read the dialogue flows again; invalid flows leave the loaded ones in use
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.flows, flows => { this.flows = flows; }, () => this.getFlows());
+  }
+
+  static getFlow(name: FlowName): Flow {
+    const flow = this.getFlows().flows[name];
+    if (!flow) throw new Error(`Dialogue flow ${name} is not defined`);
+    return flow;
+  }
+
+  /**
+   * Flow started by a classified message, if any
+   */
+  static findFlow(classification: IntentResult): FlowName | null {
+    for (const [name, flow] of Object.entries(this.getFlows().flows) as [FlowName, Flow][]) {
+      const requires = flow.start.requires || [];
+      const slots: DialogueSlots = classification.slots;
+      if (flow.start.intents.includes(classification.intent) && requires.every(slot => slots[slot] !== undefined)) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start a flow with slots already known (from the message, the session or an earlier flow)
+   */
+  static start(name: FlowName, message: string, slots: DialogueSlots, options: DialogueOptions = {}): DialogueResult {
+    const flow = this.getFlow(name);
+    const state: DialogueState = { flow: name, pending: null, slots: {}, answered: [] };
+
+    for (const [slot, value] of Object.entries(slots) as [DialogueSlotName, SlotValue][]) {
+      if (slot !== 'confirm') this.setSlot(state.slots, slot, this.validate(slot, value, state.slots, options));
+    }
+    for (const step of flow.steps) {
+      if (step.fromStartMessage && message.trim()) this.setSlot(state.slots, step.slot, message.trim());
+    }
+
+    const result = this.next(flow, state);
+    if (flow.intro && options.intro !== false && result.turn.status === 'ask') {
+      result.turn.text = `${this.render(flow.intro, state.slots)}\n\n${result.turn.text}`;
+    }
+    return result;
+  }
+
+  /**
+   * Handle the customer's answer to the pending question
+   */
+  static advance(state: DialogueState, message: string, classification: IntentResult, options: DialogueOptions = {}): DialogueResult {
+    const flow = this.getFlow(state.flow);
+    const command = this.parseCommand(message);
+
+    if (command === 'cancel') {
+      return { state: null, turn: { status: 'cancelled', text: this.render(flow.cancelled, state.slots) } };
+    }
+
+    if (command === 'back') {
+      const previous = state.answered.pop();
+      if (!previous) {
+        const result = this.next(flow, state);
+        if (result.turn.status === 'ask') {
+          result.turn.text = `Tämä on ensimmäinen kysymys. Kirjoita "peruuta", jos haluat lopettaa.\n\n${result.turn.text}`;
+        }
+        return result;
+      }
+      if (previous === 'followUps' && state.slots.followUps && state.slots.followUps.length > 1) {
+        state.slots.followUps = state.slots.followUps.slice(0, -1);
+      } else {
+        delete state.slots[previous];
+      }
+      delete state.slots.confirm;
+      const step = this.getStep(flow, previous);
+      return step ? this.ask(flow, state, step) : this.next(flow, state);
+    }
+
+    const step = state.pending ? this.getStep(flow, state.pending) : null;
+    if (!step) return this.next(flow, state);
+
+    const value = this.validate(step.slot, this.extract(step.slot, message, classification, state.slots, options), state.slots, options);
+    if (step.slot === 'confirm' && value === false) {
+      return { state: null, turn: { status: 'cancelled', text: this.render(flow.cancelled, state.slots) } };
+    }
+    if (value !== undefined) {
+      this.setSlot(state.slots, step.slot, value);
+      state.answered.push(step.slot);
+    }
+
+    // Other values the customer gave along the way, e.g. the time with the date
+    for (const slot of EXTRACTED_SLOTS) {
+      if (state.slots[slot] !== undefined || !flow.steps.some(s => s.slot === slot)) continue;
+      const extra = this.validate(slot, this.extract(slot, message, classification, state.slots, options), state.slots, options);
+      if (extra !== undefined) {
+        this.setSlot(state.slots, slot, extra);
+        state.answered.push(slot);
+      }
+    }
+
+    if (value !== undefined) return this.next(flow, state);
+
+    if (step.optional && this.parseYesNo(message) === false) {
+      state.answered.push(step.slot);
+      return this.next(flow, state);
+    }
+
+    if (INTERRUPTING_INTENTS.includes(classification.intent)) {
+      return { state, turn: { status: 'interrupted', text: this.render(step.prompt, state.slots) } };
+    }
+
+    return { state, turn: { status: 'ask', text: this.render(step.retry, state.slots) } };
+  }
+
+  /**
+   * "peruuta" or "takaisin" in a short message
+   */
+  static parseCommand(message: string): DialogueCommand | null {
+    const words = FinnishStemmer.tokenize(message);
+    if (words.length === 0 || words.length > MAX_COMMAND_WORDS) return null;
+
+    const { commands } = this.getFlows();
+    if (words.some(word => commands.cancel.includes(word))) return 'cancel';
+    if (words.some(word => commands.back.includes(word))) return 'back';
+    return null;
+  }
+
+  /**
+   * Yes or no in a short message; undefined when it is neither (or both)
+   */
+  static parseYesNo(message: string): boolean | undefined {
+    const words = FinnishStemmer.tokenize(message);
+    if (words.length === 0 || words.length > MAX_COMMAND_WORDS) return undefined;
+
+    const { commands } = this.getFlows();
+    const yes = words.some(word => commands.yes.includes(word));
+    const no = words.some(word => commands.no.includes(word));
+    return yes === no ? undefined : yes;
+  }
+
+  /**
+   * The collected slots as a bullet list
+   */
+  static summarize(slots: DialogueSlots): string {
+    const lines: string[] = [];
+
+    if (slots.serviceTypes?.length) {
+      const names = slots.serviceTypes.map(id => QuoteEngine.getJob(id)?.name || id);
+      lines.push(`• Työ: ${names.join(', ')}`);
+    }
+    if (slots.symptom) {
+      const details = (slots.followUps || []).map(followUp => followUp.answer);
+      lines.push(`• Oire: ${slots.symptom}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+    }
+    if (slots.registrationNumber) lines.push(`• Auto: ${slots.registrationNumber}`);
+    if (slots.date) {
+      const [year, month, day] = slots.date.split('-').map(Number);
+      lines.push(`• Toivottu aika: ${day}.${month}.${year}${slots.time ? ` klo ${slots.time}` : ''}`);
+    }
+    if (slots.phone) lines.push(`• Puhelin: ${slots.phone}`);
+
+    return lines.join('\n');
+  }
+
+  private static next(flow: Flow, state: DialogueState): DialogueResult {
+    const step = flow.steps.find(s => s.slot === 'followUps'
+      ? this.nextQuestion(state.slots) !== null
+      : state.slots[s.slot] === undefined && !state.answered.includes(s.slot));
+    if (!step) return { state: null, turn: { status: 'complete', slots: state.slots } };
+    return this.ask(flow, state, step);
+  }
+
+  private static ask(flow: Flow, state: DialogueState, step: FlowStep): DialogueResult {
+    state.pending = step.slot;
+    return { state, turn: { status: 'ask', text: this.render(step.prompt, state.slots) } };
+  }
+
+  private static getStep(flow: Flow, slot: DialogueSlotName): FlowStep | null {
+    return flow.steps.find(step => step.slot === slot) || null;
+  }
+
+  private static nextQuestion(slots: DialogueSlots) {
+    return TriageService.nextQuestion({ symptom: slots.symptom || '', answers: slots.followUps });
+  }
+
+  private static extract(
+    slot: DialogueSlotName,
+    message: string,
+    classification: IntentResult,
+    slots: DialogueSlots,
+    options: DialogueOptions
+  ): SlotValue {
+    switch (slot) {
+      case 'registrationNumber':
+      case 'serviceTypes':
+        return classification.slots[slot];
+      case 'date':
+        return classification.slots.date || SlotExtractor.extractDate(message, options.today);
+      case 'time':
+        // Bare hour as an answer to "Mihin kellonaikaan?"
+        return classification.slots.time || SlotExtractor.extractTime(message.replace(/^\s*(\d{1,2}(?:[.:]\d{2})?)\s*$/, 'klo $1'));
+      case 'phone':
+        return this.extractPhoneNumber(message);
+      case 'symptom':
+        return INTERRUPTING_INTENTS.includes(classification.intent) ? undefined : message.trim() || undefined;
+      case 'followUps': {
+        // The answer goes with the question that was just asked
+        const question = this.nextQuestion(slots);
+        if (!question || INTERRUPTING_INTENTS.includes(classification.intent) || !message.trim()) return undefined;
+        return [...(slots.followUps || []), { question: question.id, answer: message.trim() }];
+      }
+      case 'confirm':
+        return this.parseYesNo(message);
+    }
+  }
+
+  /**
+   * Check a value against the slots collected so far: dates not in the past,
+   * times within the opening hours of the chosen day
+   */
+  private static validate(slot: DialogueSlotName, value: SlotValue, slots: DialogueSlots, options: DialogueOptions): SlotValue {
+    if (value === undefined) return undefined;
+
+    if (slot === 'date' && typeof value === 'string') {
+      const today = options.today || new Date();
+      const todayText = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+      return value >= todayText ? value : undefined;
+    }
+
+    if (slot === 'time' && typeof value === 'string' && slots.date) {
+      const [year, month, day] = slots.date.split('-').map(Number);
+      const weekday = WEEKDAYS[(new Date(year, month - 1, day).getDay() + 6) % 7];
+      const hours = BusinessInfo.get().openingHours[weekday];
+      if (hours && (value < hours.open || value >= hours.close)) return undefined;
+    }
+
+    if (slot === 'serviceTypes' && Array.isArray(value) && value.length === 0) return undefined;
+
+    return value;
+  }
+
+  private static setSlot(slots: DialogueSlots, slot: DialogueSlotName, value: SlotValue): void {
+    if (value !== undefined) Object.assign(slots, { [slot]: value });
+  }
+
+  /**
+   * Finnish phone number, spaces and dashes removed: "040 123 4567", "+358 40 123 4567"
+   */
+  private static extractPhoneNumber(message: string): string | undefined {
+    const match = message.match(/(?:\+358|\b0)[\d\s-]{5,14}\d/);
+    if (!match) return undefined;
+
+    const number = match[0].replace(/[\s-]/g, '');
+    const digits = number.replace('+', '').length;
+    return digits >= 7 && digits <= 12 ? number : undefined;
+  }
+
+  private static render(text: string, slots: DialogueSlots): string {
+    return text
+      .replace(/\{openingHours\}/g, BusinessInfo.formatOpeningHours())
+      .replace(/\{phone\}/g, BusinessInfo.get().phone)
+      .replace(/\{summary\}/g, this.summarize(slots))
+      .replace(/\{question\}/g, () => this.nextQuestion(slots)?.text || '')
+      .replace(/\{consent\}/g, () => InspectionReminderService.getConsentText('fi'));
+  }
+}
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { DtcFile, DtcFileSchema, DtcLookup } from '../models/Dtc';
+import type { QuoteContext } from '../models/Quote';
+import type { Vehicle } from '../models/Vehicle';
+import { BMWIntelligence } from './BMWIntelligence';
+import { QuoteEngine } from './QuoteEngine';
+import { TraficomService } from './TraficomService';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+const OBD_CODE = /^[PCBU][0-3][0-9A-F]{3}$/;
+const BMW_CODE = /^[0-9A-F]{4,6}$/;
+
+// Words that make a hex-looking token in a chat message a fault code
+const CODE_WORDS = /koodi|dtc|obd|vikamuisti/i;
+
+/**
+ * Fault code lookup: generic OBD-II codes and BMW DME/DDE hex codes with their
+ * meaning, typical causes and repair estimate per engine family (knowledge/dtc/codes.json)
+ */
+export class DtcService {
+  private static data: DtcFile | null = null;
+
+  static getFile(): string {
+    return process.env.DTC_FILE || path.join(__dirname, '../../knowledge/dtc/codes.json');
+  }
+
+  static get(): DtcFile {
+    if (this.data) return this.data;
+
+    const file = this.getFile();
+    const data = DtcFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    this.validateReferences(data);
+    this.data = data;
+    logger.info(`Loaded fault codes revision ${data.revision} (${Object.keys(data.codes).length} codes) from ${file}`);
+    return data;
+  }
+
+  /**
+   * Read the fault codes again, keeping the loaded ones if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.data, data => { this.data = data; }, () => this.get());
+  }
+
+  /**
+   * Upper case code without spaces or dashes, or null when it is not a fault code
+   */
+  static normalize(code: string): string | null {
+    const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+    return OBD_CODE.test(normalized) || BMW_CODE.test(normalized) ? normalized : null;
+  }
+
+  /**
+   * Engine family of an engine code: "N47D20" and "N47D20/B47D20" are "N47"
+   */
+  static engineFamily(engineCode?: string): string | null {
+    const family = engineCode?.split('/')[0].trim().toUpperCase().slice(0, 3);
+    return family && /^[A-Z]\d{2}$/.test(family) ? family : null;
+  }
+
+  /**
+   * Meaning and causes of a code on the given engine or the customer's car,
+   * or null when the code is not in the knowledge base
+   */
+  static lookup(code: string, options: { engine?: string; vehicle?: Vehicle } = {}): DtcLookup | null {
+    const normalized = this.normalize(code);
+    const entry = normalized ? this.get().codes[normalized] : undefined;
+    if (!normalized || !entry) return null;
+
+    const context: QuoteContext = options.vehicle
+      ? BMWIntelligence.getQuoteContext(options.vehicle)
+      : { engineCode: options.engine };
+    const engine = this.engineFamily(options.engine || context.engineCode || options.vehicle?.bmwSpecific?.engineCode);
+    const variant = engine ? entry.engines?.[engine] : undefined;
+    const details = { ...entry, ...variant };
+
+    const fragments = details.issues || [];
+    const knownIssues = engine && fragments.length > 0
+      ? BMWIntelligence.getEngineIssues(engine).filter(issue => fragments.some(fragment => issue.toLowerCase().includes(fragment)))
+      : [];
+
+    const ranges = details.jobs.map(job => BMWIntelligence.getRepairCostEstimate(job, context));
+
+    return {
+      code: normalized,
+      system: entry.system,
+      name: details.name,
+      causes: details.causes,
+      jobs: details.jobs,
+      urgency: details.urgency,
+      engine,
+      engineSpecific: Boolean(variant),
+      knownIssues,
+      price: ranges.length > 0
+        ? { min: ranges.reduce((sum, range) => sum + range.min, 0), max: ranges.reduce((sum, range) => sum + range.max, 0) }
+        : null
+    };
+  }
+
+  /**
+   * Fault codes written in a chat message. OBD-II codes are always picked up;
+   * BMW hex codes when they are in the knowledge base, or otherwise mix letters
+   * and digits in a message that talks about codes ("vikakoodi 2D0D").
+   */
+  static extractCodes(message: string): string[] {
+    const codes = this.get().codes;
+    const mentionsCodes = CODE_WORDS.test(message);
+    const found = new Set<string>();
+
+    for (const token of message.match(/\b[0-9A-Z]{4,6}\b/gi) || []) {
+      const code = token.toUpperCase();
+      if (OBD_CODE.test(code) || (BMW_CODE.test(code) && (codes[code] || (mentionsCodes
+        && /\d/.test(code) && /[A-F]/.test(code) && !TraficomService.validateRegistrationNumber(code))))) {
+        found.add(code);
+      }
+    }
+
+    return [...found];
+  }
+
+  private static validateReferences(data: DtcFile): void {
+    const problems: string[] = [];
+
+    for (const [code, entry] of Object.entries(data.codes)) {
+      const jobs = [...entry.jobs, ...Object.values(entry.engines || {}).flatMap(variant => variant.jobs || [])];
+      for (const job of new Set(jobs)) {
+        if (!QuoteEngine.getJob(job)) problems.push(`code ${code}: unknown job ${job}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid fault code data: ${problems.join('; ')}`);
+    }
+  }
+}
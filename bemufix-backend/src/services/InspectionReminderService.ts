@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InspectionReminderFile,
+  InspectionReminderFileSchema,
+  InspectionSubscribeRequest,
+  InspectionSubscription,
+  InspectionSubscriptionSource
+} from '../models/InspectionReminder';
+import type { NotificationLocale } from '../models/Notification';
+import { InspectionReminderStore } from './InspectionReminderStore';
+import { NotificationService } from './NotificationService';
+import { QuoteEngine } from './QuoteEngine';
+import { BusinessInfo } from './BusinessInfo';
+import { TraficomService } from './TraficomService';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InvalidRegistrationNumberError extends Error {
+  constructor(readonly registrationNumber: string) {
+    super(`Invalid registration number: ${registrationNumber}`);
+    this.name = 'InvalidRegistrationNumberError';
+  }
+}
+
+export class SubscriptionNotFoundError extends Error {
+  constructor() {
+    super('Inspection reminder subscription not found');
+    this.name = 'SubscriptionNotFoundError';
+  }
+}
+
+/**
+ * Inspection (katsastus) reminders: customers subscribe with a registration
+ * number and consent, the deadline is kept up to date from the vehicle
+ * register and reminders with a pre-inspection offer go out before it.
+ */
+export class InspectionReminderService {
+  private static config: InspectionReminderFile | null = null;
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  static getFile(): string {
+    return process.env.INSPECTION_REMINDERS_FILE || path.join(__dirname, '../../knowledge/inspection/reminders.json');
+  }
+
+  static get(): InspectionReminderFile {
+    if (this.config) return this.config;
+
+    const file = this.getFile();
+    const config = InspectionReminderFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    this.validateReferences(config);
+
+    this.config = config;
+    logger.info(`Loaded inspection reminder rules revision ${config.revision} from ${file}`);
+    return config;
+  }
+
+  /**
+   * Read the reminder rules again; invalid rules leave the loaded ones in use
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.config, config => { this.config = config; }, () => this.get());
+  }
+
+  static getConsentText(locale: NotificationLocale = 'fi'): string {
+    const { consent } = this.get();
+    return consent[locale] || consent.fi || '';
+  }
+
+  /**
+   * Subscribe a car to reminders and record the consent. Subscribing again
+   * with the same contact details returns the existing subscription.
+   */
+  static async subscribe(
+    request: InspectionSubscribeRequest,
+    source: InspectionSubscriptionSource,
+    now: Date = new Date()
+  ): Promise<{ subscription: InspectionSubscription; unsubscribeToken: string }> {
+    if (!TraficomService.validateRegistrationNumber(request.registrationNumber)) {
+      throw new InvalidRegistrationNumberError(request.registrationNumber);
+    }
+    const registrationNumber = TraficomService.normalizeRegistrationNumber(request.registrationNumber);
+    const phone = request.phone?.replace(/[\s-]/g, '');
+    const locale = request.locale || 'fi';
+
+    const existing = InspectionReminderStore.findActive(registrationNumber)
+      .find(({ subscription }) => subscription.phone === phone && subscription.email === request.email);
+
+    const subscription: InspectionSubscription = existing
+      ? { ...existing.subscription, locale }
+      : {
+        id: uuidv4(),
+        status: 'active',
+        source,
+        registrationNumber,
+        email: request.email,
+        phone,
+        locale,
+        inspectionDue: null,
+        remindersSent: [],
+        createdAt: now.toISOString()
+      };
+    const unsubscribeToken = existing?.token || crypto.randomBytes(24).toString('base64url');
+
+    // The deadline can also be filled in by a later check
+    await this.refreshDeadline(subscription, now).catch(error =>
+      logger.warn(`Inspection deadline lookup failed for ${registrationNumber}:`, error));
+
+    InspectionReminderStore.transaction(() => {
+      InspectionReminderStore.save(subscription, unsubscribeToken);
+      InspectionReminderStore.addConsent({
+        subscriptionId: subscription.id,
+        action: 'given',
+        source,
+        text: this.getConsentText(locale),
+        createdAt: now.toISOString()
+      });
+    });
+    logger.info(`Inspection reminders ${existing ? 'renewed' : 'subscribed'}: ${subscription.id} ${registrationNumber}, due ${subscription.inspectionDue || 'unknown'}`);
+
+    // A deadline that is already near gets its reminder right away
+    await this.remind(subscription, unsubscribeToken, now);
+    return { subscription, unsubscribeToken };
+  }
+
+  static findByToken(token: string): InspectionSubscription | null {
+    return InspectionReminderStore.findByToken(token);
+  }
+
+  /**
+   * Stop the reminders and record the withdrawal; unsubscribing twice is fine
+   */
+  static unsubscribe(token: string, now: Date = new Date()): InspectionSubscription {
+    return InspectionReminderStore.transaction(() => {
+      const subscription = InspectionReminderStore.findByToken(token);
+      if (!subscription) throw new SubscriptionNotFoundError();
+      if (subscription.status === 'unsubscribed') return subscription;
+
+      const unsubscribed: InspectionSubscription = { ...subscription, status: 'unsubscribed', unsubscribedAt: now.toISOString() };
+      InspectionReminderStore.save(unsubscribed);
+      InspectionReminderStore.addConsent({
+        subscriptionId: subscription.id,
+        action: 'withdrawn',
+        source: 'web',
+        text: '',
+        createdAt: now.toISOString()
+      });
+      logger.info(`Inspection reminders unsubscribed: ${subscription.id} ${subscription.registrationNumber}`);
+      return unsubscribed;
+    });
+  }
+
+  /**
+   * Customer-facing unsubscribe link, or null when SITE_URL is not set
+   */
+  static getUnsubscribeUrl(token: string): string | null {
+    const site = process.env.SITE_URL?.replace(/\/+$/, '');
+    return site ? `${site}/katsastusmuistutus/peru/${encodeURIComponent(token)}` : null;
+  }
+
+  /**
+   * Re-check stale deadlines from the register and send the reminders that are due
+   */
+  static async runChecks(now: Date = new Date()): Promise<{ checked: number; reminded: number }> {
+    const result = { checked: 0, reminded: 0 };
+
+    for (const { subscription, token } of InspectionReminderStore.findActive()) {
+      try {
+        if (await this.refreshDeadline(subscription, now)) result.checked++;
+        if (await this.remind(subscription, token, now)) result.reminded++;
+        InspectionReminderStore.updateIfActive(subscription);
+      } catch (error) {
+        logger.error(`Inspection reminder check failed for ${subscription.id}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run the checks every INSPECTION_CHECK_MINUTES
+   */
+  static start(): void {
+    if (this.timer) return;
+
+    const intervalMs = (Number(process.env.INSPECTION_CHECK_MINUTES) || 60) * 60 * 1000;
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+    logger.info(`Inspection reminder checks every ${intervalMs / 60000} min`);
+  }
+
+  static stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private static async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const result = await this.runChecks();
+      if (result.checked || result.reminded) {
+        logger.info(`Inspection reminders: ${result.checked} deadlines checked, ${result.reminded} reminders sent`);
+      }
+    } catch (error) {
+      logger.error('Inspection reminder check error:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Fetch the deadline again when it is older than recheckHours; true when the register was asked
+   */
+  private static async refreshDeadline(subscription: InspectionSubscription, now: Date): Promise<boolean> {
+    const checkedAt = subscription.checkedAt ? new Date(subscription.checkedAt).getTime() : 0;
+    if (now.getTime() - checkedAt < this.get().recheckHours * 60 * 60 * 1000) return false;
+
+    const vehicle = await TraficomService.getVehicleData(subscription.registrationNumber);
+    if (vehicle?.inspectionExpiry && vehicle.inspectionExpiry !== subscription.inspectionDue) {
+      logger.info(`Inspection deadline of ${subscription.registrationNumber}: ${subscription.inspectionDue || 'unknown'} -> ${vehicle.inspectionExpiry}`);
+      subscription.inspectionDue = vehicle.inspectionExpiry;
+    }
+    subscription.checkedAt = now.toISOString();
+    return true;
+  }
+
+  /**
+   * Send the nearest reminder not yet sent for the current deadline; true when sent
+   */
+  private static async remind(subscription: InspectionSubscription, token: string, now: Date): Promise<boolean> {
+    const due = subscription.inspectionDue;
+    if (!due) return false;
+
+    const days = Math.round((this.parseDate(due).getTime() - this.startOfDay(now).getTime()) / DAY_MS);
+    if (days < 0) return false;
+
+    const reminderDay = [...this.get().reminderDays].sort((a, b) => a - b).find(day => days <= day);
+    if (reminderDay === undefined) return false;
+    if (subscription.remindersSent.some(sent => sent.due === due && sent.days === reminderDay)) return false;
+
+    const { offerJob } = this.get();
+    const price = QuoteEngine.priceRange(offerJob);
+    const site = process.env.SITE_URL?.replace(/\/+$/, '');
+    const [year, month, day] = due.split('-').map(Number);
+    const params = {
+      registrationNumber: subscription.registrationNumber,
+      dueDate: `${day}.${month}.${year}`,
+      days: String(days),
+      offer: QuoteEngine.getJob(offerJob)?.name,
+      price: price ? (price.min === price.max ? `${price.min} €` : `${price.min}-${price.max} €`) : undefined,
+      bookingUrl: site ? `${site}/ajanvaraus?jobs=${offerJob}` : undefined,
+      unsubscribeUrl: this.getUnsubscribeUrl(token) || undefined,
+      phone: BusinessInfo.get().phone
+    };
+
+    // The register lookup may have taken a while; skip a subscription withdrawn meanwhile
+    if (InspectionReminderStore.findByToken(token)?.status !== 'active') return false;
+
+    const channels = [
+      subscription.phone && { channel: 'sms' as const, to: subscription.phone },
+      subscription.email && { channel: 'email' as const, to: subscription.email }
+    ].filter((target): target is { channel: 'sms' | 'email'; to: string } => Boolean(target));
+    for (const target of channels) {
+      await NotificationService.enqueue({ template: 'inspection_reminder', locale: subscription.locale, params, ...target }, now);
+    }
+
+    subscription.remindersSent.push({ due, days: reminderDay, sentAt: now.toISOString() });
+    InspectionReminderStore.updateIfActive(subscription);
+    logger.info(`Inspection reminder queued: ${subscription.registrationNumber} due ${due} (${days} days)`);
+    return true;
+  }
+
+  private static parseDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private static validateReferences(config: InspectionReminderFile): void {
+    const problems: string[] = [];
+
+    if (!QuoteEngine.getJob(config.offerJob)) {
+      problems.push(`offerJob: unknown job ${config.offerJob}`);
+    }
+    if (!config.consent.fi) {
+      problems.push('consent: Finnish text is required');
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid inspection reminder rules: ${problems.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ConsentRecord, InspectionSubscription } from '../models/InspectionReminder';
+import logger from '../utils/logger';
+
+interface SubscriptionRow {
+  data: string;
+  unsubscribe_token: string;
+}
+
+interface ConsentRow {
+  subscription_id: string;
+  action: ConsentRecord['action'];
+  source: ConsentRecord['source'];
+  text: string;
+  created_at: string;
+}
+
+/**
+ * Local SQLite store for inspection reminder subscriptions and their consent
+ * records. The unsubscribe token is kept as such: every reminder carries the
+ * link, and the token only allows unsubscribing.
+ */
+export class InspectionReminderStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.INSPECTION_STORE_FILE || path.join(process.cwd(), 'data', 'inspection-reminders.sqlite');
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS subscriptions (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        registration_number TEXT NOT NULL,
+        unsubscribe_token TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions (status, registration_number);
+      CREATE TABLE IF NOT EXISTS consents (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subscription_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        source TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_consents_subscription ON consents (subscription_id);
+    `);
+
+    this.db = db;
+    logger.info(`Inspection reminder store opened: ${filePath}`);
+    return db;
+  }
+
+  static transaction<T>(fn: () => T): T {
+    return this.open().transaction(fn).immediate();
+  }
+
+  /**
+   * Active subscriptions with their unsubscribe tokens, optionally of one car
+   */
+  static findActive(registrationNumber?: string): { subscription: InspectionSubscription; token: string }[] {
+    const rows = this.open()
+      .prepare(`
+        SELECT data, unsubscribe_token FROM subscriptions
+        WHERE status = 'active' AND (@registrationNumber IS NULL OR registration_number = @registrationNumber)
+        ORDER BY registration_number
+      `)
+      .all({ registrationNumber: registrationNumber || null }) as SubscriptionRow[];
+    return rows.map(row => ({ subscription: JSON.parse(row.data) as InspectionSubscription, token: row.unsubscribe_token }));
+  }
+
+  static findByToken(token: string): InspectionSubscription | null {
+    const row = this.open()
+      .prepare('SELECT data, unsubscribe_token FROM subscriptions WHERE unsubscribe_token = ?')
+      .get(token) as SubscriptionRow | undefined;
+    return row ? JSON.parse(row.data) as InspectionSubscription : null;
+  }
+
+  /**
+   * Insert a subscription with its token, or update an existing one when no token is given
+   */
+  static save(subscription: InspectionSubscription, token?: string): void {
+    const values = {
+      id: subscription.id,
+      status: subscription.status,
+      registrationNumber: subscription.registrationNumber,
+      data: JSON.stringify(subscription),
+      updatedAt: new Date().toISOString()
+    };
+
+    if (!token) {
+      this.open().prepare(`
+        UPDATE subscriptions
+        SET status = @status, registration_number = @registrationNumber, data = @data, updated_at = @updatedAt
+        WHERE id = @id
+      `).run(values);
+      return;
+    }
+
+    this.open().prepare(`
+      INSERT INTO subscriptions (id, status, registration_number, unsubscribe_token, data, updated_at)
+      VALUES (@id, @status, @registrationNumber, @token, @data, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        registration_number = excluded.registration_number,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({ ...values, token });
+  }
+
+  /**
+   * Update a subscription only while it is still active, so a check that ran
+   * alongside an unsubscribe cannot reactivate it; false when it was not updated
+   */
+  static updateIfActive(subscription: InspectionSubscription): boolean {
+    return this.open().prepare(`
+      UPDATE subscriptions
+      SET data = @data, updated_at = @updatedAt
+      WHERE id = @id AND status = 'active'
+    `).run({
+      id: subscription.id,
+      data: JSON.stringify(subscription),
+      updatedAt: new Date().toISOString()
+    }).changes > 0;
+  }
+
+  static addConsent(record: ConsentRecord): void {
+    this.open()
+      .prepare(`
+        INSERT INTO consents (subscription_id, action, source, text, created_at)
+        VALUES (@subscriptionId, @action, @source, @text, @createdAt)
+      `)
+      .run(record);
+  }
+
+  static findConsents(subscriptionId: string): ConsentRecord[] {
+    const rows = this.open()
+      .prepare('SELECT * FROM consents WHERE subscription_id = ? ORDER BY id')
+      .all(subscriptionId) as ConsentRow[];
+    return rows.map(row => ({
+      subscriptionId: row.subscription_id,
+      action: row.action,
+      source: row.source,
+      text: row.text,
+      createdAt: row.created_at
+    }));
+  }
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { IntentService } from './IntentService';
+import { CORPUS_TODAY, MIN_ACCURACY, loadCorpus, sameSlots } from '../scripts/intentCorpus';
+
+const corpus = loadCorpus();
+
+test(`intents: at least ${MIN_ACCURACY * 100} % of the corpus is classified correctly`, async () => {
+  const misclassified: string[] = [];
+  for (const entry of corpus) {
+    const result = await IntentService.classify(entry.text, { today: CORPUS_TODAY });
+    if (result.intent !== entry.intent) misclassified.push(`${entry.text}: ${entry.intent} -> ${result.intent}`);
+  }
+
+  const accuracy = (corpus.length - misclassified.length) / corpus.length;
+  assert.ok(accuracy >= MIN_ACCURACY, `accuracy ${(accuracy * 100).toFixed(1)} %:\n${misclassified.join('\n')}`);
+});
+
+for (const entry of corpus) {
+  test(`slots: ${entry.text}`, async () => {
+    const result = await IntentService.classify(entry.text, { today: CORPUS_TODAY });
+    assert.ok(sameSlots(entry, result.slots), `expected ${JSON.stringify(entry.slots || {})}, got ${JSON.stringify(result.slots)}`);
+  });
+}
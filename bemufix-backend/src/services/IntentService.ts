@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { IntentModel, IntentModelSchema, IntentResult } from '../models/Intent';
+import type { IntentClassifier } from './intent/IntentClassifier';
+import { KeywordIntentClassifier } from './intent/KeywordIntentClassifier';
+import { SlotExtractor } from './intent/SlotExtractor';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+export type { IntentClassifier } from './intent/IntentClassifier';
+
+export interface ClassifyOptions {
+  today?: Date;
+}
+
+/**
+ * Intent pipeline for chat messages: slot extraction followed by a chain of
+ * classifiers, the offline keyword model by default
+ */
+export class IntentService {
+  private static classifiers: IntentClassifier[] | null = null;
+  private static model: IntentModel | null = null;
+
+  /**
+   * Replace the classifier chain (e.g. to put a hosted model in front of the keyword model)
+   */
+  static configure(classifiers: IntentClassifier[]): void {
+    this.classifiers = classifiers;
+  }
+
+  static getModelFile(): string {
+    return process.env.INTENT_MODEL_FILE || path.join(__dirname, '../../knowledge/intents/model.json');
+  }
+
+  static getModel(): IntentModel {
+    if (this.model) return this.model;
+
+    const file = this.getModelFile();
+    this.model = IntentModelSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    logger.info(`Loaded intent model revision ${this.model.revision} from ${file}`);
+    return this.model;
+  }
+
+  /**
+   * Read the model again and rebuild the keyword classifier from it; other
+   * configured classifiers stay. An invalid file leaves the loaded model in use.
+   */
+  static reload(): void {
+    const model = reloadKeepingPrevious(this.model, model => { this.model = model; }, () => this.getModel());
+    this.classifiers = this.classifiers?.map(classifier =>
+      classifier instanceof KeywordIntentClassifier ? new KeywordIntentClassifier(model) : classifier) ?? null;
+  }
+
+  static async classify(message: string, options: ClassifyOptions = {}): Promise<IntentResult> {
+    const slots = SlotExtractor.extract(message, options.today);
+    let result: IntentResult = { intent: 'unknown', confidence: 0, slots, classifier: 'none', scores: {} };
+
+    for (const classifier of this.getClassifiers()) {
+      try {
+        result = await classifier.classify(message, slots);
+        if (result.intent !== 'unknown') break;
+      } catch (error) {
+        logger.warn(`Intent classifier ${classifier.name} failed:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private static getClassifiers(): IntentClassifier[] {
+    if (!this.classifiers) {
+      this.classifiers = [new KeywordIntentClassifier(this.getModel())];
+    }
+    return this.classifiers;
+  }
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { BMWModelCatalog } from './BMWModelCatalog';
+import { BookingService } from './BookingService';
+import { BusinessInfo } from './BusinessInfo';
+import { DialogueManager } from './DialogueManager';
+import { DtcService } from './DtcService';
+import { InspectionReminderService } from './InspectionReminderService';
+import { IntentService } from './IntentService';
+import { MaintenancePlanner } from './MaintenancePlanner';
+import { NotificationService } from './NotificationService';
+import { QuoteEngine } from './QuoteEngine';
+import { TriageService } from './TriageService';
+import { ValuationService } from './ValuationService';
+import { VinDecoder } from './VinDecoder';
+import logger from '../utils/logger';
+
+interface KnowledgeSource {
+  name: string;
+  file: () => string;
+  // Sources this one refers to, e.g. job ids in the price list
+  dependsOn?: string[];
+  // Throws when the new file is invalid; the loaded version stays in use
+  reload: () => void;
+}
+
+export interface KnowledgeReloadResult {
+  source: string;
+  file: string;
+  ok: boolean;
+  error?: string;
+}
+
+// In dependency order: a source comes after the sources it refers to
+const SOURCES: KnowledgeSource[] = [
+  { name: 'business', file: () => BusinessInfo.getFile(), reload: () => BusinessInfo.reload() },
+  { name: 'pricing', file: () => QuoteEngine.getPricingFile(), reload: () => QuoteEngine.reload() },
+  {
+    name: 'bmw-models',
+    file: () => BMWModelCatalog.getDirectory(),
+    reload: () => {
+      if (!BMWModelCatalog.reload()) throw new Error('Catalogue rejected, see the log for the failing files');
+    }
+  },
+  { name: 'booking', file: () => BookingService.getFile(), dependsOn: ['pricing'], reload: () => BookingService.reload() },
+  { name: 'dialogue', file: () => DialogueManager.getFlowsFile(), reload: () => DialogueManager.reload() },
+  { name: 'dtc', file: () => DtcService.getFile(), dependsOn: ['pricing'], reload: () => DtcService.reload() },
+  {
+    name: 'inspection',
+    file: () => InspectionReminderService.getFile(),
+    dependsOn: ['pricing'],
+    reload: () => InspectionReminderService.reload()
+  },
+  { name: 'intents', file: () => IntentService.getModelFile(), reload: () => IntentService.reload() },
+  { name: 'maintenance', file: () => MaintenancePlanner.getItemsFile(), reload: () => MaintenancePlanner.reload() },
+  { name: 'notifications', file: () => NotificationService.getFile(), reload: () => NotificationService.reload() },
+  { name: 'triage', file: () => TriageService.getFile(), dependsOn: ['pricing'], reload: () => TriageService.reload() },
+  { name: 'valuation', file: () => ValuationService.getSalesFile(), reload: () => ValuationService.reload() },
+  { name: 'vin', file: () => VinDecoder.getTableFile(), reload: () => VinDecoder.reload() }
+];
+
+export class UnknownKnowledgeSourceError extends Error {
+  constructor(readonly sources: string[]) {
+    super(`Unknown knowledge sources: ${sources.join(', ')}`);
+    this.name = 'UnknownKnowledgeSourceError';
+  }
+}
+
+/**
+ * The knowledge files under knowledge/ as one unit for operations. Each
+ * source reloads on its own: an invalid file is reported and its previous
+ * version kept, while the other sources still reload.
+ */
+export class KnowledgeBase {
+  static getSources(): string[] {
+    return SOURCES.map(source => source.name);
+  }
+
+  /**
+   * Reload the named sources, or all of them, in dependency order. Sources
+   * that refer to a reloaded one are reloaded after it too, so a removed job
+   * shows up as a failing reference instead of going unnoticed.
+   */
+  static reload(names: string[] = this.getSources()): KnowledgeReloadResult[] {
+    const unknown = names.filter(name => !SOURCES.some(source => source.name === name));
+    if (unknown.length > 0) {
+      throw new UnknownKnowledgeSourceError(unknown);
+    }
+
+    const selected = new Set(names);
+    for (const source of SOURCES) {
+      if (source.dependsOn?.some(name => selected.has(name))) selected.add(source.name);
+    }
+
+    return SOURCES.filter(source => selected.has(source.name)).map(source => {
+      try {
+        source.reload();
+        return { source: source.name, file: source.file(), ok: true };
+      } catch (error) {
+        const message = error instanceof z.ZodError
+          ? error.issues.map(issue => `${issue.path.join('.') || '(file)'}: ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : String(error);
+        logger.error(`Knowledge reload of ${source.name} rejected, keeping the loaded version: ${message}`);
+        return { source: source.name, file: source.file(), ok: false, error: message };
+      }
+    });
+  }
+}
@@ -0,0 +1,200 @@
+import type { Vehicle } from '../models/Vehicle';
+import type { LLMMessage, LLMProvider, LLMRequest } from './llm/LLMProvider';
+import { AnthropicProvider } from './llm/AnthropicProvider';
+import { LocalStubProvider } from './llm/LocalStubProvider';
+import { BusinessInfo } from './BusinessInfo';
+import { QuoteEngine } from './QuoteEngine';
+import { BMWIntelligence } from './BMWIntelligence';
+import { estimateTokens, truncateToTokens } from '../utils/tokens';
+import logger from '../utils/logger';
+
+export type { LLMProvider, LLMMessage, LLMRequest, LLMResponse } from './llm/LLMProvider';
+
+export interface ResponderContext {
+  // Earlier turns of the session, oldest first, without the current question
+  history: LLMMessage[];
+  vehicle?: Vehicle;
+  // Tokens this session has already spent
+  tokensUsed?: number;
+}
+
+export interface ResponderAnswer {
+  text: string;
+  model: string;
+  provider: string;
+  tokens: number;
+}
+
+export interface TokenBudget {
+  prompt: number;
+  output: number;
+  session: number;
+}
+
+const INSTRUCTIONS = `Olet Bemufixin, helsinkiläisen BMW-erikoiskorjaamon, asiakaspalvelija chatissa.
+Vastaa suomeksi, ystävällisesti ja lyhyesti (enintään muutama kappale).
+Käytä vain alla annettuja tietoja asiakkaan autosta, korjaamosta ja hinnoista. Älä keksi hintoja, aikoja tai teknisiä tietoja.
+Jos tieto puuttuu tai asia vaatii auton tarkastuksen, ohjaa asiakas soittamaan tai varaamaan ajan.`;
+
+/**
+ * Free-form chat answers from a language model, grounded in the session's
+ * vehicle, its BMW intelligence and the workshop's own data, within a token budget
+ */
+export class LLMResponder {
+  private static provider: LLMProvider | null | undefined;
+
+  /**
+   * Replace the provider (null disables model answers)
+   */
+  static configure(provider: LLMProvider | null): void {
+    this.provider = provider;
+  }
+
+  static getBudget(): TokenBudget {
+    return {
+      prompt: Number(process.env.LLM_MAX_PROMPT_TOKENS) || 2000,
+      output: Number(process.env.LLM_MAX_OUTPUT_TOKENS) || 300,
+      session: Number(process.env.LLM_SESSION_TOKEN_BUDGET) || 10000
+    };
+  }
+
+  static isEnabled(): boolean {
+    return Boolean(this.getProvider()?.isAvailable());
+  }
+
+  /**
+   * Answer a question, or null when no provider is available, the session has
+   * spent its budget or the call fails; the caller then uses a templated reply.
+   * `onToken` receives the answer as it is generated.
+   */
+  static async respond(question: string, context: ResponderContext, onToken?: (text: string) => void): Promise<ResponderAnswer | null> {
+    const provider = this.getProvider();
+    if (!provider?.isAvailable()) return null;
+
+    const budget = this.getBudget();
+    const request = this.buildRequest(question, context, budget);
+    const promptTokens = estimateTokens(request.system) + request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+    if ((context.tokensUsed || 0) + promptTokens + budget.output > budget.session) {
+      logger.warn(`LLM session token budget of ${budget.session} spent, using templated reply`);
+      return null;
+    }
+
+    try {
+      const response = await provider.complete(request, onToken);
+      if (!response.text) return null;
+
+      return {
+        text: response.text,
+        model: response.model,
+        provider: provider.name,
+        tokens: response.inputTokens + response.outputTokens
+      };
+    } catch (error) {
+      logger.error(`LLM provider ${provider.name} failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fit instructions, grounding and history into the prompt budget. Grounding
+   * sections are added in priority order, then as many recent turns as still fit.
+   */
+  static buildRequest(question: string, context: ResponderContext, budget: TokenBudget = this.getBudget()): LLMRequest {
+    const content = truncateToTokens(question, Math.floor(budget.prompt / 4));
+    let remaining = budget.prompt - estimateTokens(INSTRUCTIONS) - estimateTokens(content);
+
+    const sections: string[] = [];
+    for (const section of this.buildGrounding(context.vehicle)) {
+      const tokens = estimateTokens(section);
+      if (tokens > remaining) continue;
+      sections.push(section);
+      remaining -= tokens;
+    }
+
+    const history: LLMMessage[] = [];
+    for (const message of [...context.history].reverse()) {
+      const tokens = estimateTokens(message.content);
+      if (tokens > remaining) break;
+      history.unshift(message);
+      remaining -= tokens;
+    }
+
+    // Conversations start with the customer
+    while (history.length > 0 && history[0].role !== 'user') history.shift();
+
+    return {
+      system: [INSTRUCTIONS, ...sections].join('\n\n'),
+      messages: [...history, { role: 'user', content }],
+      maxTokens: budget.output
+    };
+  }
+
+  /**
+   * Grounding context, most important first
+   */
+  private static buildGrounding(vehicle?: Vehicle): string[] {
+    const sections: string[] = [];
+    const business = BusinessInfo.get();
+
+    if (vehicle) {
+      sections.push([
+        `Auto: ${vehicle.make} ${vehicle.model}${vehicle.modelYear ? ` (${vehicle.modelYear})` : ''}, ${vehicle.registrationNumber}`,
+        vehicle.fuelType && `Käyttövoima: ${vehicle.fuelType}`,
+        vehicle.engineDisplacement && `Moottori: ${vehicle.engineDisplacement} cc${vehicle.enginePower ? `, ${vehicle.enginePower} kW` : ''}`,
+        vehicle.odometer !== undefined && `Mittarilukema: ${vehicle.odometer} km`,
+        vehicle.inspectionExpiry && `Katsastus voimassa: ${vehicle.inspectionExpiry}`
+      ].filter(Boolean).join('\n'));
+    }
+
+    const intelligence = vehicle?.bmwSpecific;
+    if (intelligence) {
+      sections.push([
+        `BMW-tiedot: ${intelligence.generation} (${intelligence.chassisCode}), moottori ${intelligence.engineCode}`,
+        `Suositeltu öljy: ${intelligence.recommendedOil}, öljymäärä ${intelligence.oilCapacity}`,
+        `Huoltoväli: ${intelligence.serviceIntervals}`,
+        intelligence.commonIssues.length > 0 && `Mallin tyypilliset viat: ${intelligence.commonIssues.join('; ')}`,
+        intelligence.specialNotes && `Huomioitavaa: ${intelligence.specialNotes}`
+      ].filter(Boolean).join('\n'));
+    }
+
+    sections.push([
+      `Korjaamo: ${business.name}, ${BusinessInfo.formatAddress()}`,
+      `Aukioloajat: ${BusinessInfo.formatOpeningHours()}`,
+      `Puhelin: ${business.phone}, sähköposti: ${business.email}`
+    ].join('\n'));
+
+    const pricing = QuoteEngine.getPricing();
+    const context = vehicle ? BMWIntelligence.getQuoteContext(vehicle) : {};
+    const prices = pricing.jobs.map(job => {
+      const range = QuoteEngine.priceRange(job.id, context);
+      return range ? `${job.name}: ${range.min === range.max ? range.min : `${range.min}-${range.max}`} €` : null;
+    }).filter(Boolean);
+    sections.push(`Hinnasto (sis. alv, työtuntihinta ${pricing.shopRate} €/h alv 0 %):\n${prices.join('\n')}`);
+
+    return sections;
+  }
+
+  private static getProvider(): LLMProvider | null {
+    if (this.provider !== undefined) return this.provider;
+
+    const configured = process.env.LLM_PROVIDER || (process.env.NODE_ENV === 'test' ? 'stub' : 'anthropic');
+    switch (configured) {
+      case 'anthropic':
+        this.provider = new AnthropicProvider();
+        break;
+      case 'stub':
+        this.provider = new LocalStubProvider();
+        break;
+      case 'none':
+        this.provider = null;
+        break;
+      default:
+        logger.warn(`Unknown LLM provider: ${configured}`);
+        this.provider = null;
+    }
+
+    logger.info(`LLM provider: ${this.provider?.name || 'none'}`);
+    return this.provider;
+  }
+}
@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+import type { BMWModel, CostRange, FuelKind } from '../models/BMWModel';
+import type { Vehicle } from '../models/Vehicle';
+import {
+  MaintenancePlan,
+  MaintenancePriority,
+  MaintenanceScheduleEntry,
+  MaintenanceStatus,
+  ServiceItem,
+  ServiceItemsFileSchema,
+  ServiceRecord,
+  Transmission
+} from '../models/Maintenance';
+import { BMWModelMatcher } from './BMWModelMatcher';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+export interface MaintenancePlanOptions {
+  history?: ServiceRecord[];
+  odometer?: number;
+  transmission?: Transmission;
+  today?: Date;
+}
+
+export type PlannableVehicle = Pick<Vehicle, 'modelYear' | 'firstRegistration' | 'odometer' | 'fuelType'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER: Record<MaintenanceStatus, number> = { 'overdue': 0, 'no-record': 1, 'due-soon': 2, 'ok': 3 };
+const PRIORITY_ORDER: Record<MaintenancePriority, number> = { High: 0, Medium: 1, Low: 2 };
+
+/**
+ * Builds a dated, prioritised service schedule from per-model service items,
+ * the last-done records and the odometer, similar to BMW Condition Based Service.
+ */
+export class MaintenancePlanner {
+  private static items: ServiceItem[] | null = null;
+  private static readonly DUE_SOON_DAYS = 60;
+  private static readonly DUE_SOON_KM = 3000;
+  private static readonly DEFAULT_ANNUAL_KM = 15000;
+
+  static getItemsFile(): string {
+    return process.env.SERVICE_ITEMS_FILE || path.join(__dirname, '../../knowledge/maintenance/service-items.json');
+  }
+
+  /**
+   * Default items with the model's overrides applied
+   */
+  static getServiceItems(model: BMWModel | null): ServiceItem[] {
+    const overrides = new Map((model?.serviceItems || []).map(override => [override.id, override]));
+
+    return this.getDefaultItems()
+      .filter(item => !overrides.get(item.id)?.skip)
+      .map(item => {
+        const override = overrides.get(item.id);
+        if (!override) return item;
+        return {
+          ...item,
+          kmInterval: override.kmInterval !== undefined ? override.kmInterval : item.kmInterval,
+          months: override.months !== undefined ? override.months : item.months,
+          cost: override.cost || item.cost,
+          note: override.note || item.note
+        };
+      });
+  }
+
+  /**
+   * Plan every applicable service item for the vehicle
+   */
+  static plan(vehicle: PlannableVehicle, model: BMWModel | null, options: MaintenancePlanOptions = {}): MaintenancePlan {
+    const today = this.startOfDay(options.today || new Date());
+    const odometer = options.odometer ?? vehicle.odometer ?? null;
+    const registered = this.registrationDate(vehicle);
+    const annualKm = this.estimateAnnualKm(odometer, registered, today);
+    const fuel = BMWModelMatcher.fuelFromRegister(vehicle.fuelType) || this.modelFuel(model);
+
+    const entries = this.getServiceItems(model)
+      .filter(item => !fuel || !item.fuels || item.fuels.includes(fuel))
+      .filter(item => !options.transmission || !item.transmissions || item.transmissions.includes(options.transmission))
+      .map(item => this.planItem(item, this.lastDone(item, options.history), { today, odometer, registered, annualKm, transmission: options.transmission }))
+      .sort((a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+        (a.dueDate || '9999').localeCompare(b.dueDate || '9999'));
+
+    const dueNow = entries.filter(entry => entry.status !== 'ok');
+
+    return {
+      generatedAt: new Date().toISOString(),
+      odometer,
+      annualKm,
+      model: model ? { generation: model.generation, model: model.model } : null,
+      entries,
+      dueNowCost: {
+        min: dueNow.reduce((sum, entry) => sum + entry.cost.min, 0),
+        max: dueNow.reduce((sum, entry) => sum + entry.cost.max, 0)
+      }
+    };
+  }
+
+  private static planItem(
+    item: ServiceItem,
+    record: ServiceRecord | null,
+    context: { today: Date; odometer: number | null; registered: Date | null; annualKm: number; transmission?: Transmission }
+  ): MaintenanceScheduleEntry {
+    const { today, odometer, registered, annualKm } = context;
+
+    // Without a record, count from first registration at 0 km
+    const baseDate = record ? this.parseDate(record.date) : registered;
+    const baseOdometer = record ? record.odometer ?? null : 0;
+
+    const dueOdometer = item.kmInterval !== null && baseOdometer !== null ? baseOdometer + item.kmInterval : null;
+    const remainingKm = dueOdometer !== null && odometer !== null ? dueOdometer - odometer : null;
+
+    // Earliest of the time limit and the date the km limit is reached at the current driving rate
+    const candidates: Date[] = [];
+    if (item.months !== null && baseDate) {
+      candidates.push(this.addMonths(baseDate, item.months));
+    }
+    if (remainingKm !== null) {
+      candidates.push(new Date(today.getTime() + Math.round(remainingKm / annualKm * 365) * DAY_MS));
+    }
+    const due = candidates.length > 0 ? new Date(Math.min(...candidates.map(date => date.getTime()))) : null;
+    const remainingDays = due ? Math.round((due.getTime() - today.getTime()) / DAY_MS) : null;
+
+    const overdue = (remainingDays !== null && remainingDays < 0) || (remainingKm !== null && remainingKm < 0);
+    const dueSoon = (remainingDays !== null && remainingDays <= this.DUE_SOON_DAYS) || (remainingKm !== null && remainingKm <= this.DUE_SOON_KM);
+
+    let status: MaintenanceStatus = 'ok';
+    if (overdue) status = record ? 'overdue' : 'no-record';
+    else if (dueSoon) status = 'due-soon';
+
+    // Limits counted from registration say nothing once passed; the item is due now
+    const noRecord = status === 'no-record';
+
+    const notes = [item.note];
+    if (noRecord) notes.push('No service record - check or renew at next visit');
+    if (item.transmissions && !context.transmission) notes.push('Only for automatic or DCT gearboxes');
+
+    return {
+      item: item.id,
+      service: item.name,
+      status,
+      priority: this.priority(item.priority, status),
+      dueDate: noRecord ? this.formatDate(today) : due ? this.formatDate(due) : null,
+      dueOdometer: noRecord ? odometer : dueOdometer,
+      remainingDays: noRecord ? 0 : remainingDays,
+      remainingKm: noRecord && odometer !== null ? 0 : remainingKm,
+      lastDone: record,
+      cost: item.cost,
+      estimatedCost: this.formatCost(item.cost),
+      note: notes.filter(Boolean).join('. ') || undefined
+    };
+  }
+
+  private static priority(base: MaintenancePriority, status: MaintenanceStatus): MaintenancePriority {
+    switch (status) {
+      case 'overdue':
+        return 'High';
+      case 'due-soon':
+        return base === 'High' ? 'High' : 'Medium';
+      case 'no-record':
+        return base;
+      default:
+        return 'Low';
+    }
+  }
+
+  /**
+   * Latest record for the item
+   */
+  private static lastDone(item: ServiceItem, history: ServiceRecord[] = []): ServiceRecord | null {
+    return history
+      .filter(record => record.item === item.id)
+      .sort((a, b) => b.date.localeCompare(a.date))[0] || null;
+  }
+
+  /**
+   * Kilometres per year from the odometer and vehicle age, clamped to a sensible range
+   */
+  private static estimateAnnualKm(odometer: number | null, registered: Date | null, today: Date): number {
+    if (!odometer || !registered) return this.DEFAULT_ANNUAL_KM;
+
+    const years = Math.max((today.getTime() - registered.getTime()) / (365 * DAY_MS), 0.5);
+    return Math.min(Math.max(Math.round(odometer / years / 100) * 100, 5000), 60000);
+  }
+
+  private static registrationDate(vehicle: PlannableVehicle): Date | null {
+    if (vehicle.firstRegistration) return this.parseDate(vehicle.firstRegistration);
+    if (vehicle.modelYear) return new Date(Date.UTC(vehicle.modelYear, 6, 1));
+    return null;
+  }
+
+  private static modelFuel(model: BMWModel | null): FuelKind | undefined {
+    const fuels = new Set(model?.engines?.map(engine => engine.fuel));
+    return fuels.size === 1 ? [...fuels][0] : undefined;
+  }
+
+  private static getDefaultItems(): ServiceItem[] {
+    if (this.items) return this.items;
+
+    const file = this.getItemsFile();
+    this.items = ServiceItemsFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8'))).items;
+    logger.info(`Loaded ${this.items.length} service items from ${file}`);
+    return this.items;
+  }
+
+  /**
+   * Read the service items again, keeping the loaded items if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.items, items => { this.items = items; }, () => this.getDefaultItems());
+  }
+
+  private static parseDate(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  }
+
+  private static addMonths(date: Date, months: number): Date {
+    const result = new Date(date.getTime());
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return result;
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static formatCost(cost: CostRange): string {
+    return `€${cost.min}-${cost.max}`;
+  }
+}
@@ -0,0 +1,419 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  NotificationChannel,
+  NotificationJob,
+  NotificationLocale,
+  NotificationTemplateId,
+  NotificationTemplatesFile,
+  NotificationTemplatesFileSchema,
+  OutgoingMessage
+} from '../models/Notification';
+import type { ContactInquiry } from '../models/Contact';
+import type { Reservation } from '../models/Booking';
+import type { NotificationAdapter } from './notifications/NotificationAdapter';
+import { OutboxAdapter } from './notifications/OutboxAdapter';
+import { SmsGatewayAdapter } from './notifications/SmsGatewayAdapter';
+import { SmtpAdapter } from './notifications/SmtpAdapter';
+import { BookingService } from './BookingService';
+import { BookingStore } from './BookingStore';
+import { BusinessInfo } from './BusinessInfo';
+import { MaintenancePlanner } from './MaintenancePlanner';
+import { QuoteEngine } from './QuoteEngine';
+import { RedisService } from './RedisService';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+import { wallClock, zonedDate } from '../utils/timeZone';
+
+export type { NotificationAdapter, OutgoingMessage } from './notifications/NotificationAdapter';
+
+const QUEUE_KEY = 'notifications:queue';
+// Jobs that ran out of attempts, kept for inspection
+const FAILED_KEY = 'notifications:failed';
+
+// Wait before each retry; the job fails after the last one
+const RETRY_DELAYS_MS = [60, 5 * 60, 30 * 60, 2 * 60 * 60].map(seconds => seconds * 1000);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface NotificationRequest {
+  template: NotificationTemplateId;
+  channel: NotificationChannel;
+  to: string;
+  locale?: NotificationLocale;
+  params: Record<string, string | undefined>;
+}
+
+/**
+ * Templated customer and staff messages over email and SMS. Messages go
+ * through a Redis list and are retried with a growing delay; when no store
+ * is available they are sent right away, once.
+ */
+export class NotificationService {
+  private static templates: NotificationTemplatesFile | null = null;
+  private static adapters: Partial<Record<NotificationChannel, NotificationAdapter | null>> = {};
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  static getFile(): string {
+    return process.env.NOTIFICATION_TEMPLATES_FILE || path.join(__dirname, '../../knowledge/notifications/templates.json');
+  }
+
+  static get(): NotificationTemplatesFile {
+    if (this.templates) return this.templates;
+
+    const file = this.getFile();
+    const templates = NotificationTemplatesFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    this.validateReferences(templates);
+
+    this.templates = templates;
+    logger.info(`Loaded notification templates revision ${templates.revision} from ${file}`);
+    return templates;
+  }
+
+  /**
+   * Read the templates again, keeping the loaded ones if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.templates, templates => { this.templates = templates; }, () => this.get());
+  }
+
+  /**
+   * Replace the adapter of a channel (null disables the channel)
+   */
+  static configure(channel: NotificationChannel, adapter: NotificationAdapter | null): void {
+    this.adapters[channel] = adapter;
+  }
+
+  /**
+   * Fill in a template for one channel and language
+   */
+  static render(request: NotificationRequest): OutgoingMessage {
+    const template = this.get().templates[request.template];
+    if (!template) throw new Error(`Unknown notification template: ${request.template}`);
+
+    const texts = template[request.locale || 'fi'];
+    const fill = (text: string) => text
+      .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) => request.params[name] ? inner : '')
+      .replace(/\{\{\^(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, inner: string) => request.params[name] ? '' : inner)
+      .replace(/\{\{(\w+)\}\}/g, (_, name: string) => request.params[name] || '');
+
+    return request.channel === 'email'
+      ? { channel: 'email', to: request.to, subject: fill(texts.subject), text: fill(texts.email) }
+      : { channel: 'sms', to: request.to, text: fill(texts.sms) };
+  }
+
+  /**
+   * Queue a message for delivery. Returns false when it could not be queued
+   * nor sent right away.
+   */
+  static async enqueue(request: NotificationRequest, now: Date = new Date()): Promise<boolean> {
+    // Render once up front so a broken template fails here and not in the queue
+    this.render(request);
+
+    const job: NotificationJob = {
+      id: uuidv4(),
+      template: request.template,
+      channel: request.channel,
+      to: request.to,
+      locale: request.locale || 'fi',
+      params: Object.fromEntries(Object.entries(request.params).filter((entry): entry is [string, string] => Boolean(entry[1]))),
+      attempts: 0,
+      notBefore: now.toISOString(),
+      createdAt: now.toISOString()
+    };
+
+    if (await RedisService.lpush(QUEUE_KEY, JSON.stringify(job)) !== null) {
+      return true;
+    }
+
+    logger.warn(`Notification queue unavailable, sending ${job.template} ${job.channel} directly`);
+    try {
+      await this.deliver(job);
+      return true;
+    } catch (error) {
+      logger.error(`Notification ${job.id} (${job.template}) failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send the due jobs of the oldest `batchSize` in the queue. Jobs are read
+   * before they are removed, so a crash sends them again rather than losing them.
+   */
+  static async processQueue(now: Date = new Date(), batchSize = 50): Promise<{ sent: number; retried: number; failed: number }> {
+    const result = { sent: 0, retried: 0, failed: 0 };
+    const items = await RedisService.lrange(QUEUE_KEY, -batchSize, -1);
+    if (items.length === 0) return result;
+
+    // New jobs are pushed to the head, so the tail read above can be trimmed off afterwards
+    const requeue: NotificationJob[] = [];
+    for (const item of [...items].reverse()) {
+      let job: NotificationJob;
+      try {
+        job = JSON.parse(item) as NotificationJob;
+      } catch {
+        logger.warn(`Dropping malformed notification job: ${item.slice(0, 100)}`);
+        continue;
+      }
+
+      if (job.notBefore > now.toISOString()) {
+        requeue.push(job);
+        continue;
+      }
+
+      try {
+        await this.deliver(job);
+        result.sent++;
+      } catch (error) {
+        job.attempts++;
+        job.lastError = error instanceof Error ? error.message : String(error);
+
+        if (job.attempts > RETRY_DELAYS_MS.length) {
+          logger.error(`Notification ${job.id} (${job.template} ${job.channel}) failed after ${job.attempts} attempts: ${job.lastError}`);
+          await RedisService.lpush(FAILED_KEY, JSON.stringify(job));
+          result.failed++;
+        } else {
+          logger.warn(`Notification ${job.id} (${job.template} ${job.channel}) failed, retrying: ${job.lastError}`);
+          job.notBefore = new Date(now.getTime() + RETRY_DELAYS_MS[job.attempts - 1]).toISOString();
+          requeue.push(job);
+          result.retried++;
+        }
+      }
+    }
+
+    await RedisService.ltrim(QUEUE_KEY, 0, -items.length - 1);
+    for (const job of requeue) {
+      await RedisService.lpush(QUEUE_KEY, JSON.stringify(job));
+    }
+    return result;
+  }
+
+  /**
+   * Process the queue and queue booking reminders every NOTIFY_POLL_SECONDS
+   */
+  static start(): void {
+    if (this.timer) return;
+
+    const intervalMs = (Number(process.env.NOTIFY_POLL_SECONDS) || 30) * 1000;
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+    logger.info(`Notification worker started, polling every ${intervalMs / 1000} s`);
+  }
+
+  static stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Confirmation to the customer by SMS, and by email when given
+   */
+  static async notifyBookingConfirmed(reservation: Reservation, cancelUrl: string | null): Promise<void> {
+    const params = {
+      ...this.bookingParams(reservation),
+      end: reservation.end,
+      work: this.describeWork(reservation),
+      cancelUrl: cancelUrl || undefined
+    };
+    await this.notifyCustomer(reservation, 'booking_confirmed', params);
+  }
+
+  /**
+   * Reminder about 24 h before a confirmed appointment
+   */
+  static async notifyBookingReminder(reservation: Reservation): Promise<void> {
+    await this.notifyCustomer(reservation, 'booking_reminder', this.bookingParams(reservation));
+  }
+
+  /**
+   * Pick-up message when the work on the car is done
+   */
+  static async notifyCarReady(reservation: Reservation): Promise<void> {
+    await this.notifyCustomer(reservation, 'car_ready', {
+      ...this.bookingParams(reservation),
+      registrationNumber: reservation.registrationNumber
+    });
+  }
+
+  /**
+   * Chat booking that could not be saved, to the workshop for confirming by
+   * phone. `details` is the summary the customer was shown.
+   */
+  static async notifyBookingRequest(details: string, phone: string, now: Date = new Date()): Promise<boolean> {
+    return this.enqueue({
+      template: 'booking_request',
+      channel: 'email',
+      to: process.env.NOTIFY_STAFF_EMAIL || BusinessInfo.get().email,
+      params: { details, phone, receivedAt: this.formatDateTime(now) }
+    }, now);
+  }
+
+  /**
+   * Contact form message to the workshop (NOTIFY_STAFF_EMAIL, default the
+   * workshop's public address)
+   */
+  static async notifyContactReceived(inquiry: ContactInquiry): Promise<boolean> {
+    return this.enqueue({
+      template: 'contact_received',
+      channel: 'email',
+      to: process.env.NOTIFY_STAFF_EMAIL || BusinessInfo.get().email,
+      params: {
+        name: inquiry.name,
+        phone: inquiry.phone,
+        email: inquiry.email,
+        message: inquiry.message,
+        receivedAt: this.formatDateTime(new Date(inquiry.createdAt))
+      }
+    });
+  }
+
+  /**
+   * Queue reminders for confirmed appointments starting within 24 h. Bookings
+   * made less than a day ahead got their confirmation recently and are skipped.
+   */
+  static async queueBookingReminders(now: Date = new Date()): Promise<number> {
+    const until = new Date(now.getTime() + 24 * HOUR_MS);
+    const due = BookingStore.findConfirmed(zonedDate(now), zonedDate(until)).filter(reservation => {
+      const startsAt = BookingService.startsAt(reservation).getTime();
+      const confirmedAt = reservation.confirmedAt ? new Date(reservation.confirmedAt).getTime() : 0;
+      return !reservation.reminderQueuedAt
+        && startsAt > now.getTime() && startsAt <= until.getTime()
+        && startsAt - confirmedAt > 24 * HOUR_MS;
+    });
+
+    for (const reservation of due) {
+      await this.notifyBookingReminder(reservation);
+      // Only mark the reminder on the current row, so a cancellation made meanwhile stays
+      BookingStore.transaction(() => {
+        const current = BookingStore.findById(reservation.id);
+        if (current) BookingStore.save({ ...current, reminderQueuedAt: now.toISOString() });
+      });
+    }
+    return due.length;
+  }
+
+  private static async tick(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.queueBookingReminders();
+      const result = await this.processQueue();
+      if (result.sent || result.retried || result.failed) {
+        logger.info(`Notifications: ${result.sent} sent, ${result.retried} retried, ${result.failed} failed`);
+      }
+    } catch (error) {
+      logger.error('Notification worker error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private static async deliver(job: NotificationJob): Promise<void> {
+    const adapter = this.getAdapter(job.channel);
+    if (!adapter) {
+      logger.warn(`No ${job.channel} adapter, dropping notification ${job.id} (${job.template})`);
+      return;
+    }
+    await adapter.send(this.render(job));
+  }
+
+  private static async notifyCustomer(reservation: Reservation, template: NotificationTemplateId, params: Record<string, string | undefined>): Promise<void> {
+    const customer = reservation.customer;
+    if (!customer) return;
+
+    const locale = customer.locale || 'fi';
+    await this.enqueue({ template, channel: 'sms', to: customer.phone, locale, params });
+    if (customer.email) {
+      await this.enqueue({ template, channel: 'email', to: customer.email, locale, params });
+    }
+  }
+
+  private static bookingParams(reservation: Reservation): Record<string, string | undefined> {
+    const business = BusinessInfo.get();
+    const [year, month, day] = reservation.date.split('-').map(Number);
+    return {
+      name: reservation.customer?.name || '',
+      date: `${day}.${month}.${year}`,
+      start: reservation.start,
+      address: `${business.address.street}, ${business.address.city}`,
+      phone: business.phone
+    };
+  }
+
+  /**
+   * Names of the booked jobs and maintenance items, as in the price list
+   */
+  private static describeWork(reservation: Reservation): string | undefined {
+    const items = MaintenancePlanner.getServiceItems(null);
+    const names = [
+      ...reservation.jobs.map(id => QuoteEngine.getJob(id)?.name || id),
+      ...reservation.serviceItems.map(id => items.find(item => item.id === id)?.name || id)
+    ];
+    return names.length > 0 ? [...new Set(names)].join(', ') : undefined;
+  }
+
+  private static getAdapter(channel: NotificationChannel): NotificationAdapter | null {
+    const configured = this.adapters[channel];
+    if (configured !== undefined) return configured;
+
+    const variable = channel === 'email' ? 'NOTIFY_EMAIL_ADAPTER' : 'NOTIFY_SMS_ADAPTER';
+    const name = process.env[variable] || (process.env.NODE_ENV === 'production' ? (channel === 'email' ? 'smtp' : 'gateway') : 'outbox');
+
+    let adapter: NotificationAdapter | null;
+    switch (name) {
+      case 'smtp':
+        adapter = channel === 'email' ? new SmtpAdapter() : null;
+        break;
+      case 'gateway':
+        adapter = channel === 'sms' ? new SmsGatewayAdapter() : null;
+        break;
+      case 'outbox':
+        adapter = new OutboxAdapter(channel);
+        break;
+      case 'none':
+        adapter = null;
+        break;
+      default:
+        adapter = null;
+    }
+
+    if (adapter && !adapter.isAvailable()) {
+      logger.warn(`${channel} adapter ${adapter.name} is not configured`);
+      adapter = null;
+    } else if (!adapter && name !== 'none') {
+      logger.warn(`Unknown ${channel} adapter: ${name}`);
+    }
+
+    this.adapters[channel] = adapter;
+    logger.info(`Notification ${channel} adapter: ${adapter?.name || 'none'}`);
+    return adapter;
+  }
+
+  private static formatDateTime(date: Date): string {
+    const { year, month, day, hour, minute } = wallClock(date);
+    return `${day}.${month}.${year} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  }
+
+  private static validateReferences(templates: NotificationTemplatesFile): void {
+    const problems: string[] = [];
+
+    for (const [id, template] of Object.entries(templates.templates)) {
+      for (const locale of ['fi', 'en'] as const) {
+        for (const [field, text] of Object.entries(template[locale])) {
+          for (const match of text.matchAll(/\{\{[#^/]?(\w+)\}\}/g)) {
+            if (!template.params.includes(match[1])) {
+              problems.push(`${id}.${locale}.${field}: unknown param ${match[1]}`);
+            }
+          }
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid notification templates: ${problems.join('; ')}`);
+    }
+  }
+}
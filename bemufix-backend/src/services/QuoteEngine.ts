@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+import type { PartsPriceLevel } from '../models/Vehicle';
+import { PricingFile, PricingFileSchema, QuoteContext, QuoteLine, RepairJob, RepairQuote } from '../models/Quote';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+/**
+ * Thrown when a quote asks for a job id that is not in the price list
+ */
+export class UnknownRepairJobError extends Error {
+  constructor(readonly jobIds: string[]) {
+    super(`Unknown repair job: ${jobIds.join(', ')}`);
+    this.name = 'UnknownRepairJobError';
+  }
+}
+
+/**
+ * Builds itemised repair quotes from model-specific labour hours, the shop rate,
+ * the parts price level, consumables and VAT. The chat bot, the website and
+ * the quote API all read prices from here.
+ */
+export class QuoteEngine {
+  private static pricing: PricingFile | null = null;
+  private static readonly DEFAULT_PRICE_LEVEL: PartsPriceLevel = 'Medium';
+
+  static getPricingFile(): string {
+    return process.env.PRICING_FILE || path.join(__dirname, '../../knowledge/pricing/pricing.json');
+  }
+
+  static getPricing(): PricingFile {
+    if (this.pricing) return this.pricing;
+
+    const file = this.getPricingFile();
+    this.pricing = PricingFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    logger.info(`Loaded ${this.pricing.jobs.length} repair jobs from ${file}`);
+    return this.pricing;
+  }
+
+  /**
+   * Read the price list again, keeping the loaded one if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.pricing, pricing => { this.pricing = pricing; }, () => this.getPricing());
+  }
+
+  static getJob(jobId: string): RepairJob | undefined {
+    return this.getPricing().jobs.find(job => job.id === jobId);
+  }
+
+  /**
+   * Jobs whose Finnish keywords appear in a free-text message
+   */
+  static findJobs(text: string): RepairJob[] {
+    const normalized = text.toLowerCase();
+    return this.getPricing().jobs.filter(job => job.keywords.some(keyword => normalized.includes(keyword)));
+  }
+
+  /**
+   * Build an itemised quote for one or more jobs
+   */
+  static quote(jobIds: string[], context: QuoteContext = {}): RepairQuote {
+    const pricing = this.getPricing();
+    const unknown = jobIds.filter(id => !this.getJob(id));
+    if (unknown.length > 0) {
+      throw new UnknownRepairJobError(unknown);
+    }
+
+    const level = context.partsPriceLevel || this.DEFAULT_PRICE_LEVEL;
+    const factor = pricing.partsPriceFactors[level] ?? 1;
+    const lines: QuoteLine[] = [];
+    const jobs: RepairQuote['jobs'] = [];
+
+    for (const id of jobIds) {
+      const job = this.getJob(id) as RepairJob;
+      const override = this.findOverride(job, context);
+      const hours = override?.labourHours ?? job.labourHours;
+      const parts = override?.parts ?? job.parts;
+
+      jobs.push({ id: job.id, name: job.name, note: override?.note });
+
+      if (hours > 0) {
+        lines.push({
+          job: job.id,
+          type: 'labour',
+          description: `${job.name} - työ`,
+          quantity: hours,
+          unitPrice: pricing.shopRate,
+          total: this.round(hours * pricing.shopRate)
+        });
+      }
+
+      for (const part of parts) {
+        const unitPrice = this.round(part.price * factor);
+        lines.push({ job: job.id, type: 'parts', description: part.name, quantity: 1, unitPrice, total: unitPrice });
+      }
+    }
+
+    const labour = this.sum(lines.filter(line => line.type === 'labour'));
+    const partsTotal = this.sum(lines.filter(line => line.type === 'parts'));
+    const consumables = this.round(Math.min(labour * pricing.consumables.rate, pricing.consumables.max));
+    if (consumables > 0) {
+      lines.push({
+        job: 'consumables',
+        type: 'consumables',
+        description: pricing.consumables.name,
+        quantity: 1,
+        unitPrice: consumables,
+        total: consumables
+      });
+    }
+
+    const excludingVat = this.round(labour + partsTotal + consumables);
+    const vat = this.round(excludingVat * pricing.vatRate);
+
+    return {
+      jobs,
+      vehicle: context.model || null,
+      partsPriceLevel: level,
+      shopRate: pricing.shopRate,
+      vatRate: pricing.vatRate,
+      lines,
+      totals: {
+        labour,
+        parts: partsTotal,
+        consumables,
+        excludingVat,
+        vat,
+        includingVat: this.round(excludingVat + vat)
+      }
+    };
+  }
+
+  /**
+   * Price range including VAT: from the cheapest to the most expensive parts
+   * price level, or the model's own level when it is known
+   */
+  static priceRange(jobId: string, context: QuoteContext = {}): { min: number; max: number } | null {
+    if (!this.getJob(jobId)) return null;
+
+    if (context.partsPriceLevel) {
+      const total = this.quote([jobId], context).totals.includingVat;
+      return { min: Math.round(total), max: Math.round(total) };
+    }
+
+    const levels = Object.entries(this.getPricing().partsPriceFactors).sort(([, a], [, b]) => a - b);
+    const cheapest = levels[0][0] as PartsPriceLevel;
+    const dearest = levels[levels.length - 1][0] as PartsPriceLevel;
+
+    return {
+      min: Math.round(this.quote([jobId], { ...context, partsPriceLevel: cheapest }).totals.includingVat),
+      max: Math.round(this.quote([jobId], { ...context, partsPriceLevel: dearest }).totals.includingVat)
+    };
+  }
+
+  /**
+   * First override whose every given field matches the vehicle
+   */
+  private static findOverride(job: RepairJob, context: QuoteContext) {
+    return job.overrides?.find(({ match }) =>
+      (!match.generation || match.generation === context.generation) &&
+      (!match.series || match.series === context.series) &&
+      (!match.engineCode || (context.engineCode?.startsWith(match.engineCode) ?? false)));
+  }
+
+  private static sum(lines: QuoteLine[]): number {
+    return this.round(lines.reduce((total, line) => total + line.total, 0));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
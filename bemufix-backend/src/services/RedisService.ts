@@ -1,71 +1,65 @@
-import { createClient, RedisClientType } from 'redis';
+import type { KeyValueStore } from './storage/KeyValueStore';
+import { MemoryStore } from './storage/MemoryStore';
+import { RedisStore } from './storage/RedisStore';
 import logger from '../utils/logger';
 
+export type { KeyValueStore } from './storage/KeyValueStore';
+
+// Keys asked for per SCAN call, and deleted per UNLINK
+const SCAN_COUNT = 500;
+const UNLINK_BATCH = 500;
+
+export interface StorageHealth {
+  // healthy, degraded (running on the in-memory fallback), disconnected or error
+  status: string;
+  store: string;
+  // Store serving commands; differs from `store` in degraded mode
+  activeStore?: string;
+  degradedSince?: string;
+  latency?: number;
+  error?: string;
+}
+
+/**
+ * Key-value storage for caches, sessions, counters and queues. KV_STORE picks
+ * the store (redis, or memory in tests). When Redis is down the service fails
+ * over to an in-process store and keeps reconnecting. When Redis is back,
+ * lists written during the outage (the notification queue) are moved to it;
+ * other data written meanwhile stays in that process.
+ */
 export class RedisService {
-  private static client: RedisClientType | null = null;
-  private static isConnected = false;
+  private static primary: KeyValueStore | null = null;
+  private static fallback: MemoryStore | null = null;
+  private static started = false;
+  private static degradedSince: Date | null = null;
+  private static reconnectTimer: NodeJS.Timeout | null = null;
 
   /**
-   * Connect to Redis server
+   * Replace the store, e.g. with a MemoryStore in tests
+   */
+  static configure(store: KeyValueStore): void {
+    this.primary = store;
+    this.degradedSince = null;
+  }
+
+  /**
+   * Connect the configured store. With failover enabled a Redis outage at
+   * startup is not fatal: the service runs degraded until Redis answers.
    */
   static async connect(): Promise<void> {
-    if (this.isConnected && this.client) {
-      return;
-    }
+    const store = this.getStore();
+    this.started = true;
 
     try {
-      const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-      
-      this.client = createClient({
-        url: redisUrl,
-        socket: {
-          reconnectStrategy: (retries) => {
-            if (retries > 10) {
-              logger.error('Redis connection failed after 10 retries');
-              return false;
-            }
-            return Math.min(retries * 50, 1000);
-          }
-        }
-      });
-
-      // Event handlers
-      this.client.on('error', (error) => {
-        logger.error('Redis client error:', error);
-        this.isConnected = false;
-      });
-
-      this.client.on('connect', () => {
-        logger.info('Redis client connecting...');
-      });
-
-      this.client.on('ready', () => {
-        logger.info('Redis client ready');
-        this.isConnected = true;
-      });
-
-      this.client.on('end', () => {
-        logger.warn('Redis client connection ended');
-        this.isConnected = false;
-      });
-
-      this.client.on('reconnecting', () => {
-        logger.info('Redis client reconnecting...');
-      });
-
-      // Connect to Redis
-      await this.client.connect();
-      
-      // Test the connection
-      await this.client.ping();
-      
-      this.isConnected = true;
-      logger.info('Successfully connected to Redis');
-
+      await store.connect();
+      logger.info(`Key-value store: ${store.name}`);
     } catch (error) {
-      logger.error('Failed to connect to Redis:', error);
-      this.isConnected = false;
-      throw error;
+      if (!this.isFailoverEnabled()) {
+        logger.error(`Failed to connect to ${store.name}:`, error);
+        throw error;
+      }
+      logger.error(`Failed to connect to ${store.name}, continuing with the in-memory store:`, error);
+      this.enterDegradedMode(store);
     }
   }
 
@@ -73,15 +67,12 @@ export class RedisService {
    * Disconnect from Redis
    */
   static async disconnect(): Promise<void> {
-    if (this.client) {
-      try {
-        await this.client.quit();
-        this.client = null;
-        this.isConnected = false;
-        logger.info('Disconnected from Redis');
-      } catch (error) {
-        logger.error('Error disconnecting from Redis:', error);
-      }
+    this.started = false;
+    this.stopReconnecting();
+    try {
+      await this.primary?.disconnect();
+    } catch (error) {
+      logger.error(`Error disconnecting from ${this.primary?.name}:`, error);
     }
   }
 
@@ -89,132 +80,94 @@ export class RedisService {
    * Check if Redis is connected
    */
   static isRedisConnected(): boolean {
-    return this.isConnected && this.client !== null;
+    return this.primary?.name === 'redis' && this.primary.isAvailable();
+  }
+
+  /**
+   * Whether commands currently go to the in-memory fallback
+   */
+  static isDegraded(): boolean {
+    this.getActiveStore();
+    return this.degradedSince !== null;
   }
 
   /**
    * Get a value from Redis
    */
   static async get(key: string): Promise<string | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get key:', key);
-      return null;
-    }
-
-    try {
-      const value = await this.client.get(key);
-      return value;
-    } catch (error) {
-      logger.error(`Failed to get key ${key} from Redis:`, error);
-      return null;
-    }
+    return this.run(`get key ${key}`, null, store => store.get(key));
   }
 
   /**
    * Set a value in Redis
    */
   static async set(key: string, value: string): Promise<boolean> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot set key:', key);
-      return false;
-    }
-
-    try {
-      await this.client.set(key, value);
+    return this.run(`set key ${key}`, false, async store => {
+      await store.set(key, value);
       return true;
-    } catch (error) {
-      logger.error(`Failed to set key ${key} in Redis:`, error);
-      return false;
-    }
+    });
   }
 
   /**
    * Set a value with TTL (time to live) in Redis
    */
   static async setWithTTL(key: string, value: string, ttlSeconds: number): Promise<boolean> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot set key with TTL:', key);
-      return false;
-    }
-
-    try {
-      await this.client.setEx(key, ttlSeconds, value);
+    return this.run(`set key ${key} with TTL`, false, async store => {
+      await store.set(key, value, ttlSeconds);
       return true;
-    } catch (error) {
-      logger.error(`Failed to set key ${key} with TTL in Redis:`, error);
-      return false;
-    }
+    });
   }
 
   /**
    * Delete a key from Redis
    */
   static async del(key: string): Promise<boolean> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot delete key:', key);
-      return false;
-    }
-
-    try {
-      const result = await this.client.del(key);
-      return result > 0;
-    } catch (error) {
-      logger.error(`Failed to delete key ${key} from Redis:`, error);
-      return false;
-    }
+    return this.run(`delete key ${key}`, false, async store => (await store.del([key])) > 0);
   }
 
   /**
    * Check if a key exists in Redis
    */
   static async exists(key: string): Promise<boolean> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot check key existence:', key);
-      return false;
-    }
-
-    try {
-      const result = await this.client.exists(key);
-      return result > 0;
-    } catch (error) {
-      logger.error(`Failed to check key ${key} existence in Redis:`, error);
-      return false;
-    }
+    return this.run(`check key ${key} existence`, false, store => store.exists(key));
   }
 
   /**
    * Get TTL (time to live) for a key
    */
   static async ttl(key: string): Promise<number | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get TTL for key:', key);
-      return null;
-    }
-
-    try {
-      const ttl = await this.client.ttl(key);
-      return ttl;
-    } catch (error) {
-      logger.error(`Failed to get TTL for key ${key} from Redis:`, error);
-      return null;
-    }
+    return this.run(`get TTL for key ${key}`, null, store => store.ttl(key));
   }
 
   /**
    * Increment a numeric value in Redis
    */
   static async incr(key: string): Promise<number | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot increment key:', key);
-      return null;
+    return this.run(`increment key ${key}`, null, store => store.incr(key));
+  }
+
+  /**
+   * Delete keys without blocking Redis; returns how many existed
+   */
+  static async unlink(keys: string[]): Promise<number> {
+    return this.run(`unlink ${keys.length} keys`, 0, store => store.unlink(keys));
+  }
+
+  /**
+   * Iterate keys matching a pattern with SCAN. Iteration stops early, with a
+   * logged error, if the store fails midway; a key may come up twice.
+   */
+  static async *scan(pattern: string, count: number = SCAN_COUNT): AsyncGenerator<string> {
+    const store = this.getActiveStore();
+    if (!store) {
+      logger.warn(`Key-value store not connected, cannot scan keys with pattern ${pattern}`);
+      return;
     }
 
     try {
-      const result = await this.client.incr(key);
-      return result;
+      yield* store.scan(pattern, count);
     } catch (error) {
-      logger.error(`Failed to increment key ${key} in Redis:`, error);
-      return null;
+      logger.error(`Failed to scan keys with pattern ${pattern} in ${store.name}:`, error);
     }
   }
 
@@ -222,168 +175,237 @@ export class RedisService {
    * Get all keys matching a pattern
    */
   static async keys(pattern: string): Promise<string[]> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get keys with pattern:', pattern);
-      return [];
-    }
-
-    try {
-      const keys = await this.client.keys(pattern);
-      return keys;
-    } catch (error) {
-      logger.error(`Failed to get keys with pattern ${pattern} from Redis:`, error);
-      return [];
+    const keys = new Set<string>();
+    for await (const key of this.scan(pattern)) {
+      keys.add(key);
     }
+    return [...keys];
   }
 
   /**
    * Add item to a list
    */
   static async lpush(key: string, value: string): Promise<number | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot push to list:', key);
-      return null;
-    }
-
-    try {
-      const result = await this.client.lPush(key, value);
-      return result;
-    } catch (error) {
-      logger.error(`Failed to push to list ${key} in Redis:`, error);
-      return null;
-    }
+    return this.run(`push to list ${key}`, null, store => store.lpush(key, value));
   }
 
   /**
    * Get list items
    */
   static async lrange(key: string, start: number, stop: number): Promise<string[]> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get list range:', key);
-      return [];
-    }
+    return this.run(`get list range for ${key}`, [], store => store.lrange(key, start, stop));
+  }
 
-    try {
-      const result = await this.client.lRange(key, start, stop);
-      return result;
-    } catch (error) {
-      logger.error(`Failed to get list range for ${key} from Redis:`, error);
-      return [];
-    }
+  /**
+   * Keep only the given range of a list
+   */
+  static async ltrim(key: string, start: number, stop: number): Promise<boolean> {
+    return this.run(`trim list ${key}`, false, async store => {
+      await store.ltrim(key, start, stop);
+      return true;
+    });
   }
 
   /**
    * Set expiration time for a key
    */
   static async expire(key: string, seconds: number): Promise<boolean> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot set expiration for key:', key);
-      return false;
-    }
-
-    try {
-      const result = await this.client.expire(key, seconds);
-      return result;
-    } catch (error) {
-      logger.error(`Failed to set expiration for key ${key} in Redis:`, error);
-      return false;
-    }
+    return this.run(`set expiration for key ${key}`, false, store => store.expire(key, seconds));
   }
 
   /**
    * Add to sorted set
    */
   static async zadd(key: string, score: number, member: string): Promise<number | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot add to sorted set:', key);
-      return null;
+    return this.run(`add to sorted set ${key}`, null, store => store.zadd(key, score, member));
+  }
+
+  /**
+   * Get sorted set range
+   */
+  static async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.run(`get sorted set range for ${key}`, [], store => store.zrange(key, start, stop));
+  }
+
+  /**
+   * Clear cache by pattern, scanning and unlinking in batches
+   */
+  static async clearCachePattern(pattern: string): Promise<number> {
+    let cleared = 0;
+    let batch: string[] = [];
+    for await (const key of this.scan(pattern)) {
+      batch.push(key);
+      if (batch.length >= UNLINK_BATCH) {
+        cleared += await this.unlink(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      cleared += await this.unlink(batch);
     }
 
-    try {
-      const result = await this.client.zAdd(key, { score, value: member });
-      return result;
-    } catch (error) {
-      logger.error(`Failed to add to sorted set ${key} in Redis:`, error);
-      return null;
+    if (cleared > 0) {
+      logger.info(`Cleared ${cleared} keys matching pattern: ${pattern}`);
     }
+    return cleared;
   }
 
   /**
-   * Get sorted set range
+   * Get Redis info
    */
-  static async zrange(key: string, start: number, stop: number): Promise<string[]> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get sorted set range:', key);
-      return [];
+  static async info(): Promise<string | null> {
+    return this.run('get store info', null, store => store.info());
+  }
+
+  /**
+   * Health of the configured store; degraded while the in-memory fallback serves commands
+   */
+  static async healthCheck(): Promise<StorageHealth> {
+    const primary = this.getStore();
+    const active = this.getActiveStore();
+
+    if (!active) {
+      return { status: 'disconnected', store: primary.name, error: `${primary.name} not connected` };
+    }
+    if (active !== primary) {
+      return {
+        status: 'degraded',
+        store: primary.name,
+        activeStore: active.name,
+        degradedSince: this.degradedSince?.toISOString(),
+        error: `${primary.name} not connected`
+      };
     }
 
     try {
-      const result = await this.client.zRange(key, start, stop);
-      return result;
+      const start = Date.now();
+      await primary.ping();
+      return { status: 'healthy', store: primary.name, latency: Date.now() - start };
     } catch (error) {
-      logger.error(`Failed to get sorted set range for ${key} from Redis:`, error);
-      return [];
+      return { status: 'error', store: primary.name, error: String(error) };
     }
   }
 
   /**
-   * Clear cache by pattern
+   * Run a command on the active store. Failures are logged and answered with
+   * `fallbackValue`, except a command that failed because Redis just went
+   * down, which is retried on the in-memory store.
    */
-  static async clearCachePattern(pattern: string): Promise<number> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot clear cache pattern:', pattern);
-      return 0;
+  private static async run<T>(operation: string, fallbackValue: T, command: (store: KeyValueStore) => Promise<T>): Promise<T> {
+    const store = this.getActiveStore();
+    if (!store) {
+      logger.warn(`Key-value store not connected, cannot ${operation}`);
+      return fallbackValue;
     }
 
     try {
-      const keys = await this.client.keys(pattern);
-      if (keys.length === 0) {
-        return 0;
-      }
-
-      const result = await this.client.del(keys);
-      logger.info(`Cleared ${result} keys matching pattern: ${pattern}`);
-      return result;
+      return await command(store);
     } catch (error) {
-      logger.error(`Failed to clear cache pattern ${pattern}:`, error);
-      return 0;
+      logger.error(`Failed to ${operation} in ${store.name}:`, error);
+      const retryStore = store !== this.fallback ? this.getActiveStore() : null;
+      if (!retryStore || retryStore === store) return fallbackValue;
+
+      try {
+        return await command(retryStore);
+      } catch (retryError) {
+        logger.error(`Failed to ${operation} in ${retryStore.name}:`, retryError);
+        return fallbackValue;
+      }
     }
   }
 
   /**
-   * Get Redis info
+   * Configured store when it is up, the in-memory fallback when not, or null
+   * with failover disabled
    */
-  static async info(): Promise<string | null> {
-    if (!this.isConnected || !this.client) {
-      logger.warn('Redis not connected, cannot get info');
-      return null;
+  private static getActiveStore(): KeyValueStore | null {
+    const primary = this.getStore();
+    if (primary.isAvailable()) {
+      if (this.degradedSince) {
+        logger.info(`${primary.name} is back after ${Math.round((Date.now() - this.degradedSince.getTime()) / 1000)}s, leaving degraded mode`);
+        this.degradedSince = null;
+        this.stopReconnecting();
+        void this.moveListsTo(primary);
+      }
+      return primary;
     }
+    if (!this.isFailoverEnabled()) return null;
 
-    try {
-      const info = await this.client.info();
-      return info;
-    } catch (error) {
-      logger.error('Failed to get Redis info:', error);
-      return null;
+    this.enterDegradedMode(primary);
+    return this.getFallback();
+  }
+
+  private static enterDegradedMode(primary: KeyValueStore): void {
+    if (!this.degradedSince) {
+      this.degradedSince = new Date();
+      logger.warn(`${primary.name} unavailable, failing over to the in-memory store`);
+    }
+    if (this.started && !this.reconnectTimer) {
+      const intervalMs = (Number(process.env.KV_RECONNECT_SECONDS) || 30) * 1000;
+      this.reconnectTimer = setInterval(() => {
+        if (primary.isAvailable()) return;
+        primary.connect().catch(error => logger.debug(`Reconnecting ${primary.name} failed: ${error}`));
+      }, intervalMs);
+      // Reconnecting alone should not keep the process alive
+      this.reconnectTimer.unref();
     }
   }
 
   /**
-   * Health check for Redis
+   * Push the fallback's lists onto the same lists in `store`, oldest item
+   * first, so queued jobs are not left behind in memory. Items that could not
+   * be moved go back to the fallback for the next recovery.
    */
-  static async healthCheck(): Promise<{ status: string; latency?: number; error?: string }> {
-    if (!this.isConnected || !this.client) {
-      return { status: 'disconnected', error: 'Redis not connected' };
+  private static async moveListsTo(store: KeyValueStore): Promise<void> {
+    const fallback = this.fallback;
+    if (!fallback) return;
+
+    for (const key of fallback.listKeys()) {
+      const items = await fallback.lrange(key, 0, -1);
+      await fallback.del([key]);
+
+      for (let i = items.length - 1; i >= 0; i--) {
+        try {
+          await store.lpush(key, items[i]);
+        } catch (error) {
+          logger.error(`Failed to move list ${key} to ${store.name}, keeping ${i + 1} items in memory:`, error);
+          for (let j = i; j >= 0; j--) await fallback.lpush(key, items[j]);
+          return;
+        }
+      }
+      logger.info(`Moved ${items.length} items of list ${key} to ${store.name}`);
     }
+  }
 
-    try {
-      const start = Date.now();
-      await this.client.ping();
-      const latency = Date.now() - start;
-      
-      return { status: 'healthy', latency };
-    } catch (error) {
-      return { status: 'error', error: String(error) };
+  private static stopReconnecting(): void {
+    if (this.reconnectTimer) {
+      clearInterval(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private static isFailoverEnabled(): boolean {
+    return process.env.KV_FAILOVER !== 'false';
+  }
+
+  private static getStore(): KeyValueStore {
+    if (!this.primary) {
+      const name = process.env.KV_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'redis');
+      if (name === 'memory') {
+        this.primary = new MemoryStore();
+      } else {
+        if (name !== 'redis') logger.warn(`Unknown key-value store: ${name}, using redis`);
+        this.primary = new RedisStore();
+      }
+      logger.info(`Key-value store configured: ${this.primary.name}`);
+    }
+    return this.primary;
+  }
+
+  private static getFallback(): MemoryStore {
+    if (!this.fallback) {
+      this.fallback = new MemoryStore();
     }
+    return this.fallback;
   }
-}
\ No newline at end of file
+}
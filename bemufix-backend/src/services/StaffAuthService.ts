@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  CreateStaffRequest,
+  StaffAccount,
+  StaffLoginRequest,
+  StaffTokenClaims,
+  UpdateStaffRequest
+} from '../models/Staff';
+import { StaffStore } from './StaffStore';
+import { JwtError, signJwt, verifyJwt } from '../utils/jwt';
+import { hashPassword, needsRehash, verifyPassword } from '../utils/password';
+import logger from '../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Thrown for an unknown email, a wrong password, a locked or a disabled
+ * account alike, so the answer does not tell which emails have an account
+ */
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super('Invalid email or password');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Thrown for an unknown, used or expired refresh token
+ */
+export class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('Invalid or expired refresh token');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+export class StaffExistsError extends Error {
+  constructor(readonly email: string) {
+    super(`Staff account already exists: ${email}`);
+    this.name = 'StaffExistsError';
+  }
+}
+
+export class StaffNotFoundError extends Error {
+  constructor(readonly id: string) {
+    super(`Staff account not found: ${id}`);
+    this.name = 'StaffNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a change would leave no active admin
+ */
+export class LastAdminError extends Error {
+  constructor() {
+    super('At least one active admin is required');
+    this.name = 'LastAdminError';
+  }
+}
+
+export class StaffAuthNotConfiguredError extends Error {
+  constructor() {
+    super('STAFF_JWT_SECRET is not set');
+    this.name = 'StaffAuthNotConfiguredError';
+  }
+}
+
+export interface StaffSession {
+  staff: StaffAccount;
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+/**
+ * Password login for workshop staff. A login returns a short-lived JWT
+ * access token and a refresh token; refresh tokens rotate on every use and
+ * are stored as hashes. Repeated wrong passwords lock the account for a while.
+ */
+export class StaffAuthService {
+  private static devSecret: string | null = null;
+  private static dummyHash: Promise<string> | null = null;
+
+  static async login(request: StaffLoginRequest, now: Date = new Date()): Promise<StaffSession> {
+    const staff = StaffStore.findByEmail(request.email);
+    if (!staff) {
+      // Spend the same time as for a real account so unknown emails do not stand out
+      await verifyPassword(request.password, await this.getDummyHash());
+      throw new InvalidCredentialsError();
+    }
+    const valid = await verifyPassword(request.password, staff.passwordHash);
+    if (staff.lockedUntil && new Date(staff.lockedUntil) > now) {
+      logger.warn(`Login attempt on staff account ${staff.id}, locked until ${staff.lockedUntil}`);
+      throw new InvalidCredentialsError();
+    }
+    if (!valid) {
+      this.recordFailedLogin(staff.id, now);
+      throw new InvalidCredentialsError();
+    }
+    if (staff.disabled) throw new InvalidCredentialsError();
+
+    const passwordHash = needsRehash(staff.passwordHash) ? await hashPassword(request.password) : staff.passwordHash;
+
+    return StaffStore.transaction(() => {
+      const current = StaffStore.findById(staff.id) ?? staff;
+      const updated: StaffAccount = {
+        ...current,
+        passwordHash,
+        failedLogins: 0,
+        lockedUntil: undefined,
+        lastLoginAt: now.toISOString()
+      };
+      StaffStore.saveStaff(updated);
+      StaffStore.purgeExpired(now.toISOString());
+
+      logger.info(`Staff logged in: ${updated.id} (${updated.role})`);
+      return this.issueTokens(updated, now);
+    });
+  }
+
+  /**
+   * Trade a refresh token for a new access token and refresh token. The old
+   * refresh token stops working.
+   */
+  static refresh(refreshToken: string, now: Date = new Date()): StaffSession {
+    return StaffStore.transaction(() => {
+      const tokenHash = this.hash(refreshToken);
+      const staffId = StaffStore.findRefreshToken(tokenHash, now.toISOString());
+      if (!staffId) throw new InvalidRefreshTokenError();
+      StaffStore.deleteRefreshToken(tokenHash);
+
+      const staff = StaffStore.findById(staffId);
+      if (!staff || staff.disabled) throw new InvalidRefreshTokenError();
+      return this.issueTokens(staff, now);
+    });
+  }
+
+  /**
+   * End the session of a refresh token. Its access token stays valid until
+   * it expires.
+   */
+  static logout(refreshToken: string): void {
+    StaffStore.deleteRefreshToken(this.hash(refreshToken));
+  }
+
+  /**
+   * Staff member behind an access token, or null when the token is invalid
+   * or expired or the account has been disabled. The role comes from the
+   * account, so a role change applies at once.
+   */
+  static authenticate(accessToken: string, now: Date = new Date()): StaffAccount | null {
+    let claims: StaffTokenClaims;
+    try {
+      claims = verifyJwt<StaffTokenClaims>(accessToken, this.getSecret(), now);
+    } catch (error) {
+      if (error instanceof JwtError) return null;
+      throw error;
+    }
+
+    const staff = StaffStore.findById(claims.sub);
+    return staff && !staff.disabled ? staff : null;
+  }
+
+  static listStaff(): StaffAccount[] {
+    return StaffStore.list();
+  }
+
+  static hasAdmin(): boolean {
+    return StaffStore.countByRole('admin') > 0;
+  }
+
+  static async createStaff(request: CreateStaffRequest, now: Date = new Date()): Promise<StaffAccount> {
+    const passwordHash = await hashPassword(request.password);
+
+    return StaffStore.transaction(() => {
+      if (StaffStore.findByEmail(request.email)) throw new StaffExistsError(request.email);
+
+      const staff: StaffAccount = {
+        id: uuidv4(),
+        email: request.email,
+        name: request.name,
+        role: request.role,
+        passwordHash,
+        disabled: false,
+        failedLogins: 0,
+        createdAt: now.toISOString()
+      };
+      StaffStore.saveStaff(staff);
+
+      logger.info(`Staff account created: ${staff.id} (${staff.role})`);
+      return staff;
+    });
+  }
+
+  /**
+   * Change name, role, password or disabled state. A new password, role or
+   * disabling ends the member's sessions.
+   */
+  static async updateStaff(id: string, request: UpdateStaffRequest): Promise<StaffAccount> {
+    const passwordHash = request.password ? await hashPassword(request.password) : undefined;
+
+    return StaffStore.transaction(() => {
+      const staff = StaffStore.findById(id);
+      if (!staff) throw new StaffNotFoundError(id);
+
+      const updated: StaffAccount = {
+        ...staff,
+        name: request.name ?? staff.name,
+        role: request.role ?? staff.role,
+        disabled: request.disabled ?? staff.disabled,
+        passwordHash: passwordHash ?? staff.passwordHash
+      };
+
+      const stillAdmin = updated.role === 'admin' && !updated.disabled;
+      if (staff.role === 'admin' && !staff.disabled && !stillAdmin && this.countActiveAdmins() <= 1) {
+        throw new LastAdminError();
+      }
+
+      StaffStore.saveStaff(updated);
+      if (passwordHash || updated.role !== staff.role || (updated.disabled && !staff.disabled)) {
+        StaffStore.deleteRefreshTokens(id);
+      }
+
+      logger.info(`Staff account updated: ${id}`);
+      return updated;
+    });
+  }
+
+  /**
+   * Lift a lockout before it runs out
+   */
+  static unlock(id: string): StaffAccount {
+    return StaffStore.transaction(() => {
+      const staff = StaffStore.findById(id);
+      if (!staff) throw new StaffNotFoundError(id);
+
+      const updated: StaffAccount = { ...staff, failedLogins: 0, lockedUntil: undefined };
+      StaffStore.saveStaff(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Count a wrong password; STAFF_MAX_FAILED_LOGINS in a row lock the account
+   * for STAFF_LOCKOUT_MINUTES
+   */
+  private static recordFailedLogin(id: string, now: Date): void {
+    const maxAttempts = Number(process.env.STAFF_MAX_FAILED_LOGINS) || 5;
+    const lockoutMinutes = Number(process.env.STAFF_LOCKOUT_MINUTES) || 15;
+
+    StaffStore.transaction(() => {
+      const staff = StaffStore.findById(id);
+      if (!staff) return;
+
+      const failedLogins = staff.failedLogins + 1;
+      if (failedLogins >= maxAttempts) {
+        const lockedUntil = new Date(now.getTime() + lockoutMinutes * MINUTE_MS).toISOString();
+        StaffStore.saveStaff({ ...staff, failedLogins: 0, lockedUntil });
+        logger.warn(`Staff account ${staff.id} locked until ${lockedUntil} after ${failedLogins} wrong passwords`);
+        return;
+      }
+      StaffStore.saveStaff({ ...staff, failedLogins });
+    });
+  }
+
+  private static issueTokens(staff: StaffAccount, now: Date): StaffSession {
+    const accessMinutes = Number(process.env.STAFF_ACCESS_TOKEN_MINUTES) || 15;
+    const refreshDays = Number(process.env.STAFF_REFRESH_TOKEN_DAYS) || 7;
+
+    const accessToken = signJwt(
+      { sub: staff.id, email: staff.email, role: staff.role },
+      this.getSecret(),
+      accessMinutes * 60,
+      now
+    );
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const refreshTokenExpiresAt = new Date(now.getTime() + refreshDays * DAY_MS).toISOString();
+    StaffStore.saveRefreshToken(this.hash(refreshToken), staff.id, refreshTokenExpiresAt);
+
+    return {
+      staff,
+      accessToken,
+      accessTokenExpiresAt: new Date(now.getTime() + accessMinutes * MINUTE_MS).toISOString(),
+      refreshToken,
+      refreshTokenExpiresAt
+    };
+  }
+
+  private static countActiveAdmins(): number {
+    return StaffStore.list().filter(staff => staff.role === 'admin' && !staff.disabled).length;
+  }
+
+  /**
+   * Signing key for access tokens. Outside production a missing secret is
+   * replaced with a random one, so tokens do not survive a restart.
+   */
+  private static getSecret(): string {
+    const secret = process.env.STAFF_JWT_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === 'production') throw new StaffAuthNotConfiguredError();
+
+    if (!this.devSecret) {
+      this.devSecret = crypto.randomBytes(32).toString('base64url');
+      logger.warn('STAFF_JWT_SECRET not set, signing staff tokens with a temporary key');
+    }
+    return this.devSecret;
+  }
+
+  private static getDummyHash(): Promise<string> {
+    if (!this.dummyHash) {
+      this.dummyHash = hashPassword(crypto.randomBytes(16).toString('base64url'));
+    }
+    return this.dummyHash;
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { StaffAccount, StaffRole } from '../models/Staff';
+import logger from '../utils/logger';
+
+interface DataRow {
+  data: string;
+}
+
+/**
+ * Local SQLite store for staff accounts and their refresh tokens. Refresh
+ * tokens are kept as SHA-256 hashes only.
+ */
+export class StaffStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.STAFF_STORE_FILE || path.join(process.cwd(), 'data', 'staff.sqlite');
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS staff (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_hash TEXT PRIMARY KEY,
+        staff_id TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_refresh_tokens_staff ON refresh_tokens (staff_id);
+    `);
+
+    this.db = db;
+    logger.info(`Staff store opened: ${filePath}`);
+    return db;
+  }
+
+  static close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  static transaction<T>(fn: () => T): T {
+    return this.open().transaction(fn).immediate();
+  }
+
+  static findById(id: string): StaffAccount | null {
+    const row = this.open().prepare('SELECT data FROM staff WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as StaffAccount : null;
+  }
+
+  static findByEmail(email: string): StaffAccount | null {
+    const row = this.open().prepare('SELECT data FROM staff WHERE email = ?').get(email) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as StaffAccount : null;
+  }
+
+  /**
+   * All staff accounts by email
+   */
+  static list(): StaffAccount[] {
+    const rows = this.open().prepare('SELECT data FROM staff ORDER BY email').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as StaffAccount);
+  }
+
+  static countByRole(role: StaffRole): number {
+    const row = this.open().prepare('SELECT COUNT(*) AS count FROM staff WHERE role = ?').get(role) as { count: number };
+    return row.count;
+  }
+
+  static saveStaff(staff: StaffAccount): void {
+    this.open().prepare(`
+      INSERT INTO staff (id, email, role, data, updated_at)
+      VALUES (@id, @email, @role, @data, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        email = excluded.email,
+        role = excluded.role,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: staff.id,
+      email: staff.email,
+      role: staff.role,
+      data: JSON.stringify(staff),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  static saveRefreshToken(tokenHash: string, staffId: string, expiresAt: string): void {
+    this.open()
+      .prepare('INSERT INTO refresh_tokens (token_hash, staff_id, expires_at, created_at) VALUES (?, ?, ?, ?)')
+      .run(tokenHash, staffId, expiresAt, new Date().toISOString());
+  }
+
+  /**
+   * Staff id of a refresh token that has not expired
+   */
+  static findRefreshToken(tokenHash: string, now: string): string | null {
+    const row = this.open()
+      .prepare('SELECT staff_id FROM refresh_tokens WHERE token_hash = ? AND expires_at > ?')
+      .get(tokenHash, now) as { staff_id: string } | undefined;
+    return row?.staff_id ?? null;
+  }
+
+  /**
+   * Remove a refresh token; false when it was not there
+   */
+  static deleteRefreshToken(tokenHash: string): boolean {
+    return this.open().prepare('DELETE FROM refresh_tokens WHERE token_hash = ?').run(tokenHash).changes > 0;
+  }
+
+  /**
+   * End every session of a staff member; returns the number of tokens removed
+   */
+  static deleteRefreshTokens(staffId: string): number {
+    return this.open().prepare('DELETE FROM refresh_tokens WHERE staff_id = ?').run(staffId).changes;
+  }
+
+  /**
+   * Drop expired refresh tokens; returns the number of rows removed
+   */
+  static purgeExpired(now: string): number {
+    return this.open().prepare('DELETE FROM refresh_tokens WHERE expires_at <= ?').run(now).changes;
+  }
+}
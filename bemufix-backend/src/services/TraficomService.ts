@@ -0,0 +1,133 @@
+import path from 'path';
+import { CacheService } from './CacheService';
+import { OpenDataRegistryProvider } from './registry/OpenDataRegistryProvider';
+import { ScraperRegistryProvider } from './registry/ScraperRegistryProvider';
+import { RekkariRegistryProvider } from './registry/RekkariRegistryProvider';
+import { FixtureRegistryProvider } from './registry/FixtureRegistryProvider';
+import type { VehicleRegistryProvider } from './registry/VehicleRegistryProvider';
+import { Vehicle, VehicleSchema } from '../models/Vehicle';
+import logger, { loggers } from '../utils/logger';
+
+export type { VehicleRegistryProvider } from './registry/VehicleRegistryProvider';
+
+export class TraficomService {
+  private static providers: VehicleRegistryProvider[] | null = null;
+  // Cached register data older than this is refreshed in the background
+  private static readonly STALE_AFTER = 6 * 60 * 60; // 6 hours in seconds
+  private static readonly DEFAULT_PROVIDERS = 'opendata,traficom,02rekkari';
+  private static readonly FIXTURES_FILE = path.join(__dirname, '../../fixtures/vehicles.json');
+
+  /**
+   * Replace the provider chain (used by tests and offline development)
+   */
+  static configure(providers: VehicleRegistryProvider[]): void {
+    this.providers = providers;
+  }
+
+  /**
+   * Normalize a registration number to the ABC-123 form
+   */
+  static normalizeRegistrationNumber(regNumber: string): string {
+    const cleaned = regNumber.replace(/[\s-]/g, '').toUpperCase();
+    const match = cleaned.match(/^([A-ZÅÄÖ]+)(\d+)$/);
+    return match ? `${match[1]}-${match[2]}` : cleaned;
+  }
+
+  /**
+   * Validate Finnish registration number format (ABC-123, AB-12)
+   */
+  static validateRegistrationNumber(regNumber: string): boolean {
+    return /^[A-ZÅÄÖ]{2,3}-\d{1,4}$/.test(this.normalizeRegistrationNumber(regNumber));
+  }
+
+  /**
+   * Look up vehicle data through the cache, trying each configured provider in order
+   */
+  static async getVehicleData(regNumber: string): Promise<Vehicle | null> {
+    const registrationNumber = this.normalizeRegistrationNumber(regNumber);
+    return CacheService.namespace('vehicle').cached(
+      this.cacheKey(registrationNumber),
+      VehicleSchema,
+      () => this.lookupProviders(registrationNumber),
+      { staleAfter: this.STALE_AFTER }
+    );
+  }
+
+  /**
+   * Cached register data without a lookup
+   */
+  static async getCachedVehicleData(regNumber: string): Promise<Vehicle | null> {
+    return CacheService.namespace('vehicle').peek(this.cacheKey(this.normalizeRegistrationNumber(regNumber)), VehicleSchema);
+  }
+
+  /**
+   * Forget the cached register data so the next lookup asks the providers
+   */
+  static async clearCache(regNumber: string): Promise<boolean> {
+    return CacheService.namespace('vehicle').del(this.cacheKey(this.normalizeRegistrationNumber(regNumber)));
+  }
+
+  private static cacheKey(registrationNumber: string): string {
+    return `traficom:${registrationNumber}`;
+  }
+
+  private static async lookupProviders(registrationNumber: string): Promise<Vehicle | null> {
+    for (const provider of this.getProviders()) {
+      if (!provider.isAvailable()) {
+        continue;
+      }
+
+      const start = Date.now();
+      try {
+        const vehicle = await provider.lookup(registrationNumber);
+        if (!vehicle) {
+          logger.debug(`Registry provider ${provider.name} has no record for ${registrationNumber}`);
+          continue;
+        }
+
+        loggers.vehicleLookup.success(registrationNumber, provider.name, Date.now() - start);
+        return vehicle;
+      } catch (error) {
+        loggers.vehicleLookup.failure(registrationNumber, error, provider.name);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the provider chain from VEHICLE_REGISTRY_PROVIDERS
+   */
+  private static getProviders(): VehicleRegistryProvider[] {
+    if (this.providers) return this.providers;
+
+    const configured = process.env.VEHICLE_REGISTRY_PROVIDERS
+      || (process.env.NODE_ENV === 'test' ? 'fixture' : this.DEFAULT_PROVIDERS);
+
+    this.providers = configured
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+      .map(name => this.createProvider(name))
+      .filter((provider): provider is VehicleRegistryProvider => provider !== null);
+
+    logger.info(`Vehicle registry providers: ${this.providers.map(p => p.name).join(', ') || 'none'}`);
+    return this.providers;
+  }
+
+  private static createProvider(name: string): VehicleRegistryProvider | null {
+    switch (name) {
+      case 'opendata':
+        return new OpenDataRegistryProvider(process.env.TRAFICOM_OPEN_DATA_FILE || path.join(process.cwd(), 'data', 'traficom-opendata.csv'));
+      case 'traficom':
+        return new ScraperRegistryProvider();
+      case '02rekkari':
+        return new RekkariRegistryProvider();
+      case 'fixture':
+        return new FixtureRegistryProvider(process.env.VEHICLE_FIXTURES_FILE || this.FIXTURES_FILE);
+      default:
+        logger.warn(`Unknown vehicle registry provider: ${name}`);
+        return null;
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ProbableCause,
+  TriageFile,
+  TriageFileSchema,
+  TriageInput,
+  TriageResult,
+  Urgency,
+  UrgencySchema
+} from '../models/Triage';
+import type { Vehicle } from '../models/Vehicle';
+import { BMWIntelligence } from './BMWIntelligence';
+import { QuoteEngine } from './QuoteEngine';
+import { FinnishStemmer } from './intent/FinnishStemmer';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+// A symptom counts when its keywords add up to this
+const MIN_SYMPTOM_SCORE = 0.7;
+// Follow-up questions asked at most, the generic clarification not included
+const MAX_QUESTIONS = 2;
+// Questions are only taken from symptoms scoring at least this share of the best one
+const QUESTION_SYMPTOM_SHARE = 0.5;
+// Causes listed in the result, and the smallest share worth listing
+const MAX_CAUSES = 3;
+const MIN_PROBABILITY = 0.1;
+// Listed causes at least this likely decide the urgency along with the top one
+const URGENT_PROBABILITY = 0.25;
+// Weight multiplier for a cause that is a known issue of the car's model
+const MODEL_ISSUE_FACTOR = 1.8;
+
+const FALLBACK_QUESTION = 'fallback';
+
+type CompiledKeywords = { stems: string[]; weight: number }[];
+
+/**
+ * Symptom triage for the chat: matches a Finnish description to known symptoms,
+ * picks follow-up questions and ranks the probable causes, weighting them by the
+ * model's known issues (knowledge/triage/symptoms.json)
+ */
+export class TriageService {
+  private static data: TriageFile | null = null;
+  private static keywords = new Map<Record<string, number>, CompiledKeywords>();
+
+  static getFile(): string {
+    return process.env.TRIAGE_FILE || path.join(__dirname, '../../knowledge/triage/symptoms.json');
+  }
+
+  static get(): TriageFile {
+    if (this.data) return this.data;
+
+    const file = this.getFile();
+    const data = TriageFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    this.validateReferences(data);
+    this.data = data;
+    logger.info(`Loaded triage data revision ${data.revision} (${data.symptoms.length} symptoms) from ${file}`);
+    return data;
+  }
+
+  /**
+   * Read the symptom data again; the loaded data stays if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.data, data => { this.data = data; }, () => this.get());
+  }
+
+  /**
+   * Symptoms found in the description, best match first
+   */
+  static matchSymptoms(text: string): { id: string; name: string; score: number }[] {
+    const tokens = FinnishStemmer.stems(text);
+
+    return this.get().symptoms
+      .map(symptom => ({ id: symptom.id, name: symptom.name, score: this.score(symptom.keywords, tokens) }))
+      .filter(match => match.score >= MIN_SYMPTOM_SCORE)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * The next follow-up question, or null when there is nothing more worth asking
+   */
+  static nextQuestion(input: TriageInput): { id: string; text: string } | null {
+    const data = this.get();
+    const answered = new Set((input.answers || []).map(answer => answer.question));
+    const symptoms = this.matchSymptoms(this.describe(input));
+
+    if (symptoms.length === 0) {
+      return answered.has(FALLBACK_QUESTION) ? null : { id: FALLBACK_QUESTION, text: data.fallbackQuestion };
+    }
+    if ([...answered].filter(id => id !== FALLBACK_QUESTION).length >= MAX_QUESTIONS) return null;
+
+    const ids = [...new Set(symptoms
+      .filter(match => match.score >= symptoms[0].score * QUESTION_SYMPTOM_SHARE)
+      .flatMap(match => data.symptoms.find(symptom => symptom.id === match.id)?.questions || []))];
+    const id = ids.find(question => !answered.has(question));
+    return id ? { id, text: data.questions[id].text } : null;
+  }
+
+  /**
+   * Probable causes with urgency and repair estimates
+   */
+  static diagnose(input: TriageInput, vehicle?: Vehicle): TriageResult {
+    const data = this.get();
+    const symptoms = this.matchSymptoms(this.describe(input));
+    const scores = new Map<string, number>();
+    let urgency: Urgency = 'safe';
+
+    for (const match of symptoms) {
+      const symptom = data.symptoms.find(s => s.id === match.id);
+      for (const [cause, weight] of Object.entries(symptom?.causes || {})) {
+        scores.set(cause, (scores.get(cause) || 0) + match.score * weight);
+      }
+    }
+
+    for (const { question, answer } of input.answers || []) {
+      for (const option of this.matchAnswers(question, answer)) {
+        for (const [cause, factor] of Object.entries(option.causes || {})) {
+          if (scores.has(cause)) scores.set(cause, (scores.get(cause) || 0) * factor);
+        }
+        if (option.urgency) urgency = this.moreUrgent(urgency, option.urgency);
+      }
+    }
+
+    const issues = vehicle?.bmwSpecific?.commonIssues || [];
+    const modelIssues = new Map<string, string>();
+    for (const [id, score] of scores) {
+      const fragments = data.causes[id].issues || [];
+      const issue = issues.find(text => fragments.some(fragment => text.toLowerCase().includes(fragment)));
+      if (issue) {
+        scores.set(id, score * MODEL_ISSUE_FACTOR);
+        modelIssues.set(id, issue);
+      }
+    }
+
+    const total = [...scores.values()].reduce((sum, score) => sum + score, 0);
+    const context = vehicle ? BMWIntelligence.getQuoteContext(vehicle) : {};
+    const causes: ProbableCause[] = [...scores.entries()]
+      .map(([id, score]) => ({ id, probability: total > 0 ? score / total : 0 }))
+      .filter(({ probability }) => probability >= MIN_PROBABILITY)
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, MAX_CAUSES)
+      .map(({ id, probability }) => {
+        const cause = data.causes[id];
+        const ranges = cause.jobs.map(job => BMWIntelligence.getRepairCostEstimate(job, context));
+        return {
+          id,
+          name: cause.name,
+          probability: Number(probability.toFixed(2)),
+          urgency: cause.urgency,
+          jobs: cause.jobs,
+          price: ranges.length > 0
+            ? { min: ranges.reduce((sum, range) => sum + range.min, 0), max: ranges.reduce((sum, range) => sum + range.max, 0) }
+            : null,
+          ...(modelIssues.has(id) ? { modelIssue: modelIssues.get(id) } : {})
+        };
+      });
+
+    causes
+      .filter((cause, index) => index === 0 || cause.probability >= URGENT_PROBABILITY)
+      .forEach(cause => {
+        urgency = this.moreUrgent(urgency, cause.urgency);
+      });
+    // Nothing recognised: better to have the car looked at soon
+    if (causes.length === 0) urgency = this.moreUrgent(urgency, 'soon');
+
+    const priced = causes.filter(cause => cause.price);
+    return {
+      symptoms: symptoms.map(match => ({ ...match, score: Number(match.score.toFixed(2)) })),
+      causes,
+      urgency,
+      price: priced.length > 0
+        ? { min: Math.min(...priced.map(cause => cause.price?.min ?? 0)), max: Math.max(...priced.map(cause => cause.price?.max ?? 0)) }
+        : null
+    };
+  }
+
+  /**
+   * The description plus answers to the generic clarification
+   */
+  private static describe(input: TriageInput): string {
+    return [input.symptom, ...(input.answers || []).filter(a => a.question === FALLBACK_QUESTION).map(a => a.answer)].join(' ');
+  }
+
+  /**
+   * Best matching answer options of a question (all of them on a tie)
+   */
+  private static matchAnswers(questionId: string, answer: string) {
+    const question = this.get().questions[questionId];
+    if (!question) return [];
+
+    const tokens = FinnishStemmer.stems(answer);
+    const scored = question.answers.map(option => ({ option, score: this.score(option.keywords, tokens) }));
+    const best = Math.max(0, ...scored.map(({ score }) => score));
+    return best > 0 ? scored.filter(({ score }) => score === best).map(({ option }) => option) : [];
+  }
+
+  private static score(keywords: Record<string, number>, tokens: string[]): number {
+    let compiled = this.keywords.get(keywords);
+    if (!compiled) {
+      compiled = Object.entries(keywords).map(([keyword, weight]) => ({ stems: FinnishStemmer.stems(keyword), weight }));
+      this.keywords.set(keywords, compiled);
+    }
+    return compiled.reduce((sum, keyword) => sum + keyword.weight * FinnishStemmer.matchPhrase(keyword.stems, tokens), 0);
+  }
+
+  private static moreUrgent(a: Urgency, b: Urgency): Urgency {
+    return UrgencySchema.options.indexOf(b) > UrgencySchema.options.indexOf(a) ? b : a;
+  }
+
+  private static validateReferences(data: TriageFile): void {
+    const problems: string[] = [];
+
+    for (const [id, cause] of Object.entries(data.causes)) {
+      for (const job of cause.jobs) {
+        if (!QuoteEngine.getJob(job)) problems.push(`cause ${id}: unknown job ${job}`);
+      }
+    }
+    for (const [id, question] of Object.entries(data.questions)) {
+      for (const cause of question.answers.flatMap(answer => Object.keys(answer.causes || {}))) {
+        if (!data.causes[cause]) problems.push(`question ${id}: unknown cause ${cause}`);
+      }
+    }
+    for (const symptom of data.symptoms) {
+      for (const cause of Object.keys(symptom.causes)) {
+        if (!data.causes[cause]) problems.push(`symptom ${symptom.id}: unknown cause ${cause}`);
+      }
+      for (const question of symptom.questions) {
+        if (!data.questions[question]) problems.push(`symptom ${symptom.id}: unknown question ${question}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid triage data: ${problems.join('; ')}`);
+    }
+  }
+}
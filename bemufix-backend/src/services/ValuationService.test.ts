@@ -0,0 +1,13 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BMWModelCatalog } from './BMWModelCatalog';
+import { loadReferenceCases, runReferenceCase } from '../scripts/valuationCases';
+
+const models = BMWModelCatalog.load();
+
+for (const reference of loadReferenceCases()) {
+  test(`valuation: ${reference.name}`, () => {
+    const result = runReferenceCase(reference, models);
+    assert.deepEqual(result.failures, []);
+  });
+}
@@ -0,0 +1,315 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { FuelKindSchema } from '../models/BMWModel';
+import type { BMWModel, FuelKind } from '../models/BMWModel';
+import { VinBodyStyleSchema } from '../models/Vin';
+import type { VinBodyStyle } from '../models/Vin';
+import { IssueSeveritySchema, Valuation, VehicleCondition, VehicleConditionSchema } from '../models/Valuation';
+import type { IssueSeverity } from '../models/Valuation';
+import { indexCsvHeader, parseCsvLine } from '../utils/csv';
+import { fitLeastSquares } from '../utils/regression';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+export interface ValuationInput {
+  model: BMWModel;
+  modelYear?: number;
+  odometer?: number;
+  fuel?: FuelKind;
+  body?: VinBodyStyle;
+  condition?: VehicleCondition;
+  knownIssues?: IssueSeverity;
+  today?: Date;
+}
+
+/**
+ * One row of the comparable sales CSV
+ */
+const ComparableSaleSchema = z.object({
+  generation: z.string().min(1),
+  model: z.string().min(1),
+  modelYear: z.coerce.number().int().min(1950),
+  odometer: z.coerce.number().nonnegative(),
+  fuel: FuelKindSchema,
+  body: VinBodyStyleSchema,
+  condition: VehicleConditionSchema,
+  issueSeverity: z.coerce.number().int().min(0).max(3),
+  price: z.coerce.number().positive(),
+  soldAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+});
+
+type ComparableSale = z.infer<typeof ComparableSaleSchema>;
+
+// Shared log-price effects; each model gets its own intercept on top
+const FEATURES = [
+  'age', 'agePerformance', 'km', 'kmDiesel',
+  'excellent', 'fair', 'poor',
+  'touring', 'coupe', 'convertible',
+  'issues'
+] as const;
+
+type Feature = typeof FEATURES[number];
+
+export interface ValuationCalibration {
+  coefficients: Record<Feature, number>;
+  intercepts: Map<string, number>;
+  residualSd: Map<string, number>;
+  globalSd: number;
+  counts: Map<string, number>;
+  rows: number;
+  skipped: number;
+  latestSale: string;
+}
+
+interface FeatureInput {
+  age: number;
+  km: number;
+  fuel?: FuelKind;
+  body?: VinBodyStyle;
+  condition: VehicleCondition;
+  issues: number;
+  performance: boolean;
+}
+
+const ISSUE_LEVELS: Record<IssueSeverity, number> = { none: 0, minor: 1, major: 2, critical: 3 };
+const CONDITIONS: VehicleCondition[] = ['excellent', 'good', 'fair', 'poor'];
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+// Two-sided 80 % band of a normal distribution
+const BAND_Z = 1.2816;
+
+/**
+ * Values BMWs from a log-linear model of comparable sales: a per-model base price
+ * adjusted for age, mileage, fuel, body style, condition and known-issue severity.
+ * Models without sales fall back to the catalogue estimatedValue.
+ */
+export class ValuationService {
+  private static calibration: ValuationCalibration | null = null;
+  private static readonly REFERENCE_ANNUAL_KM = 15000;
+  private static readonly MIN_MODEL_SALES_FOR_SD = 5;
+
+  static getSalesFile(): string {
+    return process.env.VALUATION_SALES_FILE || path.join(__dirname, '../../knowledge/valuation/comparable-sales.csv');
+  }
+
+  static modelKey(generation: string, model: string): string {
+    return `${generation} ${model}`;
+  }
+
+  /**
+   * Fit the model to the comparable sales file once
+   */
+  static getCalibration(): ValuationCalibration {
+    if (this.calibration) return this.calibration;
+
+    const file = this.getSalesFile();
+    const { sales, skipped } = this.readSales(file);
+    if (sales.length === 0) {
+      throw new Error(`No comparable sales in ${file}`);
+    }
+
+    const keys = [...new Set(sales.map(sale => this.modelKey(sale.generation, sale.model)))].sort();
+    const rows = sales.map(sale => {
+      const key = this.modelKey(sale.generation, sale.model);
+      return [
+        ...this.featureVector({
+          age: this.ageAt(sale.modelYear, this.parseDate(sale.soldAt)),
+          km: sale.odometer,
+          fuel: sale.fuel,
+          body: sale.body,
+          condition: sale.condition,
+          issues: sale.issueSeverity,
+          performance: this.isPerformance(sale.model)
+        }),
+        ...keys.map(k => (k === key ? 1 : 0))
+      ];
+    });
+    const targets = sales.map(sale => Math.log(sale.price));
+    const beta = fitLeastSquares(rows, targets);
+
+    const coefficients = Object.fromEntries(FEATURES.map((feature, i) => [feature, beta[i]])) as Record<Feature, number>;
+    const intercepts = new Map(keys.map((key, i) => [key, beta[FEATURES.length + i]]));
+
+    // Residual spread, per model where there is enough data
+    const residuals = new Map<string, number[]>();
+    rows.forEach((row, i) => {
+      const predicted = row.reduce((sum, value, j) => sum + value * beta[j], 0);
+      const key = this.modelKey(sales[i].generation, sales[i].model);
+      residuals.set(key, [...(residuals.get(key) || []), targets[i] - predicted]);
+    });
+    const allResiduals = [...residuals.values()].flat();
+    const globalSd = this.standardDeviation(allResiduals, FEATURES.length + keys.length);
+    const residualSd = new Map<string, number>();
+    const counts = new Map<string, number>();
+    for (const [key, values] of residuals) {
+      counts.set(key, values.length);
+      if (values.length >= this.MIN_MODEL_SALES_FOR_SD) {
+        residualSd.set(key, Math.max(this.standardDeviation(values, 1), globalSd * 0.5));
+      }
+    }
+
+    this.calibration = {
+      coefficients,
+      intercepts,
+      residualSd,
+      globalSd,
+      counts,
+      rows: sales.length,
+      skipped,
+      latestSale: sales.map(sale => sale.soldAt).sort().reverse()[0]
+    };
+    logger.info(`Calibrated valuation model from ${sales.length} comparable sales (${keys.length} models, σ=${globalSd.toFixed(3)})`);
+    return this.calibration;
+  }
+
+  /**
+   * Refit the model from the sales file; the current fit stays if the file is unusable
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.calibration, calibration => { this.calibration = calibration; }, () => this.getCalibration());
+  }
+
+  /**
+   * Estimate market value for every condition, with an 80 % band for the given one
+   */
+  static value(input: ValuationInput): Valuation | null {
+    try {
+      const calibration = this.getCalibration();
+      const today = input.today || new Date();
+      const key = this.modelKey(input.model.generation, input.model.model);
+      const performance = this.isPerformance(input.model.model) || input.model.series === 'M';
+      const modelYear = input.modelYear || Math.round((input.model.yearStart + Math.min(input.model.yearEnd, today.getFullYear())) / 2);
+      const age = this.ageAt(modelYear, today);
+      const km = input.odometer ?? age * this.REFERENCE_ANNUAL_KM;
+      const condition = input.condition || 'good';
+      const issues = ISSUE_LEVELS[input.knownIssues || 'none'];
+
+      const intercept = calibration.intercepts.get(key);
+      const base = intercept ?? this.catalogueIntercept(input.model, calibration, today, input.fuel, performance);
+      const predict = (c: VehicleCondition) => Math.exp(base + this.dot(
+        this.featureVector({ age, km, fuel: input.fuel, body: input.body, condition: c, issues, performance }),
+        calibration.coefficients
+      ));
+
+      const values = Object.fromEntries(CONDITIONS.map(c => [c, this.roundPrice(predict(c))])) as Valuation['values'];
+      const comparables = calibration.counts.get(key) || 0;
+      const sd = intercept === undefined
+        ? Math.max(calibration.globalSd * 2, 0.2)
+        : calibration.residualSd.get(key) ?? calibration.globalSd;
+      const center = predict(condition);
+
+      let confidence: Valuation['confidence'] = comparables >= 8 ? 'high' : comparables >= 4 ? 'medium' : 'low';
+      if (input.odometer === undefined && confidence !== 'low') {
+        confidence = confidence === 'high' ? 'medium' : 'low';
+      }
+
+      return {
+        currency: 'EUR',
+        values,
+        condition,
+        band: {
+          low: this.roundPrice(center * Math.exp(-BAND_Z * sd)),
+          high: this.roundPrice(center * Math.exp(BAND_Z * sd))
+        },
+        confidence,
+        comparables,
+        basis: intercept === undefined ? 'catalogue' : 'comparables',
+        asOf: calibration.latestSale
+      };
+    } catch (error) {
+      logger.error('Valuation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Base price for a model without sales: the catalogue "good" value is taken
+   * as the price of a mid-production car with average mileage
+   */
+  private static catalogueIntercept(model: BMWModel, calibration: ValuationCalibration, today: Date, fuel: FuelKind | undefined, performance: boolean): number {
+    const midYear = Math.round((model.yearStart + Math.min(model.yearEnd, today.getFullYear())) / 2);
+    const referenceAge = this.ageAt(midYear, today);
+    const reference = this.featureVector({
+      age: referenceAge,
+      km: referenceAge * this.REFERENCE_ANNUAL_KM,
+      fuel,
+      body: 'sedan',
+      condition: 'good',
+      issues: 0,
+      performance
+    });
+    return Math.log(model.estimatedValue.good) - this.dot(reference, calibration.coefficients);
+  }
+
+  private static featureVector(input: FeatureInput): number[] {
+    const km = input.km / 10000;
+    const values: Record<Feature, number> = {
+      age: input.age,
+      agePerformance: input.performance ? input.age : 0,
+      km,
+      kmDiesel: input.fuel === 'diesel' ? km : 0,
+      excellent: input.condition === 'excellent' ? 1 : 0,
+      fair: input.condition === 'fair' ? 1 : 0,
+      poor: input.condition === 'poor' ? 1 : 0,
+      touring: input.body === 'touring' ? 1 : 0,
+      coupe: input.body === 'coupe' ? 1 : 0,
+      convertible: input.body === 'convertible' ? 1 : 0,
+      issues: input.issues
+    };
+    return FEATURES.map(feature => values[feature]);
+  }
+
+  private static readSales(file: string): { sales: ComparableSale[]; skipped: number } {
+    const lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/).filter(line => line.trim());
+    const header = indexCsvHeader(lines[0]);
+    const sales: ComparableSale[] = [];
+    let skipped = 0;
+
+    for (const line of lines.slice(1)) {
+      const fields = parseCsvLine(line);
+      const record = Object.fromEntries([...header].map(([name, index]) => [name, fields[index]]));
+      const result = ComparableSaleSchema.safeParse({
+        ...record,
+        modelYear: record.modelyear,
+        issueSeverity: record.issueseverity,
+        soldAt: record.soldat
+      });
+      if (result.success) {
+        sales.push(result.data);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn(`Skipped ${skipped} invalid rows in ${file}`);
+    }
+    return { sales, skipped };
+  }
+
+  private static isPerformance(model: string): boolean {
+    return /^M\d/.test(model);
+  }
+
+  private static ageAt(modelYear: number, date: Date): number {
+    return Math.max((date.getTime() - Date.UTC(modelYear, 6, 1)) / YEAR_MS, 0);
+  }
+
+  private static parseDate(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private static dot(vector: number[], coefficients: Record<Feature, number>): number {
+    return FEATURES.reduce((sum, feature, i) => sum + vector[i] * coefficients[feature], 0);
+  }
+
+  private static standardDeviation(values: number[], degreesUsed: number): number {
+    const denominator = Math.max(values.length - degreesUsed, 1);
+    return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / denominator);
+  }
+
+  private static roundPrice(value: number): number {
+    return Math.round(value / 100) * 100;
+  }
+}
@@ -1,45 +1,18 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import axios from 'axios';
-import { RedisService } from './RedisService';
+import { CacheService } from './CacheService';
 import { BMWIntelligence } from './BMWIntelligence';
+import { VehicleStore } from './VehicleStore';
+import { Vehicle, VehicleSchema } from '../models/Vehicle';
+import { fromRekkari, fromScrapedFields, RekkariVehicle } from '../models/vehicleAdapters';
 import logger from '../utils/logger';
 
-export interface VehicleInfo {
-  registrationNumber: string;
-  make: string;
-  model: string;
-  year: number;
-  color: string;
-  engineSize: string;
-  fuelType: string;
-  power: string;
-  co2Emissions: string;
-  euroClass: string;
-  vehicleClass: string;
-  mass: string;
-  seats: number;
-  nextInspection: string;
-  taxClass: string;
-  bmwSpecific?: {
-    engineCode: string;
-    generation: string;
-    chassisCode: string;
-    recommendedOil: string;
-    oilCapacity: string;
-    serviceIntervals: string;
-    commonIssues: string[];
-    estimatedValue: string;
-    partsPriceLevel: 'Low' | 'Medium' | 'High' | 'Premium';
-  };
-  dataSource: 'traficom' | '02rekkari' | 'cache';
-  timestamp: string;
-  confidence: number;
-}
-
 export class VehicleLookupService {
   private static browser: Browser | null = null;
   private static readonly TRAFICOM_URL = 'https://www.traficom.fi/en/transport/drivers-and-vehicles/buying-and-selling-vehicle/check-vehicle-information';
   private static readonly CACHE_TTL = 30 * 24 * 60 * 60; // 30 days in seconds
+  // Older data is served once more while it is looked up again, e.g. for new inspection dates
+  private static readonly STALE_AFTER = 24 * 60 * 60; // 1 day in seconds
   private static readonly REKKARI_API_URL = 'https://02rekkari.fi/api/vehicle';
   private static readonly MAX_RETRIES = 3;
 
@@ -70,57 +43,83 @@ export class VehicleLookupService {
   }
 
   /**
-   * Main method to lookup vehicle information
+   * Main method to lookup vehicle information. Cached data is refreshed in
+   * the background once it is older than a day, and simultaneous lookups of
+   * the same plate share one scrape.
    */
-  static async lookupVehicle(registrationNumber: string): Promise<VehicleInfo> {
+  static async lookupVehicle(registrationNumber: string): Promise<Vehicle> {
     const cleanRegNumber = this.cleanRegistrationNumber(registrationNumber);
-    const cacheKey = `vehicle:${cleanRegNumber}`;
 
     try {
-      // Check cache first
-      const cachedData = await RedisService.get(cacheKey);
-      if (cachedData) {
-        logger.info(`Vehicle data found in cache for ${cleanRegNumber}`);
-        const vehicleInfo = JSON.parse(cachedData) as VehicleInfo;
-        vehicleInfo.dataSource = 'cache';
-        return vehicleInfo;
+      const vehicle = await CacheService.namespace('vehicle').cached(
+        this.cacheKey(cleanRegNumber),
+        VehicleSchema,
+        () => this.fetchVehicle(cleanRegNumber),
+        { ttl: this.CACHE_TTL, staleAfter: this.STALE_AFTER }
+      );
+      if (!vehicle) {
+        throw new Error(`No vehicle data found for registration number: ${cleanRegNumber}`);
       }
+      return vehicle;
 
-      // Try Traficom scraping first (free)
-      let vehicleInfo = await this.scrapeTraficom(cleanRegNumber);
+    } catch (error) {
+      logger.error(`Vehicle lookup failed for ${cleanRegNumber}:`, error);
+      throw error;
+    }
+  }
 
-      // If Traficom fails, try 02 Rekkari API (paid fallback)
-      if (!vehicleInfo) {
-        logger.warn(`Traficom scraping failed for ${cleanRegNumber}, trying 02 Rekkari`);
-        vehicleInfo = await this.query02Rekkari(cleanRegNumber);
-      }
+  /**
+   * Look the vehicle up from the sources, cheapest first
+   */
+  private static async fetchVehicle(cleanRegNumber: string): Promise<Vehicle> {
+    // Check the imported open-data register before scraping
+    let vehicleInfo = this.findInVehicleStore(cleanRegNumber);
 
-      if (!vehicleInfo) {
-        throw new Error(`No vehicle data found for registration number: ${cleanRegNumber}`);
-      }
+    // Try Traficom scraping next (free)
+    if (!vehicleInfo) {
+      vehicleInfo = await this.scrapeTraficom(cleanRegNumber);
+    }
 
-      // Enhance with BMW-specific data if it's a BMW
-      if (vehicleInfo.make.toLowerCase().includes('bmw')) {
-        vehicleInfo.bmwSpecific = await BMWIntelligence.getVehicleIntelligence(vehicleInfo);
-        vehicleInfo.confidence = Math.min(vehicleInfo.confidence + 0.1, 1.0);
-      }
+    // If Traficom fails, try 02 Rekkari API (paid fallback)
+    if (!vehicleInfo) {
+      logger.warn(`Traficom scraping failed for ${cleanRegNumber}, trying 02 Rekkari`);
+      vehicleInfo = await this.query02Rekkari(cleanRegNumber);
+    }
 
-      // Cache the result
-      await RedisService.setWithTTL(cacheKey, JSON.stringify(vehicleInfo), this.CACHE_TTL);
-      
-      logger.info(`Vehicle lookup completed successfully for ${cleanRegNumber}`);
-      return vehicleInfo;
+    if (!vehicleInfo) {
+      throw new Error(`No vehicle data found for registration number: ${cleanRegNumber}`);
+    }
 
+    // Enhance with BMW-specific data if it's a BMW
+    if (vehicleInfo.make.toLowerCase().includes('bmw')) {
+      vehicleInfo.bmwSpecific = await BMWIntelligence.getVehicleIntelligence(vehicleInfo);
+      vehicleInfo.confidence = Math.min(vehicleInfo.confidence + 0.1, 1.0);
+    }
+
+    logger.info(`Vehicle lookup completed successfully for ${cleanRegNumber}`);
+    return vehicleInfo;
+  }
+
+  /**
+   * Look up the vehicle in the local open-data store
+   */
+  private static findInVehicleStore(registrationNumber: string): Vehicle | null {
+    try {
+      const vehicle = VehicleStore.findByRegistration(registrationNumber.replace(/^([A-ZÅÄÖ]+)(\d+)$/, '$1-$2'));
+      if (!vehicle) return null;
+
+      logger.info(`Vehicle data found in local store for ${registrationNumber}`);
+      return { ...vehicle, registrationNumber };
     } catch (error) {
-      logger.error(`Vehicle lookup failed for ${cleanRegNumber}:`, error);
-      throw error;
+      logger.error(`Vehicle store lookup failed for ${registrationNumber}:`, error);
+      return null;
     }
   }
 
   /**
    * Scrape vehicle data from Traficom website
    */
-  private static async scrapeTraficom(registrationNumber: string): Promise<VehicleInfo | null> {
+  static async scrapeTraficom(registrationNumber: string): Promise<Vehicle | null> {
     let page: Page | null = null;
     
     try {
@@ -225,26 +224,7 @@ export class VehicleLookupService {
         return null;
       }
 
-      const vehicleInfo: VehicleInfo = {
-        registrationNumber,
-        make: vehicleData.make,
-        model: vehicleData.model,
-        year: parseInt(vehicleData.year) || 0,
-        color: vehicleData.color,
-        engineSize: vehicleData.engineSize,
-        fuelType: vehicleData.fuelType,
-        power: vehicleData.power,
-        co2Emissions: vehicleData.co2Emissions,
-        euroClass: vehicleData.euroClass,
-        vehicleClass: vehicleData.vehicleClass,
-        mass: vehicleData.mass,
-        seats: parseInt(vehicleData.seats) || 0,
-        nextInspection: vehicleData.nextInspection,
-        taxClass: vehicleData.taxClass,
-        dataSource: 'traficom',
-        timestamp: new Date().toISOString(),
-        confidence: 0.9
-      };
+      const vehicleInfo = fromScrapedFields(vehicleData, registrationNumber);
 
       logger.info(`Successfully scraped Traficom data for ${registrationNumber}`);
       return vehicleInfo;
@@ -262,7 +242,7 @@ export class VehicleLookupService {
   /**
    * Query 02 Rekkari API as fallback (paid service)
    */
-  private static async query02Rekkari(registrationNumber: string): Promise<VehicleInfo | null> {
+  static async query02Rekkari(registrationNumber: string): Promise<Vehicle | null> {
     try {
       if (!process.env.REKKARI_API_KEY) {
         logger.warn('02 Rekkari API key not configured');
@@ -278,28 +258,7 @@ export class VehicleLookupService {
       });
 
       if (response.data && response.data.vehicle) {
-        const data = response.data.vehicle;
-        
-        const vehicleInfo: VehicleInfo = {
-          registrationNumber,
-          make: data.make || '',
-          model: data.model || '',
-          year: data.year || 0,
-          color: data.color || '',
-          engineSize: data.engineSize || '',
-          fuelType: data.fuelType || '',
-          power: data.power || '',
-          co2Emissions: data.co2Emissions || '',
-          euroClass: data.euroClass || '',
-          vehicleClass: data.vehicleClass || '',
-          mass: data.mass || '',
-          seats: data.seats || 0,
-          nextInspection: data.nextInspection || '',
-          taxClass: data.taxClass || '',
-          dataSource: '02rekkari',
-          timestamp: new Date().toISOString(),
-          confidence: 0.95
-        };
+        const vehicleInfo = fromRekkari(response.data.vehicle as RekkariVehicle, registrationNumber);
 
         logger.info(`Successfully retrieved 02 Rekkari data for ${registrationNumber}`);
         return vehicleInfo;
@@ -330,17 +289,11 @@ export class VehicleLookupService {
   /**
    * Get cached vehicle data without lookup
    */
-  static async getCachedVehicle(registrationNumber: string): Promise<VehicleInfo | null> {
+  static async getCachedVehicle(registrationNumber: string): Promise<Vehicle | null> {
     const cleanRegNumber = this.cleanRegistrationNumber(registrationNumber);
-    const cacheKey = `vehicle:${cleanRegNumber}`;
     
     try {
-      const cachedData = await RedisService.get(cacheKey);
-      if (cachedData) {
-        const vehicleInfo = JSON.parse(cachedData) as VehicleInfo;
-        vehicleInfo.dataSource = 'cache';
-        return vehicleInfo;
-      }
+      return await CacheService.namespace('vehicle').peek(this.cacheKey(cleanRegNumber), VehicleSchema);
     } catch (error) {
       logger.error(`Failed to get cached vehicle data for ${cleanRegNumber}:`, error);
     }
@@ -353,16 +306,22 @@ export class VehicleLookupService {
    */
   static async clearVehicleCache(registrationNumber: string): Promise<void> {
     const cleanRegNumber = this.cleanRegistrationNumber(registrationNumber);
-    const cacheKey = `vehicle:${cleanRegNumber}`;
     
     try {
-      await RedisService.del(cacheKey);
+      await CacheService.namespace('vehicle').del(this.cacheKey(cleanRegNumber));
       logger.info(`Cache cleared for vehicle ${cleanRegNumber}`);
     } catch (error) {
       logger.error(`Failed to clear cache for vehicle ${cleanRegNumber}:`, error);
     }
   }
 
+  /**
+   * Key in the vehicle cache namespace, apart from the registry lookups of TraficomService
+   */
+  private static cacheKey(cleanRegNumber: string): string {
+    return `lookup:${cleanRegNumber}`;
+  }
+
   /**
    * Graceful shutdown - close browser
    */
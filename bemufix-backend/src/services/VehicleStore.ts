@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Vehicle, VehicleSchema } from '../models/Vehicle';
+import type { OpenDataRecord } from './registry/openData';
+import logger from '../utils/logger';
+
+export interface ImportRow {
+  record: OpenDataRecord;
+  hash: string;
+}
+
+export interface BatchResult {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+interface VehicleRow {
+  data: string;
+}
+
+/**
+ * Local SQLite store for the imported Traficom vehicle register,
+ * indexed by registration number and VIN.
+ */
+export class VehicleStore {
+  private static db: Database.Database | null = null;
+
+  static getFilePath(): string {
+    return process.env.VEHICLE_STORE_FILE || path.join(process.cwd(), 'data', 'vehicles.sqlite');
+  }
+
+  /**
+   * Whether an imported database exists on disk
+   */
+  static isAvailable(): boolean {
+    return this.db !== null || fs.existsSync(this.getFilePath());
+  }
+
+  /**
+   * Open (and create if needed) the store
+   */
+  static open(): Database.Database {
+    if (this.db) return this.db;
+
+    const filePath = this.getFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS vehicles (
+        record_key TEXT PRIMARY KEY,
+        registration_number TEXT,
+        vin TEXT,
+        row_hash TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_vehicles_registration ON vehicles (registration_number);
+      CREATE INDEX IF NOT EXISTS idx_vehicles_vin ON vehicles (vin);
+      CREATE TABLE IF NOT EXISTS imports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_file TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        inserted INTEGER DEFAULT 0,
+        updated INTEGER DEFAULT 0,
+        unchanged INTEGER DEFAULT 0,
+        dropped INTEGER DEFAULT 0
+      );
+    `);
+
+    this.db = db;
+    logger.info(`Vehicle store opened: ${filePath}`);
+    return db;
+  }
+
+  /**
+   * Find a vehicle by normalized registration number (ABC-123)
+   */
+  static findByRegistration(registrationNumber: string): Vehicle | null {
+    if (!this.isAvailable()) return null;
+
+    const row = this.open()
+      .prepare('SELECT data FROM vehicles WHERE registration_number = ? LIMIT 1')
+      .get(registrationNumber) as VehicleRow | undefined;
+    return row ? this.parseRow(row) : null;
+  }
+
+  /**
+   * Find a vehicle by VIN
+   */
+  static findByVin(vin: string): Vehicle | null {
+    if (!this.isAvailable()) return null;
+
+    const row = this.open()
+      .prepare('SELECT data FROM vehicles WHERE vin = ? LIMIT 1')
+      .get(vin.toUpperCase()) as VehicleRow | undefined;
+    return row ? this.parseRow(row) : null;
+  }
+
+  /**
+   * Validate a stored row against the vehicle schema
+   */
+  private static parseRow(row: VehicleRow): Vehicle | null {
+    const result = VehicleSchema.safeParse(JSON.parse(row.data));
+    if (!result.success) {
+      logger.warn(`Invalid vehicle row in store, re-import required: ${result.error.message}`);
+      return null;
+    }
+    return result.data;
+  }
+
+  /**
+   * Start an import run. Keys seen during the run are tracked so that
+   * rows missing from the new dump can be dropped in finishImport.
+   */
+  static beginImport(sourceFile: string): number {
+    const db = this.open();
+    db.exec('CREATE TEMP TABLE IF NOT EXISTS seen_keys (record_key TEXT PRIMARY KEY)');
+    db.exec('DELETE FROM seen_keys');
+
+    const result = db
+      .prepare('INSERT INTO imports (source_file, started_at) VALUES (?, ?)')
+      .run(sourceFile, new Date().toISOString());
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Apply a batch of parsed rows, writing only rows whose hash changed
+   */
+  static applyBatch(rows: ImportRow[]): BatchResult {
+    const db = this.open();
+    const result: BatchResult = { inserted: 0, updated: 0, unchanged: 0 };
+
+    const selectHash = db.prepare('SELECT row_hash FROM vehicles WHERE record_key = ?');
+    const markSeen = db.prepare('INSERT OR IGNORE INTO seen_keys (record_key) VALUES (?)');
+    const upsert = db.prepare(`
+      INSERT INTO vehicles (record_key, registration_number, vin, row_hash, data, updated_at)
+      VALUES (@key, @registrationNumber, @vin, @hash, @data, @updatedAt)
+      ON CONFLICT(record_key) DO UPDATE SET
+        registration_number = excluded.registration_number,
+        vin = excluded.vin,
+        row_hash = excluded.row_hash,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `);
+
+    const apply = db.transaction((batch: ImportRow[]) => {
+      const updatedAt = new Date().toISOString();
+
+      for (const { record, hash } of batch) {
+        markSeen.run(record.key);
+
+        const existing = selectHash.get(record.key) as { row_hash: string } | undefined;
+        if (existing && existing.row_hash === hash) {
+          result.unchanged++;
+          continue;
+        }
+
+        upsert.run({
+          key: record.key,
+          registrationNumber: record.vehicle.registrationNumber || null,
+          vin: record.vehicle.vin || null,
+          hash,
+          data: JSON.stringify(record.vehicle),
+          updatedAt
+        });
+
+        if (existing) {
+          result.updated++;
+        } else {
+          result.inserted++;
+        }
+      }
+    });
+
+    apply(rows);
+    return result;
+  }
+
+  /**
+   * Finish an import run, dropping rows that were not in the dump unless
+   * the import was partial. Returns the number of dropped rows.
+   */
+  static finishImport(importId: number, totals: BatchResult, dropMissing: boolean): number {
+    const db = this.open();
+
+    const dropped = dropMissing
+      ? db.prepare('DELETE FROM vehicles WHERE record_key NOT IN (SELECT record_key FROM seen_keys)').run().changes
+      : 0;
+
+    db.prepare(`
+      UPDATE imports
+      SET finished_at = ?, inserted = ?, updated = ?, unchanged = ?, dropped = ?
+      WHERE id = ?
+    `).run(new Date().toISOString(), totals.inserted, totals.updated, totals.unchanged, dropped, importId);
+
+    db.exec('DELETE FROM seen_keys');
+    return dropped;
+  }
+
+  /**
+   * Close the database handle
+   */
+  static close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import { DecodedVin, VinTable, VinTableSchema } from '../models/Vin';
+import logger from '../utils/logger';
+import { reloadKeepingPrevious } from '../utils/reload';
+
+/**
+ * Thrown for strings that cannot be a VIN at all (wrong length or characters)
+ */
+export class VinFormatError extends Error {
+  constructor(readonly vin: string) {
+    super(`Invalid VIN format: ${vin}`);
+    this.name = 'VinFormatError';
+  }
+}
+
+// ISO 3779 check digit transliteration and position weights
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year characters (position 10), repeating every 30 years from 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+/**
+ * Decodes 17-character VINs: check digit, manufacturer, model year,
+ * plant and serial, plus chassis, engine and body for known BMW type codes.
+ */
+export class VinDecoder {
+  private static table: VinTable | null = null;
+  private static readonly VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+  static getTableFile(): string {
+    return process.env.VIN_TABLE_FILE || path.join(__dirname, '../../knowledge/vin/bmw.json');
+  }
+
+  /**
+   * Uppercase and strip spaces and hyphens
+   */
+  static normalize(vin: string): string {
+    return vin.toUpperCase().replace(/[\s-]/g, '');
+  }
+
+  /**
+   * 17 characters, no I, O or Q
+   */
+  static isWellFormed(vin: string): boolean {
+    return this.VIN_PATTERN.test(vin);
+  }
+
+  /**
+   * Well formed and the check digit (position 9) matches
+   */
+  static isValid(vin: string): boolean {
+    const normalized = this.normalize(vin);
+    return this.isWellFormed(normalized) && this.calculateCheckDigit(normalized) === normalized[8];
+  }
+
+  /**
+   * Calculate the ISO 3779 check digit ('0'-'9' or 'X') of a well-formed VIN
+   */
+  static calculateCheckDigit(vin: string): string {
+    const sum = vin
+      .split('')
+      .reduce((total, char, index) => total + (/\d/.test(char) ? Number(char) : TRANSLITERATION[char]) * WEIGHTS[index], 0);
+    const remainder = sum % 11;
+    return remainder === 10 ? 'X' : String(remainder);
+  }
+
+  /**
+   * Decode a VIN. Throws VinFormatError for malformed input; a wrong check
+   * digit is reported through `valid` so the caller can still show the parts.
+   */
+  static decode(vin: string, referenceYear = new Date().getFullYear()): DecodedVin {
+    const normalized = this.normalize(vin);
+    if (!this.isWellFormed(normalized)) {
+      throw new VinFormatError(vin);
+    }
+
+    const table = this.getTable();
+    const wmi = normalized.slice(0, 3);
+    const typeCode = normalized.slice(3, 7);
+    const expected = this.calculateCheckDigit(normalized);
+    const plantCode = normalized[10];
+    const manufacturer = table.manufacturers[wmi] ?? null;
+
+    return {
+      vin: normalized,
+      valid: expected === normalized[8],
+      checkDigit: { expected, actual: normalized[8] },
+      wmi,
+      manufacturer,
+      isBmw: manufacturer !== null,
+      typeCode,
+      type: manufacturer ? table.typeCodes[typeCode] ?? null : null,
+      modelYear: this.decodeModelYear(normalized[9], referenceYear),
+      plantCode,
+      plant: manufacturer ? table.plants[plantCode] ?? null : null,
+      serial: normalized.slice(11)
+    };
+  }
+
+  /**
+   * Decode without throwing; null for malformed VINs and wrong check digits
+   */
+  static tryDecode(vin: string | undefined): DecodedVin | null {
+    if (!vin) return null;
+
+    try {
+      const decoded = this.decode(vin);
+      if (!decoded.valid) {
+        logger.warn(`VIN check digit mismatch for ${decoded.vin}: expected ${decoded.checkDigit.expected}`);
+        return null;
+      }
+      return decoded;
+    } catch (error) {
+      if (!(error instanceof VinFormatError)) {
+        logger.error('Failed to decode VIN:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the position 10 year code to the latest matching year
+   * that is not more than one year ahead of the reference year
+   */
+  static decodeModelYear(code: string, referenceYear = new Date().getFullYear()): number | null {
+    const index = MODEL_YEAR_CODES.indexOf(code);
+    if (index < 0) return null;
+
+    let year = 1980 + index;
+    while (year + 30 <= referenceYear + 1) {
+      year += 30;
+    }
+    return year;
+  }
+
+  /**
+   * Load and validate the lookup tables once
+   */
+  private static getTable(): VinTable {
+    if (this.table) return this.table;
+
+    const file = this.getTableFile();
+    this.table = VinTableSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    logger.info(`Loaded VIN tables from ${file}: ${Object.keys(this.table.typeCodes).length} BMW type codes`);
+    return this.table;
+  }
+
+  /**
+   * Read the VIN tables again, keeping the loaded tables if the file is invalid
+   */
+  static reload(): void {
+    reloadKeepingPrevious(this.table, table => { this.table = table; }, () => this.getTable());
+  }
+}
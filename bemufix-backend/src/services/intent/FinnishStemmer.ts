@@ -0,0 +1,110 @@
+// Endings are stripped in this order, at most one of each group, longest match first
+const CLITICS = ['kaan', 'kään', 'han', 'hän', 'kin', 'pa', 'pä', 'ko', 'kö'];
+const POSSESSIVES = ['nsa', 'nsä', 'mme', 'nne', 'ni', 'si'];
+const CASE_ENDINGS = [
+  'itten', 'iden', 'ojen', 'öjen', 'ineen',
+  'ista', 'istä', 'issa', 'issä', 'illa', 'illä', 'ilta', 'iltä', 'ille', 'iksi', 'jen', 'ien',
+  'ssa', 'ssä', 'sta', 'stä', 'lla', 'llä', 'lta', 'ltä', 'lle', 'ksi', 'tta', 'ttä',
+  'na', 'nä', 'ja', 'jä', 'ta', 'tä', 'in', 'en', 'an', 'än', 'on', 'un', 'yn',
+  'n', 't', 'a', 'ä'
+].sort((a, b) => b.length - a.length);
+
+const MIN_STEM = 4;
+
+// How well a message word has to resemble a keyword stem, and what that is worth
+const EXACT = 1;
+const PREFIX = 0.9;
+const COMPOUND = 0.8;
+const FUZZY = 0.7;
+const MIN_PREFIX_LENGTH = 4;
+const MIN_COMPOUND_LENGTH = 5;
+
+/**
+ * Light suffix-stripping stemmer for Finnish chat messages. It removes clitics,
+ * possessive suffixes and case endings so "jarrupalat", "jarrupaloja" and
+ * "jarrupalan" meet at a common prefix; it does not undo consonant gradation,
+ * which the classifier's prefix and fuzzy matching absorb.
+ */
+export class FinnishStemmer {
+  /**
+   * Lowercase words of a message; hyphenated words are split
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9åäöé]+/)
+      .filter(Boolean);
+  }
+
+  static stem(word: string): string {
+    let stem = word.toLowerCase();
+    if (stem.length <= MIN_STEM || /\d/.test(stem)) return stem;
+
+    stem = this.strip(stem, CLITICS, MIN_STEM - 1);
+    stem = this.strip(stem, POSSESSIVES, MIN_STEM + 1);
+    stem = this.strip(this.shortenFinalVowel(stem), CASE_ENDINGS, MIN_STEM);
+    return this.shortenFinalVowel(stem);
+  }
+
+  static stems(text: string): string[] {
+    return this.tokenize(text).map(word => this.stem(word));
+  }
+
+  /**
+   * Score 0-1 for a message word stem against a keyword stem: exact, prefix
+   * (inflected or derived form), compound word or a typo-sized edit distance
+   */
+  static match(stem: string, token: string): number {
+    if (token === stem) return EXACT;
+    if (stem.length >= MIN_PREFIX_LENGTH && token.startsWith(stem)) return PREFIX;
+    if (stem.length >= MIN_COMPOUND_LENGTH && token.includes(stem)) return COMPOUND;
+
+    const maxDistance = stem.length >= 8 ? 2 : stem.length >= 5 ? 1 : 0;
+    if (maxDistance > 0 && this.distance(stem, token, maxDistance) <= maxDistance) return FUZZY;
+    return 0;
+  }
+
+  /**
+   * Score 0-1 for a stemmed phrase in the message stems: every phrase word
+   * has to be present, and the weakest word match counts
+   */
+  static matchPhrase(stems: string[], tokens: string[]): number {
+    return Math.min(...stems.map(stem => Math.max(0, ...tokens.map(token => this.match(stem, token)))));
+  }
+
+  /**
+   * Edit distance with adjacent transpositions, stopping early above `max`
+   */
+  static distance(a: string, b: string, max = 2): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+      let rowMin = Infinity;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+        rowMin = Math.min(rowMin, rows[i][j]);
+      }
+      if (rowMin > max) return max + 1;
+    }
+    return rows[a.length][b.length];
+  }
+
+  /**
+   * Long final vowel of a partitive or illative: "aikaa" -> "aika", "vapaa" -> "vapa"
+   */
+  private static shortenFinalVowel(word: string): string {
+    return word.length > MIN_STEM + 1 && /([aeiouyäö])\1$/.test(word) ? word.slice(0, -1) : word;
+  }
+
+  private static strip(word: string, endings: string[], minStem: number): string {
+    const ending = endings.find(candidate => word.endsWith(candidate) && word.length - candidate.length >= minStem);
+    return ending ? word.slice(0, -ending.length) : word;
+  }
+}
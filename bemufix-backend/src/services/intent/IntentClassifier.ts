@@ -0,0 +1,11 @@
+import type { IntentResult, IntentSlots } from '../../models/Intent';
+
+/**
+ * One stage of the intent pipeline. Classifiers run in order and the first
+ * result that is not "unknown" wins, so a remote model can sit in front of
+ * the offline keyword classifier.
+ */
+export interface IntentClassifier {
+  readonly name: string;
+  classify(message: string, slots: IntentSlots): IntentResult | Promise<IntentResult>;
+}
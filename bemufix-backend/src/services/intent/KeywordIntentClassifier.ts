@@ -0,0 +1,68 @@
+import { IntentSchema } from '../../models/Intent';
+import type { Intent, IntentModel, IntentResult, IntentSlots } from '../../models/Intent';
+import type { IntentClassifier } from './IntentClassifier';
+import { FinnishStemmer } from './FinnishStemmer';
+
+interface CompiledKeyword {
+  intent: Intent;
+  stems: string[];
+  weight: number;
+}
+
+/**
+ * Offline classifier: sums the weights of stemmed keywords found in the message,
+ * tolerating inflection, compound words and small typos
+ */
+export class KeywordIntentClassifier implements IntentClassifier {
+  readonly name = 'keyword';
+  private readonly keywords: CompiledKeyword[];
+
+  constructor(private readonly model: IntentModel) {
+    this.keywords = Object.entries(model.intents).flatMap(([intent, keywords]) =>
+      Object.entries(keywords).map(([keyword, weight]) => ({
+        intent: intent as Intent,
+        stems: FinnishStemmer.stems(keyword),
+        weight
+      })));
+  }
+
+  classify(message: string, slots: IntentSlots): IntentResult {
+    const tokens = FinnishStemmer.stems(message);
+    const scores: Partial<Record<Intent, number>> = {};
+    const add = (intent: Intent, value: number) => {
+      scores[intent] = (scores[intent] || 0) + value;
+    };
+
+    for (const keyword of this.keywords) {
+      const quality = FinnishStemmer.matchPhrase(keyword.stems, tokens);
+      if (quality > 0) add(keyword.intent, keyword.weight * quality);
+    }
+
+    for (const [slot, boosts] of Object.entries(this.model.slotBoosts || {})) {
+      const value = slots[slot as keyof IntentSlots];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+      for (const [intent, boost] of Object.entries(boosts)) add(intent as Intent, boost);
+    }
+
+    const ranked = IntentSchema.options
+      .filter(intent => (scores[intent] || 0) > 0)
+      .sort((a, b) => (scores[b] || 0) - (scores[a] || 0));
+    const top = ranked[0] ? scores[ranked[0]] || 0 : 0;
+    const second = ranked[1] ? scores[ranked[1]] || 0 : 0;
+
+    for (const intent of ranked) scores[intent] = Number((scores[intent] || 0).toFixed(2));
+
+    if (!ranked[0] || top < this.model.minScore) {
+      return { intent: 'unknown', confidence: 0, slots, classifier: this.name, scores };
+    }
+
+    return {
+      intent: ranked[0],
+      // Saturates with evidence, shrinks when the runner-up is close
+      confidence: Number(((1 - Math.exp(-top)) * (top / (top + second))).toFixed(2)),
+      slots,
+      classifier: this.name,
+      scores
+    };
+  }
+}
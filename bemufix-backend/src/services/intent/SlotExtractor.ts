@@ -0,0 +1,122 @@
+import type { IntentSlots } from '../../models/Intent';
+import { DtcService } from '../DtcService';
+import { QuoteEngine } from '../QuoteEngine';
+import { TraficomService } from '../TraficomService';
+import { FinnishStemmer } from './FinnishStemmer';
+
+// Weekday stems in Date.getDay() order, matched as word prefixes ("maanantaina")
+const WEEKDAY_PREFIXES = ['sunnuntai', 'maanantai', 'tiistai', 'keskiviik', 'torstai', 'perjantai', 'lauantai'];
+
+const RELATIVE_DAYS: Record<string, number> = { tänään: 0, huomenna: 1, huomisen: 1, ylihuomenna: 2 };
+
+/**
+ * Pulls registration number, repair jobs, date, time and fault codes out of a chat message
+ */
+export class SlotExtractor {
+  static extract(message: string, today: Date = new Date()): IntentSlots {
+    const slots: IntentSlots = {};
+
+    const registrationNumber = this.extractRegistrationNumber(message);
+    if (registrationNumber) slots.registrationNumber = registrationNumber;
+
+    const serviceTypes = this.extractServiceTypes(message);
+    if (serviceTypes.length > 0) slots.serviceTypes = serviceTypes;
+
+    const date = this.extractDate(message, today);
+    if (date) slots.date = date;
+
+    const time = this.extractTime(message);
+    if (time) slots.time = time;
+
+    const faultCodes = DtcService.extractCodes(message);
+    if (faultCodes.length > 0) slots.faultCodes = faultCodes;
+
+    return slots;
+  }
+
+  static extractRegistrationNumber(message: string): string | undefined {
+    const candidates = message.match(/\b[A-ZÅÄÖ]{2,3}-?\d{1,4}\b/gi) || [];
+    const valid = candidates.find(candidate => TraficomService.validateRegistrationNumber(candidate));
+    return valid ? TraficomService.normalizeRegistrationNumber(valid) : undefined;
+  }
+
+  /**
+   * Price list job ids mentioned in the message, inflected forms included
+   * ("jarrupaloja", "vesipumpun"). Each word goes to the job with the longest matching
+   * keyword, so "jarrupalat" is brake pads rather than "jarrut".
+   */
+  static extractServiceTypes(message: string): string[] {
+    const keywords = QuoteEngine.getPricing().jobs.flatMap(job =>
+      job.keywords.map(keyword => ({ id: job.id, stem: FinnishStemmer.stem(keyword) })));
+    const ids = new Set<string>();
+
+    for (const token of FinnishStemmer.stems(message)) {
+      const best = keywords
+        .filter(({ stem }) => FinnishStemmer.match(stem, token) > 0)
+        .sort((a, b) => b.stem.length - a.stem.length)[0];
+      if (best) ids.add(best.id);
+    }
+
+    return [...ids];
+  }
+
+  /**
+   * Date as yyyy-mm-dd: "24.10.", "24.10.2026", "huomenna", "perjantaina", "ensi viikolla".
+   * A weekday means its next occurrence after today.
+   */
+  static extractDate(message: string, today: Date = new Date()): string | undefined {
+    const explicit = message.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})?(?!\d)/);
+    if (explicit) {
+      const [day, month] = [Number(explicit[1]), Number(explicit[2])];
+      if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+        let date = new Date(explicit[3] ? Number(explicit[3]) : today.getFullYear(), month - 1, day);
+        if (!explicit[3] && date < this.startOfDay(today)) {
+          date = new Date(today.getFullYear() + 1, month - 1, day);
+        }
+        return this.formatDate(date);
+      }
+    }
+
+    const words = FinnishStemmer.tokenize(message);
+    const relative = words.find(word => word in RELATIVE_DAYS);
+    if (relative) return this.formatDate(this.addDays(today, RELATIVE_DAYS[relative]));
+
+    const weekday = WEEKDAY_PREFIXES.findIndex(prefix => words.some(word => word.startsWith(prefix)));
+    if (weekday >= 0) {
+      const ahead = (weekday - today.getDay() + 7) % 7 || 7;
+      return this.formatDate(this.addDays(today, ahead));
+    }
+
+    const nextWeek = words.findIndex((word, i) => word === 'ensi' && words[i + 1]?.startsWith('viiko'));
+    if (nextWeek >= 0) {
+      const toMonday = (8 - today.getDay()) % 7 || 7;
+      return this.formatDate(this.addDays(today, toMonday));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Time as HH:MM: "klo 14", "klo 9.30", "14:30"
+   */
+  static extractTime(message: string): string | undefined {
+    const match = message.match(/\bklo\.?\s*(\d{1,2})(?:[.:](\d{2}))?\b/i) || message.match(/\b(\d{1,2}):(\d{2})\b/);
+    if (!match) return undefined;
+
+    const [hours, minutes] = [Number(match[1]), Number(match[2] || 0)];
+    if (hours > 23 || minutes > 59) return undefined;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  }
+
+  private static formatDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
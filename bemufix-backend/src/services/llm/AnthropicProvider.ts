@@ -0,0 +1,67 @@
+import Anthropic, { AI_PROMPT, HUMAN_PROMPT } from '@anthropic-ai/sdk';
+import { estimateTokens } from '../../utils/tokens';
+import type { LLMProvider, LLMRequest, LLMResponse } from './LLMProvider';
+
+/**
+ * Anthropic text completions (ANTHROPIC_API_KEY, model from ANTHROPIC_MODEL)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(
+    private readonly model = process.env.ANTHROPIC_MODEL || 'claude-2.1',
+    private readonly timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || 15000
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  async complete(request: LLMRequest, onToken?: (text: string) => void): Promise<LLMResponse> {
+    // The completions API takes a single prompt: system text first, then alternating turns
+    const prompt = `${request.system}${request.messages
+      .map(message => `${message.role === 'user' ? HUMAN_PROMPT : AI_PROMPT} ${message.content}`)
+      .join('')}${AI_PROMPT}`;
+
+    const params = {
+      model: this.model,
+      prompt,
+      max_tokens_to_sample: request.maxTokens,
+      stop_sequences: [HUMAN_PROMPT]
+    };
+    const options = { timeout: this.timeoutMs, maxRetries: 1 };
+
+    let text = '';
+    let model = this.model;
+    if (onToken) {
+      const stream = await this.getClient().completions.create({ ...params, stream: true }, options);
+      for await (const chunk of stream) {
+        // Drop the leading space the model starts its answer with
+        const delta = text ? chunk.completion : chunk.completion.trimStart();
+        text += delta;
+        model = chunk.model;
+        if (delta) onToken(delta);
+      }
+    } else {
+      const completion = await this.getClient().completions.create(params, options);
+      text = completion.completion;
+      model = completion.model;
+    }
+
+    text = text.trim();
+    return {
+      text,
+      model,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(text)
+    };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+}
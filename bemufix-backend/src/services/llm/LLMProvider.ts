@@ -0,0 +1,37 @@
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  // Instructions and grounding context
+  system: string;
+  // Conversation, oldest first, ending with the customer's question
+  messages: LLMMessage[];
+  maxTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  // Tokens counted by the provider, or estimated when it does not report them
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A language model backend the chat can ask for free-form answers
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Whether the provider is configured and can be called
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Generate an answer; when `onToken` is given, text is also passed on as it is generated
+   */
+  complete(request: LLMRequest, onToken?: (text: string) => void): Promise<LLMResponse>;
+}
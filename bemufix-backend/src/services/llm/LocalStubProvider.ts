@@ -0,0 +1,36 @@
+import { estimateTokens, truncateToTokens } from '../../utils/tokens';
+import type { LLMProvider, LLMRequest, LLMResponse } from './LLMProvider';
+
+/**
+ * Deterministic offline stand-in for a language model: answers from the
+ * request itself, so the chat flow can be exercised without network or keys
+ */
+export class LocalStubProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest, onToken?: (text: string) => void): Promise<LLMResponse> {
+    const question = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const vehicle = request.system.match(/^Auto: (.+)$/m)?.[1];
+
+    const text = truncateToTokens([
+      `Paikallinen testivastaus kysymykseen: "${truncateToTokens(question, 40)}".`,
+      vehicle ? `Vastaus koskisi autoa ${vehicle}.` : 'Autoa ei ole vielä tunnistettu.',
+      `Taustatietoa ${estimateTokens(request.system)} tokenia, keskustelussa ${request.messages.length} viestiä.`
+    ].join(' '), request.maxTokens);
+
+    if (onToken) {
+      for (const word of text.split(/(?<=\s)/)) onToken(word);
+    }
+
+    return {
+      text,
+      model: 'local-stub',
+      inputTokens: estimateTokens(request.system) + request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+      outputTokens: estimateTokens(text)
+    };
+  }
+}
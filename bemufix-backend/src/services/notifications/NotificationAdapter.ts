@@ -0,0 +1,21 @@
+import type { NotificationChannel, OutgoingMessage } from '../../models/Notification';
+
+export type { OutgoingMessage } from '../../models/Notification';
+
+/**
+ * Delivers rendered messages over one channel
+ */
+export interface NotificationAdapter {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+
+  /**
+   * Whether the adapter is configured and can send
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Send one message; throws when delivery fails so the job is retried
+   */
+  send(message: OutgoingMessage): Promise<void>;
+}
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import type { NotificationChannel } from '../../models/Notification';
+import type { NotificationAdapter, OutgoingMessage } from './NotificationAdapter';
+import logger from '../../utils/logger';
+
+export interface OutboxEntry extends OutgoingMessage {
+  sentAt: string;
+}
+
+/**
+ * Stand-in for email and SMS in development and tests: messages are kept in
+ * memory and, when NOTIFY_OUTBOX_FILE is set, appended to it as JSON lines
+ */
+export class OutboxAdapter implements NotificationAdapter {
+  readonly name = 'outbox';
+  readonly messages: OutboxEntry[] = [];
+
+  constructor(
+    readonly channel: NotificationChannel,
+    private readonly file = process.env.NOTIFY_OUTBOX_FILE
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const entry: OutboxEntry = { ...message, sentAt: new Date().toISOString() };
+    this.messages.push(entry);
+
+    if (this.file) {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.appendFile(this.file, `${JSON.stringify(entry)}\n`, 'utf-8');
+    }
+    logger.info(`Outbox ${message.channel} to ${message.to}: ${message.subject || message.text.slice(0, 60)}`);
+  }
+}
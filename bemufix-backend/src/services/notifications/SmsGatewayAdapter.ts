@@ -0,0 +1,44 @@
+import axios from 'axios';
+import type { NotificationAdapter, OutgoingMessage } from './NotificationAdapter';
+
+/**
+ * SMS through an HTTP gateway (SMS_GATEWAY_URL): the message is posted as
+ * JSON { from, to, text } with the API key as a bearer token
+ */
+export class SmsGatewayAdapter implements NotificationAdapter {
+  readonly name = 'gateway';
+  readonly channel = 'sms' as const;
+
+  constructor(
+    private readonly url = process.env.SMS_GATEWAY_URL,
+    private readonly apiKey = process.env.SMS_GATEWAY_API_KEY,
+    private readonly sender = process.env.SMS_SENDER || 'Bemufix',
+    private readonly timeoutMs = Number(process.env.SMS_GATEWAY_TIMEOUT_MS) || 10000
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.url && this.apiKey);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await axios.post(this.url!, {
+      from: this.sender,
+      to: this.toInternational(message.to),
+      text: message.text
+    }, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      timeout: this.timeoutMs
+    });
+  }
+
+  /**
+   * Finnish numbers in international form: 050 123 4567 -> +358501234567
+   */
+  private toInternational(phone: string): string {
+    const digits = phone.replace(/[\s-]/g, '');
+    if (digits.startsWith('+')) return digits;
+    if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+    if (digits.startsWith('0')) return `+358${digits.slice(1)}`;
+    return digits;
+  }
+}
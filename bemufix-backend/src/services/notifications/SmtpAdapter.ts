@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { NotificationAdapter, OutgoingMessage } from './NotificationAdapter';
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Plain-text email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD,
+ * SMTP_FROM). Port 465 uses TLS from the start; other ports upgrade with
+ * STARTTLS when the server offers it.
+ */
+export class SmtpAdapter implements NotificationAdapter {
+  readonly name = 'smtp';
+  readonly channel = 'email' as const;
+
+  constructor(
+    private readonly host = process.env.SMTP_HOST,
+    private readonly port = Number(process.env.SMTP_PORT) || 587,
+    private readonly user = process.env.SMTP_USER,
+    private readonly password = process.env.SMTP_PASSWORD,
+    private readonly from = process.env.SMTP_FROM,
+    private readonly timeoutMs = Number(process.env.SMTP_TIMEOUT_MS) || 15000
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.host && this.from);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const connection = await SmtpConnection.open(this.host!, this.port, this.timeoutMs);
+
+    try {
+      await connection.expect(220);
+      let features = await connection.command(`EHLO ${os.hostname()}`, 250);
+
+      if (this.port !== 465 && /^STARTTLS$/m.test(features.text)) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(this.host!);
+        features = await connection.command(`EHLO ${os.hostname()}`, 250);
+      }
+
+      if (this.user) {
+        if (!/^AUTH\b.*\bPLAIN\b/m.test(features.text)) {
+          throw new Error('SMTP server does not offer AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${this.user}\0${this.password || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${this.address(this.from!)}>`, 250);
+      await connection.command(`RCPT TO:<${message.to}>`, 250, 251);
+      await connection.command('DATA', 354);
+      await connection.command(`${this.formatMessage(message)}\r\n.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Headers and a base64 body, so non-ASCII text and lines starting with a dot pass unchanged
+   */
+  private formatMessage(message: OutgoingMessage): string {
+    const encodeHeader = (value: string) =>
+      /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+    const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64').match(/.{1,76}/g) || [];
+    const domain = this.address(this.from!).split('@')[1] || 'localhost';
+
+    return [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject || '')}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...body
+    ].join('\r\n');
+  }
+
+  /**
+   * Bare address of "Name <address>"
+   */
+  private address(from: string): string {
+    return from.match(/<([^>]+)>/)?.[1] || from.trim();
+  }
+}
+
+/**
+ * One SMTP session: commands are written a line at a time and multi-line
+ * replies collected until the final "code text" line
+ */
+class SmtpConnection {
+  private buffer = '';
+  private waiting: ((reply: SmtpReply | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static open(host: string, port: number, timeoutMs: number): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = port === 465
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const ready = port === 465 ? 'secureConnect' : 'connect';
+
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP connection to ${host}:${port} timed out`)));
+      socket.once('error', reject);
+      socket.once(ready, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+
+  /**
+   * Switch the session to TLS after a successful STARTTLS
+   */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      const secure = tls.connect({ socket: this.socket, servername: host });
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        secure.setTimeout(this.timeoutMs, () => secure.destroy(new Error('SMTP connection timed out')));
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.deliver();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = reply => reply instanceof Error ? reject(reply) : resolve(reply);
+      this.deliver();
+    });
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+
+    // A reply ends with a line whose code is followed by a space, e.g. "250 OK"
+    const lines = this.buffer.split('\r\n');
+    const last = lines.findIndex((line, i) => i < lines.length - 1 && /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+
+    const replyLines = lines.slice(0, last + 1);
+    this.buffer = lines.slice(last + 1).join('\r\n');
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting({
+      code: Number(replyLines[last].slice(0, 3)),
+      text: replyLines.map(line => line.slice(4)).join('\n')
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.(error);
+  }
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import { Vehicle, VehicleSchema } from '../../models/Vehicle';
+import type { VehicleRegistryProvider } from './VehicleRegistryProvider';
+import logger from '../../utils/logger';
+
+type FixtureVehicle = Omit<Vehicle, 'source' | 'fetchedAt' | 'confidence'>;
+
+/**
+ * Serves vehicles from a local JSON fixture file for tests and offline development
+ */
+export class FixtureRegistryProvider implements VehicleRegistryProvider {
+  readonly name = 'fixture' as const;
+  private vehicles: Map<string, FixtureVehicle> | null = null;
+
+  constructor(private readonly source: string | FixtureVehicle[]) {}
+
+  isAvailable(): boolean {
+    return typeof this.source !== 'string' || fs.existsSync(this.source);
+  }
+
+  async lookup(registrationNumber: string): Promise<Vehicle | null> {
+    const vehicle = this.load().get(registrationNumber);
+    if (!vehicle) return null;
+
+    return VehicleSchema.parse({
+      ...vehicle,
+      registrationNumber,
+      source: this.name,
+      fetchedAt: new Date().toISOString(),
+      confidence: 1
+    });
+  }
+
+  private load(): Map<string, FixtureVehicle> {
+    if (this.vehicles) return this.vehicles;
+
+    let records: FixtureVehicle[] = [];
+    if (typeof this.source === 'string') {
+      try {
+        records = JSON.parse(fs.readFileSync(this.source, 'utf-8')) as FixtureVehicle[];
+      } catch (error) {
+        logger.error(`Failed to read vehicle fixtures from ${this.source}:`, error);
+      }
+    } else {
+      records = this.source;
+    }
+
+    this.vehicles = new Map(records.map(record => [record.registrationNumber.toUpperCase(), record]));
+    return this.vehicles;
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import readline from 'readline';
+import { indexCsvHeader, parseCsvLine } from '../../utils/csv';
+import { VehicleStore, BatchResult, ImportRow } from '../VehicleStore';
+import { parseOpenDataRow } from './openData';
+import logger from '../../utils/logger';
+
+export interface ImportOptions {
+  encoding?: BufferEncoding;
+  delimiter?: string;
+  batchSize?: number;
+  // A partial (delta) file does not drop rows missing from it
+  partial?: boolean;
+}
+
+export interface ImportReport extends BatchResult {
+  importId: number;
+  rows: number;
+  skipped: number;
+  dropped: number;
+  durationMs: number;
+}
+
+/**
+ * Streams a Traficom open-data CSV dump into the local VehicleStore
+ */
+export class OpenDataImporter {
+  private static readonly DEFAULT_BATCH_SIZE = 5000;
+
+  static async import(filePath: string, options: ImportOptions = {}): Promise<ImportReport> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Open data file not found: ${filePath}`);
+    }
+
+    const delimiter = options.delimiter || ';';
+    const batchSize = options.batchSize || this.DEFAULT_BATCH_SIZE;
+    const start = Date.now();
+
+    const importId = VehicleStore.beginImport(filePath);
+    const totals: BatchResult = { inserted: 0, updated: 0, unchanged: 0 };
+    let rows = 0;
+    let skipped = 0;
+    let batch: ImportRow[] = [];
+
+    const flush = () => {
+      if (batch.length === 0) return;
+      const result = VehicleStore.applyBatch(batch);
+      totals.inserted += result.inserted;
+      totals.updated += result.updated;
+      totals.unchanged += result.unchanged;
+      batch = [];
+    };
+
+    const stream = fs.createReadStream(filePath, { encoding: options.encoding || 'utf-8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let header: Map<string, number> | null = null;
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      if (!header) {
+        header = indexCsvHeader(line, delimiter);
+        continue;
+      }
+
+      rows++;
+      const record = parseOpenDataRow(parseCsvLine(line, delimiter), header);
+      if (!record) {
+        skipped++;
+        continue;
+      }
+
+      const hash = crypto.createHash('sha1').update(line).digest('hex');
+      batch.push({ record, hash });
+
+      if (batch.length >= batchSize) {
+        flush();
+        logger.debug(`Open data import: ${rows} rows processed`);
+      }
+    }
+    flush();
+
+    const dropped = VehicleStore.finishImport(importId, totals, !options.partial);
+
+    const report: ImportReport = {
+      importId,
+      rows,
+      skipped,
+      dropped,
+      ...totals,
+      durationMs: Date.now() - start
+    };
+
+    logger.info(
+      `Open data import #${importId} finished: ${report.inserted} inserted, ${report.updated} updated, ` +
+      `${report.unchanged} unchanged, ${report.dropped} dropped, ${report.skipped} skipped in ${report.durationMs}ms`
+    );
+    return report;
+  }
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import readline from 'readline';
+import { indexCsvHeader, parseCsvLine } from '../../utils/csv';
+import { VehicleStore } from '../VehicleStore';
+import type { Vehicle } from '../../models/Vehicle';
+import { findRegistrationColumn, parseOpenDataRow } from './openData';
+import type { VehicleRegistryProvider } from './VehicleRegistryProvider';
+import logger from '../../utils/logger';
+
+/**
+ * Reads the Traficom open-data vehicle register.
+ *
+ * Lookups go to the local VehicleStore once the dump has been imported
+ * (npm run import:opendata); until then the CSV file is scanned directly.
+ * The public dump is anonymised and has no registration numbers, so plates
+ * only match when the file carries a rekisteritunnus column, as the
+ * licensed extracts do.
+ */
+export class OpenDataRegistryProvider implements VehicleRegistryProvider {
+  readonly name = 'opendata' as const;
+
+  constructor(private readonly filePath: string) {}
+
+  isAvailable(): boolean {
+    return VehicleStore.isAvailable() || fs.existsSync(this.filePath);
+  }
+
+  async lookup(registrationNumber: string): Promise<Vehicle | null> {
+    if (VehicleStore.isAvailable()) {
+      return VehicleStore.findByRegistration(registrationNumber);
+    }
+
+    return this.scanFile(registrationNumber);
+  }
+
+  private async scanFile(registrationNumber: string): Promise<Vehicle | null> {
+    const stream = fs.createReadStream(this.filePath, { encoding: 'utf-8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+    let header: Map<string, number> | null = null;
+    let regColumn: number | undefined;
+    const wanted = registrationNumber.replace(/-/g, '');
+
+    try {
+      for await (const line of lines) {
+        if (!header) {
+          header = indexCsvHeader(line);
+          regColumn = findRegistrationColumn(header);
+          if (regColumn === undefined) {
+            logger.warn(`Open data file ${this.filePath} has no registration number column`);
+            return null;
+          }
+          continue;
+        }
+
+        const fields = parseCsvLine(line);
+        if (fields[regColumn!]?.replace(/[\s-]/g, '').toUpperCase() !== wanted) {
+          continue;
+        }
+
+        const record = parseOpenDataRow(fields, header);
+        return record ? { ...record.vehicle, registrationNumber } : null;
+      }
+      return null;
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { VehicleLookupService } from '../VehicleLookupService';
+import type { Vehicle } from '../../models/Vehicle';
+import type { VehicleRegistryProvider } from './VehicleRegistryProvider';
+
+/**
+ * Queries the paid 02rekkari API
+ */
+export class RekkariRegistryProvider implements VehicleRegistryProvider {
+  readonly name = '02rekkari' as const;
+
+  isAvailable(): boolean {
+    return Boolean(process.env.REKKARI_API_KEY);
+  }
+
+  async lookup(registrationNumber: string): Promise<Vehicle | null> {
+    return VehicleLookupService.query02Rekkari(registrationNumber);
+  }
+}
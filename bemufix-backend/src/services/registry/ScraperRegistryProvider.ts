@@ -0,0 +1,18 @@
+import { VehicleLookupService } from '../VehicleLookupService';
+import type { Vehicle } from '../../models/Vehicle';
+import type { VehicleRegistryProvider } from './VehicleRegistryProvider';
+
+/**
+ * Scrapes the Traficom vehicle information page with puppeteer
+ */
+export class ScraperRegistryProvider implements VehicleRegistryProvider {
+  readonly name = 'traficom' as const;
+
+  isAvailable(): boolean {
+    return process.env.DISABLE_TRAFICOM_SCRAPER !== 'true';
+  }
+
+  async lookup(registrationNumber: string): Promise<Vehicle | null> {
+    return VehicleLookupService.scrapeTraficom(registrationNumber);
+  }
+}
@@ -0,0 +1,19 @@
+import type { Vehicle, VehicleSource } from '../../models/Vehicle';
+
+/**
+ * A backend that can resolve a Finnish registration number to vehicle data
+ */
+export interface VehicleRegistryProvider {
+  readonly name: VehicleSource;
+
+  /**
+   * Whether the provider is configured and can be queried
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Look up a vehicle by normalized registration number (ABC-123).
+   * Returns null when the provider has no record for the plate.
+   */
+  lookup(registrationNumber: string): Promise<Vehicle | null>;
+}
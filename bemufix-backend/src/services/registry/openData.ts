@@ -0,0 +1,89 @@
+import type { Vehicle } from '../../models/Vehicle';
+import { fuelTypeLabel, parseFinnishDate, parseInteger, parseMeasurement } from '../../models/vehicleAdapters';
+
+const REGISTRATION_COLUMNS = ['rekisteritunnus', 'rekisterinumero', 'registrationnumber'];
+
+// Traficom open data "vari" codes
+const COLOR_CODES: Record<string, string> = {
+  '0': 'Musta',
+  '1': 'Ruskea',
+  '2': 'Punainen',
+  '3': 'Oranssi',
+  '4': 'Keltainen',
+  '5': 'Vihreä',
+  '6': 'Sininen',
+  '7': 'Violetti',
+  '8': 'Harmaa',
+  '9': 'Valkoinen',
+  'X': 'Monivärinen',
+  'Y': 'Hopea',
+  'Z': 'Turkoosi'
+};
+
+/**
+ * One row of the Traficom open-data register, keyed by registration number,
+ * VIN or row number (in that order of preference)
+ */
+export interface OpenDataRecord {
+  key: string;
+  vehicle: Vehicle;
+}
+
+/**
+ * Find the registration number column, if the extract has one
+ */
+export function findRegistrationColumn(header: Map<string, number>): number | undefined {
+  return REGISTRATION_COLUMNS.map(name => header.get(name)).find(index => index !== undefined);
+}
+
+/**
+ * Adapter for the Traficom open-data CSV.
+ * Returns null for rows without a usable key (registration number, VIN or jarnro).
+ */
+export function parseOpenDataRow(fields: string[], header: Map<string, number>): OpenDataRecord | null {
+  const column = (name: string): string | undefined => {
+    const index = header.get(name.toLowerCase());
+    const value = index !== undefined ? fields[index] : undefined;
+    return value ? value : undefined;
+  };
+
+  const regColumn = findRegistrationColumn(header);
+  const rawRegistration = regColumn !== undefined ? fields[regColumn] : undefined;
+  const registrationNumber = rawRegistration
+    ? rawRegistration.replace(/[\s-]/g, '').toUpperCase().replace(/^([A-ZÅÄÖ]+)(\d+)$/, '$1-$2')
+    : undefined;
+  const vin = column('valmistenumero') || column('valmistenumero2');
+  const rowNumber = column('jarnro');
+
+  const key = registrationNumber || vin || (rowNumber ? `row:${rowNumber}` : undefined);
+  if (!key) return null;
+
+  const firstRegistration = parseFinnishDate(column('ensirekisterointipvm'));
+  const commissioning = parseFinnishDate(column('kayttoonottopvm'));
+  const color = column('vari');
+
+  return {
+    key,
+    vehicle: {
+      registrationNumber: registrationNumber || '',
+      vin: vin ? vin.toUpperCase() : undefined,
+      make: column('merkkiSelvakielinen') || '',
+      model: column('kaupallinenNimi') || column('mallimerkinta') || '',
+      modelYear: parseInteger((commissioning || firstRegistration)?.slice(0, 4)),
+      firstRegistration,
+      color: color ? COLOR_CODES[color] || color : undefined,
+      fuelType: fuelTypeLabel(column('kayttovoima')),
+      engineDisplacement: parseMeasurement(column('iskutilavuus')),
+      enginePower: parseMeasurement(column('suurinNettoteho')),
+      co2Emissions: parseMeasurement(column('Co2')),
+      mass: parseMeasurement(column('omamassa')),
+      seats: parseInteger(column('istumapaikkojenLkm')),
+      euroClass: column('paastoluokka'),
+      vehicleClass: column('ajoneuvoluokka'),
+      odometer: parseInteger(column('matkamittarilukema')),
+      source: 'opendata',
+      fetchedAt: new Date().toISOString(),
+      confidence: 0.85
+    }
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Key-value storage behind RedisService: caches, chat sessions, rate limit
+ * counters and the notification queue. Commands follow Redis semantics;
+ * implementations throw when the backend fails and RedisService decides
+ * what to do about it.
+ */
+export interface KeyValueStore {
+  readonly name: string;
+
+  /**
+   * Whether the store is connected and can take commands
+   */
+  isAvailable(): boolean;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  get(key: string): Promise<string | null>;
+  /**
+   * Set a value, expiring after `ttlSeconds` when given
+   */
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  /**
+   * Delete keys; returns how many existed
+   */
+  del(keys: string[]): Promise<number>;
+  /**
+   * Like del, but Redis frees the memory in the background
+   */
+  unlink(keys: string[]): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  /**
+   * Seconds to expiry: -1 without expiry, -2 for a missing key
+   */
+  ttl(key: string): Promise<number>;
+  incr(key: string): Promise<number>;
+  /**
+   * Returns false when the key does not exist
+   */
+  expire(key: string, seconds: number): Promise<boolean>;
+  /**
+   * Keys matching a glob pattern (`*`, `?`), walked with a cursor `count`
+   * keys at a time so the server is never blocked. A key may come up twice.
+   */
+  scan(pattern: string, count: number): AsyncIterable<string>;
+
+  lpush(key: string, value: string): Promise<number>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+
+  zadd(key: string, score: number, member: string): Promise<number>;
+  zrange(key: string, start: number, stop: number): Promise<string[]>;
+
+  /**
+   * Server information in the Redis INFO format
+   */
+  info(): Promise<string>;
+  ping(): Promise<void>;
+}
@@ -0,0 +1,232 @@
+import type { KeyValueStore } from './KeyValueStore';
+
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'list'; items: string[]; expiresAt?: number }
+  | { type: 'zset'; members: Map<string, number>; expiresAt?: number };
+
+/**
+ * In-process store for development, tests and Redis outages. Keys expire
+ * like in Redis, and the least recently used keys are dropped once there
+ * are more than `maxKeys`. Data is per process and lost on restart.
+ */
+export class MemoryStore implements KeyValueStore {
+  readonly name = 'memory';
+  // Map order is the LRU order: every read or write moves a key to the end
+  private readonly entries = new Map<string, Entry>();
+
+  constructor(private readonly maxKeys = Number(process.env.KV_MEMORY_MAX_KEYS) || 10000) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.read(key, 'string');
+    return entry ? entry.value : null;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.write(key, {
+      type: 'string',
+      value,
+      expiresAt: ttlSeconds !== undefined ? Date.now() + ttlSeconds * 1000 : undefined
+    });
+  }
+
+  async del(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.read(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async unlink(keys: string[]): Promise<number> {
+    return this.del(keys);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== undefined;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.read(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.round((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.read(key, 'string');
+    const current = entry ? Number(entry.value) : 0;
+    if (!Number.isInteger(current)) {
+      throw new Error('ERR value is not an integer or out of range');
+    }
+    // Incrementing keeps the expiry, as in Redis
+    this.write(key, { type: 'string', value: String(current + 1), expiresAt: entry?.expiresAt });
+    return current + 1;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    const entry = this.read(key);
+    if (!entry) return false;
+
+    if (seconds <= 0) {
+      this.entries.delete(key);
+    } else {
+      entry.expiresAt = Date.now() + seconds * 1000;
+    }
+    return true;
+  }
+
+  /**
+   * Walks a snapshot of the keys, so keys may be deleted during the scan
+   */
+  async *scan(pattern: string): AsyncIterable<string> {
+    const matcher = globToRegExp(pattern);
+    const now = Date.now();
+    for (const [key, entry] of [...this.entries]) {
+      if (!isExpired(entry, now) && matcher.test(key)) yield key;
+    }
+  }
+
+  /**
+   * Keys holding a live list, for moving them to another store
+   */
+  listKeys(): string[] {
+    const now = Date.now();
+    return [...this.entries].filter(([, entry]) => entry.type === 'list' && !isExpired(entry, now)).map(([key]) => key);
+  }
+
+  async lpush(key: string, value: string): Promise<number> {
+    const entry = this.read(key, 'list') ?? { type: 'list' as const, items: [] };
+    entry.items.unshift(value);
+    this.write(key, entry);
+    return entry.items.length;
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    const entry = this.read(key, 'list');
+    return entry ? sliceRange(entry.items, start, stop) : [];
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    const entry = this.read(key, 'list');
+    if (!entry) return;
+
+    entry.items = sliceRange(entry.items, start, stop);
+    // Like Redis, an empty list is no key at all
+    if (entry.items.length === 0) this.entries.delete(key);
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    const entry = this.read(key, 'zset') ?? { type: 'zset' as const, members: new Map<string, number>() };
+    const added = entry.members.has(member) ? 0 : 1;
+    entry.members.set(member, score);
+    this.write(key, entry);
+    return added;
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    const entry = this.read(key, 'zset');
+    if (!entry) return [];
+
+    const sorted = [...entry.members]
+      .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || (a < b ? -1 : a > b ? 1 : 0))
+      .map(([member]) => member);
+    return sliceRange(sorted, start, stop);
+  }
+
+  async info(): Promise<string> {
+    const memory = process.memoryUsage();
+    return [
+      '# Server',
+      'kv_store:memory',
+      `uptime_in_seconds:${Math.round(process.uptime())}`,
+      '# Memory',
+      `used_memory:${memory.heapUsed}`,
+      '# Keyspace',
+      `keys:${this.entries.size}`,
+      `max_keys:${this.maxKeys}`
+    ].join('\r\n');
+  }
+
+  async ping(): Promise<void> {}
+
+  /**
+   * Live entry of a key, marked as recently used; a key of another type is
+   * an error like Redis' WRONGTYPE
+   */
+  private read<T extends Entry['type']>(key: string, type?: T): Extract<Entry, { type: T }> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (isExpired(entry, Date.now())) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    if (type && entry.type !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as Extract<Entry, { type: T }>;
+  }
+
+  private write(key: string, entry: Entry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxKeys) this.evict();
+  }
+
+  /**
+   * Drop expired keys, then the least recently used ones over the limit
+   */
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry, now)) this.entries.delete(key);
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxKeys) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+function isExpired(entry: Entry, now: number): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * Items from start to stop inclusive; negative indexes count from the end, as in LRANGE
+ */
+function sliceRange<T>(items: T[], start: number, stop: number): T[] {
+  const from = Math.max(start < 0 ? items.length + start : start, 0);
+  const to = stop < 0 ? items.length + stop : Math.min(stop, items.length - 1);
+  return from > to ? [] : items.slice(from, to + 1);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else if (char === '\\' && i + 1 < pattern.length) source += escapeRegExp(pattern[++i]);
+    else source += escapeRegExp(char);
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,155 @@
+import { createClient, RedisClientType } from 'redis';
+import type { KeyValueStore } from './KeyValueStore';
+import logger from '../../utils/logger';
+
+// Attempts of the first connection before giving up; RedisService tries again later
+const CONNECT_RETRIES = 5;
+
+/**
+ * Redis server at REDIS_URL. Commands fail right away while the connection
+ * is down instead of waiting in the client's offline queue.
+ */
+export class RedisStore implements KeyValueStore {
+  readonly name = 'redis';
+  private client: RedisClientType | null = null;
+  private ready = false;
+
+  constructor(private readonly url = process.env.REDIS_URL || 'redis://localhost:6379') {}
+
+  isAvailable(): boolean {
+    return this.ready && this.client !== null;
+  }
+
+  async connect(): Promise<void> {
+    // Connected, or the client is already reconnecting on its own
+    if (this.client) return;
+
+    let wasReady = false;
+    const client: RedisClientType = createClient({
+      url: this.url,
+      disableOfflineQueue: true,
+      socket: {
+        reconnectStrategy: (retries) => {
+          if (!wasReady && retries >= CONNECT_RETRIES) {
+            return new Error(`Redis connection failed after ${retries} retries`);
+          }
+          // Once connected, keep trying so the store comes back after an outage
+          return Math.min(retries * 100, 5000);
+        }
+      }
+    });
+
+    client.on('error', (error) => {
+      if (this.ready) logger.error('Redis client error:', error);
+      this.ready = false;
+    });
+    client.on('connect', () => logger.info('Redis client connecting...'));
+    client.on('ready', () => {
+      logger.info('Redis client ready');
+      wasReady = true;
+      this.ready = true;
+    });
+    client.on('end', () => {
+      logger.warn('Redis client connection ended');
+      this.ready = false;
+      if (this.client === client) this.client = null;
+    });
+    client.on('reconnecting', () => logger.debug('Redis client reconnecting...'));
+
+    this.client = client;
+    try {
+      await client.connect();
+      await client.ping();
+      this.ready = true;
+      logger.info('Successfully connected to Redis');
+    } catch (error) {
+      this.ready = false;
+      this.client = null;
+      if (client.isOpen) await client.disconnect().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.ready = false;
+    if (client?.isOpen) {
+      await client.quit();
+      logger.info('Disconnected from Redis');
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.getClient().get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    if (ttlSeconds !== undefined) {
+      await this.getClient().setEx(key, ttlSeconds, value);
+    } else {
+      await this.getClient().set(key, value);
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.length > 0 ? this.getClient().del(keys) : 0;
+  }
+
+  async unlink(keys: string[]): Promise<number> {
+    return keys.length > 0 ? this.getClient().unlink(keys) : 0;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.getClient().exists(key)) > 0;
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.getClient().ttl(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.getClient().incr(key);
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    return this.getClient().expire(key, seconds);
+  }
+
+  async *scan(pattern: string, count: number): AsyncIterable<string> {
+    yield* this.getClient().scanIterator({ MATCH: pattern, COUNT: count });
+  }
+
+  async lpush(key: string, value: string): Promise<number> {
+    return this.getClient().lPush(key, value);
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.getClient().lRange(key, start, stop);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.getClient().lTrim(key, start, stop);
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    return this.getClient().zAdd(key, { score, value: member });
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.getClient().zRange(key, start, stop);
+  }
+
+  async info(): Promise<string> {
+    return this.getClient().info();
+  }
+
+  async ping(): Promise<void> {
+    await this.getClient().ping();
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.client) throw new Error('Redis not connected');
+    return this.client;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Split a single CSV line into fields.
+ * Handles quoted fields and doubled quotes; multi-line fields are not supported.
+ */
+export function parseCsvLine(line: string, delimiter = ';'): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Build a header-name to column-index lookup from the first CSV line
+ */
+export function indexCsvHeader(line: string, delimiter = ';'): Map<string, number> {
+  const header = new Map<string, number>();
+  parseCsvLine(line.replace(/^\uFEFF/, ''), delimiter).forEach((name, index) => {
+    header.set(name.toLowerCase(), index);
+  });
+  return header;
+}
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+
+/**
+ * Thrown for a malformed, tampered or expired token
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Sign claims as an HS256 JSON Web Token; `iat` and `exp` are added
+ */
+export function signJwt(
+  claims: Record<string, unknown>,
+  secret: string,
+  expiresInSeconds: number,
+  now: Date = new Date()
+): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp: iat + expiresInSeconds }));
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Claims of an HS256 token signed with `secret`. Other algorithms are
+ * rejected, so a token cannot downgrade itself to `none`.
+ */
+export function verifyJwt<T = Record<string, unknown>>(token: string, secret: string, now: Date = new Date()): T {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new JwtError('Malformed token');
+  const [header, payload, signature] = parts;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    throw new JwtError('Invalid signature');
+  }
+
+  const { alg } = decode(header);
+  if (alg !== 'HS256') throw new JwtError(`Unsupported algorithm: ${String(alg)}`);
+
+  const claims = decode(payload);
+  if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new JwtError('Token expired');
+  }
+  return claims as T;
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function decode(part: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('not an object');
+    return value as Record<string, unknown>;
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+}
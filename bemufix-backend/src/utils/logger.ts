@@ -172,6 +172,9 @@ export const loggers = {
     },
     suspiciousActivity: (activity: string, ip: string, details?: any) => {
       logger.warn(`Suspicious activity: ${activity} from ${ip}`, details);
+    },
+    adminAction: (actor: string, action: string, ip: string, status: number) => {
+      logger.info(`Admin action: ${action} by ${actor}, ip=${ip}, status=${status}`);
     }
   },
   
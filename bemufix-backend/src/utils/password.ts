@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const KEY_LENGTH = 64;
+
+/**
+ * Salted scrypt hash as `scrypt$N$r$p$salt$hash`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH, { N: COST, r: BLOCK_SIZE, p: PARALLELISM });
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Compare a password to a stored hash in constant time; false for an
+ * unreadable hash
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  try {
+    const key = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p)
+    });
+    return crypto.timingSafeEqual(key, expected);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a hash was made with weaker parameters than the current ones
+ */
+export function needsRehash(stored: string): boolean {
+  const [scheme, N, r, p] = stored.split('$');
+  return scheme !== 'scrypt' || Number(N) < COST || Number(r) < BLOCK_SIZE || Number(p) < PARALLELISM;
+}
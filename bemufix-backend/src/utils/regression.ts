@@ -0,0 +1,57 @@
+/**
+ * Ridge-regularised least squares: solves (XᵀX + λI)β = Xᵀy.
+ * A small λ keeps the system solvable when features are collinear.
+ */
+export function fitLeastSquares(rows: number[][], targets: number[], lambda = 1e-3): number[] {
+  const size = rows[0]?.length ?? 0;
+  const matrix = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? lambda : 0)));
+  const vector = new Array<number>(size).fill(0);
+
+  rows.forEach((row, index) => {
+    for (let i = 0; i < size; i++) {
+      if (row[i] === 0) continue;
+      vector[i] += row[i] * targets[index];
+      for (let j = 0; j < size; j++) {
+        matrix[i][j] += row[i] * row[j];
+      }
+    }
+  });
+
+  return solveLinearSystem(matrix, vector);
+}
+
+/**
+ * Gaussian elimination with partial pivoting
+ */
+export function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const size = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) pivot = row;
+    }
+    if (Math.abs(a[pivot][column]) < 1e-12) {
+      throw new Error('Linear system is singular');
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+
+    for (let row = column + 1; row < size; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= size; k++) {
+        a[row][k] -= factor * a[column][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = a[row][size];
+    for (let k = row + 1; k < size; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
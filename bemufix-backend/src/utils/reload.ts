@@ -0,0 +1,14 @@
+/**
+ * Load a lazily cached value again. `set(null)` clears the cache so `load`
+ * reads the file anew; when that throws, the previous value is put back and
+ * the error rethrown, so an invalid file never replaces a working one.
+ */
+export function reloadKeepingPrevious<T>(previous: T | null, set: (value: T | null) => void, load: () => T): T {
+  set(null);
+  try {
+    return load();
+  } catch (error) {
+    set(previous);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+// Opening hours, booking notice and reminders follow the workshop's clock,
+// whatever time zone the server runs in
+export const WORKSHOP_TIME_ZONE = process.env.WORKSHOP_TIME_ZONE || 'Europe/Helsinki';
+
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Date and time an instant shows on a clock in the time zone
+ */
+export function wallClock(date: Date, timeZone: string = WORKSHOP_TIME_ZONE): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/**
+ * Calendar day (yyyy-mm-dd) of an instant in the time zone
+ */
+export function zonedDate(date: Date, timeZone: string = WORKSHOP_TIME_ZONE): string {
+  const { year, month, day } = wallClock(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The instant when the clock in the time zone shows `minutes` past midnight of `date` (yyyy-mm-dd)
+ */
+export function zonedTime(date: string, minutes: number, timeZone: string = WORKSHOP_TIME_ZONE): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  // Measure the offset again at the first guess in case a DST change lies in between
+  const guess = wall - offsetAt(new Date(wall), timeZone);
+  return new Date(wall - offsetAt(new Date(guess), timeZone));
+}
+
+function offsetAt(date: Date, timeZone: string): number {
+  const clock = wallClock(date, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
@@ -0,0 +1,21 @@
+// Finnish averages around 3.5 characters per token; round down to stay under budgets
+const CHARS_PER_TOKEN = 3;
+
+/**
+ * Conservative token count for budgeting prompts without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text to roughly `maxTokens`, at a word boundary where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+
+  const cut = text.slice(0, maxChars);
+  const space = cut.lastIndexOf(' ');
+  return `${space > maxChars * 0.8 ? cut.slice(0, space) : cut}…`;
+}
@@ -4,6 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Booking from "./pages/Booking";
+import BookingCancel from "./pages/BookingCancel";
+import InspectionReminder from "./pages/InspectionReminder";
+import InspectionUnsubscribe from "./pages/InspectionUnsubscribe";
+import Garage from "./pages/Garage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,6 +24,11 @@ const App = () => (
       <BrowserRouter basename={basename}>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/ajanvaraus" element={<Booking />} />
+          <Route path="/ajanvaraus/peru/:token" element={<BookingCancel />} />
+          <Route path="/katsastusmuistutus" element={<InspectionReminder />} />
+          <Route path="/katsastusmuistutus/peru/:token" element={<InspectionUnsubscribe />} />
+          <Route path="/autotalli" element={<Garage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
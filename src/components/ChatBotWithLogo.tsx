@@ -4,7 +4,7 @@ import { MessageCircle, X, Send, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { chatApi, type ChatMessage } from "@/lib/api";
+import { chatApi, getCustomerToken, type ChatMessage } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 
 export function ChatBot() {
@@ -13,6 +13,8 @@ export function ChatBot() {
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | undefined>();
+  // Palvelimen tilaviesti ennen ensimmäistä vastauspalaa, esim. rekisterihaku käynnissä
+  const [status, setStatus] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -25,6 +27,17 @@ export function ChatBot() {
         timestamp: new Date().toISOString(),
       },
     ]);
+
+    // Kirjautunut asiakas tervehditään autotallinsa auton mukaan
+    if (!getCustomerToken()) return;
+    chatApi.startSession()
+      .then((response) => {
+        setSessionId((prev) => prev ?? response.sessionId);
+        setMessages((prev) => prev.length === 1
+          ? [{ role: "assistant", content: response.message, timestamp: response.timestamp }]
+          : prev);
+      })
+      .catch((error) => console.error('Chat session error:', error));
   }, []);
 
   // Auto-scroll viesteihin
@@ -37,31 +50,39 @@ export function ChatBot() {
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
+    const text = inputValue;
     const userMessage: ChatMessage = {
       role: "user",
-      content: inputValue,
+      content: text,
       timestamp: new Date().toISOString(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // Tyhjä vastausviesti täyttyy sitä mukaa kuin palat saapuvat
+    setMessages((prev) => [
+      ...prev,
+      userMessage,
+      { role: "assistant", content: "", timestamp: new Date().toISOString() },
+    ]);
     setInputValue("");
+    setStatus(null);
     setIsLoading(true);
 
-    try {
-      const response = await chatApi.sendMessage(inputValue, sessionId);
-      
-      // Tallenna session ID jos uusi
-      if (!sessionId) {
-        setSessionId(response.sessionId);
-      }
+    const updateReply = (update: (message: ChatMessage) => ChatMessage) =>
+      setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
 
-      const botMessage: ChatMessage = {
-        role: "assistant",
-        content: response.message,
-        timestamp: response.timestamp,
-      };
+    try {
+      const response = await chatApi.streamMessage(text, sessionId, {
+        // Tallenna session ID jos uusi
+        onSession: (id) => setSessionId(id),
+        onStatus: (message) => setStatus(message),
+        onToken: (chunk) => {
+          setStatus(null);
+          updateReply((message) => ({ ...message, content: message.content + chunk }));
+        },
+      });
 
-      setMessages((prev) => [...prev, botMessage]);
+      // Lopullinen teksti korvaa palat; aikaleima pidetään, ettei viesti animoidu uudelleen
+      updateReply((message) => ({ ...message, content: response.message }));
 
     } catch (error) {
       console.error('Chat error:', error);
@@ -72,7 +93,7 @@ export function ChatBot() {
         timestamp: new Date().toISOString(),
       };
 
-      setMessages((prev) => [...prev, errorMessage]);
+      updateReply(() => errorMessage);
       
       toast({
         title: "Virhe",
@@ -80,6 +101,7 @@ export function ChatBot() {
         variant: "destructive",
       });
     } finally {
+      setStatus(null);
       setIsLoading(false);
     }
   };
@@ -172,7 +194,7 @@ export function ChatBot() {
               {/* Messages */}
               <ScrollArea className="h-[400px] px-4 py-4" ref={scrollRef}>
                 <div className="space-y-4">
-                  {messages.map((message, index) => (
+                  {messages.filter((message) => message.content).map((message, index) => (
                     <motion.div
                       key={`${message.timestamp}-${index}`}
                       initial={{ opacity: 0, y: 10 }}
@@ -200,14 +222,15 @@ export function ChatBot() {
                       </div>
                     </motion.div>
                   ))}
-                  {isLoading && (
+                  {isLoading && !messages[messages.length - 1]?.content && (
                     <motion.div
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="flex justify-start"
                     >
-                      <div className="bg-gray-100 rounded-2xl px-4 py-3">
+                      <div className="bg-gray-100 rounded-2xl px-4 py-3 flex items-center gap-2">
                         <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+                        {status && <span className="text-xs text-gray-500">{status}</span>}
                       </div>
                     </motion.div>
                   )}
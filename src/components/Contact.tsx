@@ -1,5 +1,12 @@
 import { motion } from "framer-motion";
-import { MapPin, Phone, Mail, Clock, Send, ArrowUpRight } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { MapPin, Phone, Mail, Clock, Send, ArrowUpRight, CalendarCheck, BellRing, Car, Loader2 } from "lucide-react";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, ContactMessage, contactApi } from "@/lib/api";
 
 const contactInfo = [
   {
@@ -32,7 +39,44 @@ const contactInfo = [
   },
 ];
 
+const inputClassName = "w-full px-4 py-3 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all";
+
+const contactSchema = z.object({
+  name: z.string().trim().min(1, "Kerro nimesi").max(100, "Nimi on liian pitkä"),
+  phone: z.string().trim().regex(/^(\+?[\d\s-]{6,20})?$/, "Tarkista puhelinnumero"),
+  email: z.union([z.literal(""), z.string().trim().email("Tarkista sähköpostiosoite").max(200, "Sähköpostiosoite on liian pitkä")]),
+  message: z.string().trim().min(1, "Kirjoita viesti").max(5000, "Viesti on liian pitkä"),
+  website: z.string(),
+}).refine((values) => values.phone || values.email, {
+  message: "Anna puhelinnumero tai sähköposti",
+  path: ["phone"],
+});
+
+type ContactValues = z.infer<typeof contactSchema>;
+
 export function Contact() {
+  const { toast } = useToast();
+  const form = useForm<ContactValues>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: { name: "", phone: "", email: "", message: "", website: "" },
+  });
+
+  const onSubmit = async (values: ContactValues) => {
+    try {
+      await contactApi.send(values as ContactMessage);
+      toast({ title: "Viesti lähetetty!", description: "Palaamme asiaan mahdollisimman pian." });
+      form.reset();
+    } catch (error) {
+      toast({
+        title: "Viestin lähetys epäonnistui",
+        description: error instanceof ApiError && error.status === 429
+          ? "Olet lähettänyt useita viestejä. Yritä myöhemmin uudelleen tai soita 050 547 7779."
+          : "Yritä hetken kuluttua uudelleen tai soita 050 547 7779.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <section id="yhteystiedot" className="py-24 lg:py-32 relative overflow-hidden">
       {/* Background */}
@@ -90,6 +134,28 @@ export function Contact() {
                 )}
               </motion.div>
             ))}
+
+            <Link
+              to="/ajanvaraus"
+              className="sm:col-span-2 flex items-center justify-center gap-2 px-6 py-4 bg-gradient-to-r from-primary to-blue-600 text-white font-semibold rounded-xl shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-shadow"
+            >
+              <CalendarCheck className="w-5 h-5" />
+              <span>Varaa aika verkossa</span>
+            </Link>
+            <Link
+              to="/katsastusmuistutus"
+              className="sm:col-span-2 flex items-center justify-center gap-2 px-6 py-3 text-sm font-medium text-foreground/70 hover:text-primary transition-colors"
+            >
+              <BellRing className="w-4 h-4" />
+              <span>Tilaa katsastusmuistutus</span>
+            </Link>
+            <Link
+              to="/autotalli"
+              className="sm:col-span-2 flex items-center justify-center gap-2 px-6 py-3 text-sm font-medium text-foreground/70 hover:text-primary transition-colors"
+            >
+              <Car className="w-4 h-4" />
+              <span>Oma autotalli</span>
+            </Link>
           </motion.div>
 
           {/* Contact Form */}
@@ -104,62 +170,87 @@ export function Contact() {
               Lähetä viesti
             </h3>
             
-            <form className="space-y-5">
-              <div className="grid sm:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Nimi
-                  </label>
-                  <input
-                    type="text"
-                    className="w-full px-4 py-3 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all"
-                    placeholder="Nimesi"
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5" noValidate>
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nimi</FormLabel>
+                        <FormControl>
+                          <input type="text" className={inputClassName} placeholder="Nimesi" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Puhelin
-                  </label>
-                  <input
-                    type="tel"
-                    className="w-full px-4 py-3 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all"
-                    placeholder="Puhelinnumerosi"
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Puhelin</FormLabel>
+                        <FormControl>
+                          <input type="tel" className={inputClassName} placeholder="Puhelinnumerosi" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                 </div>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Sähköposti
-                </label>
-                <input
-                  type="email"
-                  className="w-full px-4 py-3 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all"
-                  placeholder="sahkoposti@esimerkki.fi"
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sähköposti</FormLabel>
+                      <FormControl>
+                        <input type="email" className={inputClassName} placeholder="sahkoposti@esimerkki.fi" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2">
-                  Viesti
-                </label>
-                <textarea
-                  rows={4}
-                  className="w-full px-4 py-3 rounded-xl bg-muted/50 border border-border focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all resize-none"
-                  placeholder="Kerro autostasi ja huoltotarpeesta..."
+
+                <FormField
+                  control={form.control}
+                  name="message"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Viesti</FormLabel>
+                      <FormControl>
+                        <textarea rows={4} className={`${inputClassName} resize-none`} placeholder="Kerro autostasi ja huoltotarpeesta..." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              
-              <motion.button
-                type="submit"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-gradient-to-r from-primary to-blue-600 text-white font-semibold rounded-xl shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-shadow"
-              >
-                <Send className="w-5 h-5" />
-                <span>Lähetä viesti</span>
-              </motion.button>
-            </form>
+
+                {/* Roskapostiansa: piilossa ihmisiltä, botit täyttävät */}
+                <input
+                  type="text"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  aria-hidden="true"
+                  className="absolute -left-[9999px] w-px h-px opacity-0"
+                  {...form.register("website")}
+                />
+
+                <motion.button
+                  type="submit"
+                  disabled={form.formState.isSubmitting}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-gradient-to-r from-primary to-blue-600 text-white font-semibold rounded-xl shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-shadow disabled:opacity-70"
+                >
+                  {form.formState.isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+                  <span>Lähetä viesti</span>
+                </motion.button>
+              </form>
+            </Form>
           </motion.div>
         </div>
       </div>
@@ -1,5 +1,7 @@
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
 import { Wrench, Car, Search, PlusCircle, CircleDot, Euro, ArrowUpRight } from "lucide-react";
+import { quoteApi } from "@/lib/api";
 
 const services = [
   {
@@ -37,15 +39,13 @@ const services = [
     gradient: "from-pink-500 to-rose-500",
     size: "normal",
   },
-  {
-    icon: Euro,
-    title: "89€/h",
-    description: "Reilu hinnoittelu, ei yllätyksiä. Suuremmat työt sovitaan erikseen.",
-    gradient: "from-amber-500 to-orange-500",
-    size: "large",
-  },
 ];
 
+const formatEuros = (value: number) => value.toLocaleString("fi-FI", { maximumFractionDigits: 2 });
+
+// Työtuntihinta (alv 0 %) siihen asti, kunnes hinnasto on haettu tai jos haku epäonnistuu
+const FALLBACK_SHOP_RATE = 89;
+
 const containerVariants = {
   hidden: { opacity: 0 },
   visible: {
@@ -60,6 +60,28 @@ const itemVariants = {
 };
 
 export function Services() {
+  // Sama hinnasto kuin chatbotilla ja kustannusarvioilla
+  const { data: pricing } = useQuery({
+    queryKey: ["pricing"],
+    queryFn: quoteApi.getPricing,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const oilChange = pricing?.jobs.find((job) => job.id === "oil_change")?.priceRange;
+
+  const cards = [
+    ...services,
+    {
+      icon: Euro,
+      title: `${formatEuros(pricing?.shopRate ?? FALLBACK_SHOP_RATE)}€/h`,
+      description: `Työtuntihinta alv 0 %. Reilu hinnoittelu, ei yllätyksiä. Suuremmat työt sovitaan erikseen.${
+        oilChange ? ` Öljynvaihto alk. ${formatEuros(oilChange.min)} € (sis. alv).` : ""
+      }`,
+      gradient: "from-amber-500 to-orange-500",
+      size: "large",
+    },
+  ];
+
   return (
     <section id="palvelut" className="py-24 lg:py-32 relative overflow-hidden">
       {/* Background */}
@@ -95,7 +117,7 @@ export function Services() {
           viewport={{ once: true }}
           className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6"
         >
-          {services.map((service, i) => (
+          {cards.map((service) => (
             <motion.div
               key={service.title}
               variants={itemVariants}
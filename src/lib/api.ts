@@ -6,17 +6,155 @@ export interface ChatMessage {
   timestamp: string;
 }
 
+/**
+ * Markkina-arvio euroina vertailukaupoista; band on 80 %:n haarukka kunnolle `condition`
+ */
+export interface Valuation {
+  currency: 'EUR';
+  values: { excellent: number; good: number; fair: number; poor: number };
+  condition: 'excellent' | 'good' | 'fair' | 'poor';
+  band: { low: number; high: number };
+  confidence: 'high' | 'medium' | 'low';
+  comparables: number;
+  basis: 'comparables' | 'catalogue';
+  asOf: string;
+}
+
+export interface VehicleIntelligence {
+  engineCode: string;
+  generation: string;
+  chassisCode: string;
+  recommendedOil: string;
+  oilCapacity: string;
+  serviceIntervals: string;
+  commonIssues: string[];
+  estimatedValue: Valuation | null;
+  partsPriceLevel: 'Low' | 'Medium' | 'High' | 'Premium';
+  specialNotes?: string;
+  match?: {
+    confidence: number;
+    alternatives: { generation: string; model: string; engineCode: string; confidence: number }[];
+  };
+}
+
+/**
+ * Ajoneuvon tiedot backendin kanonisessa muodossa
+ * (cc, kW, g/km, kg, km; päivämäärät muodossa yyyy-mm-dd)
+ */
+export interface VehicleData {
+  registrationNumber: string;
+  vin?: string;
+  make: string;
+  model: string;
+  modelYear?: number;
+  firstRegistration?: string;
+  color?: string;
+  fuelType?: string;
+  engineDisplacement?: number;
+  enginePower?: number;
+  co2Emissions?: number;
+  mass?: number;
+  seats?: number;
+  euroClass?: string;
+  vehicleClass?: string;
+  taxClass?: string;
+  odometer?: number;
+  inspectionExpiry?: string;
+  bmwSpecific?: VehicleIntelligence;
+  source: 'opendata' | 'traficom' | '02rekkari' | 'fixture';
+  fetchedAt: string;
+  confidence: number;
+}
+
 export interface ChatResponse {
   sessionId: string;
   message: string;
   timestamp: string;
-  vehicleData?: any;
+  vehicleData?: VehicleData | null;
+  intent?: string;
+  // Keskeneräinen keskustelupolku: booking, quote tai triage
+  flow?: string | null;
+}
+
+/**
+ * Striimatun vastauksen välitapahtumat (Server-Sent Events)
+ */
+export interface ChatStreamHandlers {
+  onSession?: (sessionId: string) => void;
+  onStatus?: (message: string) => void;
+  onVehicle?: (vehicleData: VehicleData) => void;
+  onToken?: (text: string) => void;
 }
 
 export interface ChatSession {
   sessionId: string;
   messages: ChatMessage[];
-  vehicleData?: any;
+  vehicleData?: VehicleData;
+}
+
+export interface PricingJob {
+  id: string;
+  name: string;
+  description: string;
+  priceRange: { min: number; max: number } | null;
+}
+
+/**
+ * Hinnasto backendin QuoteEnginestä (työtuntihinta alv 0 %, hintahaarukat sis. alv)
+ */
+export interface Pricing {
+  shopRate: number;
+  vatRate: number;
+  jobs: PricingJob[];
+}
+
+export interface QuoteLine {
+  job: string;
+  type: 'labour' | 'parts' | 'consumables';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface RepairQuote {
+  jobs: { id: string; name: string; note?: string }[];
+  vehicle: string | null;
+  partsPriceLevel: VehicleIntelligence['partsPriceLevel'];
+  shopRate: number;
+  vatRate: number;
+  lines: QuoteLine[];
+  totals: {
+    labour: number;
+    parts: number;
+    consumables: number;
+    excludingVat: number;
+    vat: number;
+    includingVat: number;
+  };
+}
+
+type ChatStreamEvent =
+  | { type: 'session'; data: { sessionId: string } }
+  | { type: 'status'; data: { message: string } }
+  | { type: 'vehicle'; data: { vehicleData: VehicleData } }
+  | { type: 'token'; data: { text: string } }
+  | { type: 'done'; data: ChatResponse }
+  | { type: 'error'; data: { error?: string } };
+
+/**
+ * Jäsennä yksi SSE-tapahtuma ("event: x" ja "data: {...}" -rivit); kommenttirivit ohitetaan
+ */
+function parseServerSentEvent(block: string): ChatStreamEvent | null {
+  let type = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+
+  return data.length > 0 ? ({ type, data: JSON.parse(data.join('\n')) } as ChatStreamEvent) : null;
 }
 
 export const chatApi = {
@@ -28,6 +166,7 @@ export const chatApi = {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...customerAuthHeaders(),
       },
       body: JSON.stringify({
         message,
@@ -43,10 +182,90 @@ export const chatApi = {
   },
 
   /**
-   * Hae chat-sessio
+   * Lähetä viesti ja vastaanota vastaus paloina SSE-virtana.
+   * Palauttaa lopullisen vastauksen (done-tapahtuma).
+   */
+  async streamMessage(message: string, sessionId?: string, handlers: ChatStreamHandlers = {}): Promise<ChatResponse> {
+    const response = await fetch(`${API_BASE_URL}/api/v2/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...customerAuthHeaders(),
+      },
+      body: JSON.stringify({
+        message,
+        sessionId,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error('Failed to send message');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const block of events) {
+        const event = parseServerSentEvent(block);
+        if (!event) continue;
+
+        switch (event.type) {
+          case 'session':
+            handlers.onSession?.(event.data.sessionId);
+            break;
+          case 'status':
+            handlers.onStatus?.(event.data.message);
+            break;
+          case 'vehicle':
+            handlers.onVehicle?.(event.data.vehicleData);
+            break;
+          case 'token':
+            handlers.onToken?.(event.data.text);
+            break;
+          case 'done':
+            await reader.cancel();
+            return event.data;
+          case 'error':
+            throw new Error(event.data.error || 'Chat stream failed');
+        }
+      }
+    }
+
+    throw new Error('Chat stream ended without a reply');
+  },
+
+  /**
+   * Aloita sessio tervehdyksellä; kirjautunut asiakas tervehditään autonsa mukaan
+   */
+  async startSession(): Promise<ChatResponse> {
+    const response = await fetch(`${API_BASE_URL}/api/v2/chat/session`, {
+      method: 'POST',
+      headers: customerAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to start session');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Hae chat-sessio; asiakkaaseen liitetty sessio vain omistajan tunnuksella
    */
   async getSession(sessionId: string): Promise<ChatSession> {
-    const response = await fetch(`${API_BASE_URL}/api/v2/chat/${sessionId}`);
+    const response = await fetch(`${API_BASE_URL}/api/v2/chat/${sessionId}`, {
+      headers: customerAuthHeaders(),
+    });
 
     if (!response.ok) {
       throw new Error('Failed to fetch session');
@@ -55,3 +274,393 @@ export const chatApi = {
     return response.json();
   },
 };
+
+export const quoteApi = {
+  /**
+   * Hae työtuntihinta ja yleisimpien töiden hinnat
+   */
+  async getPricing(): Promise<Pricing> {
+    const response = await fetch(`${API_BASE_URL}/api/quote/pricing`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch pricing');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Laske eritelty kustannusarvio, rekisterinumerolla mallikohtaisesti
+   */
+  async createQuote(jobs: string[], registrationNumber?: string): Promise<{ vehicle: VehicleData | null; quote: RepairQuote }> {
+    const response = await fetch(`${API_BASE_URL}/api/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jobs,
+        registrationNumber,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to create quote');
+    }
+
+    return response.json();
+  },
+};
+
+/**
+ * Virhe backendin vastauksesta; status kertoo esim. varatun ajan (409)
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Työn kesto mallikohtaisista työajoista, pyöristettynä varausruudukkoon
+ */
+export interface WorkEstimate {
+  minutes: number;
+  lines: { id: string; name: string; minutes: number }[];
+  jobs: string[];
+  serviceItems: string[];
+  vehicle: string | null;
+}
+
+export interface DayAvailability {
+  date: string;
+  open: string | null;
+  close: string | null;
+  // Vapaat aloitusajat HH:MM
+  slots: string[];
+}
+
+export interface Availability {
+  work: WorkEstimate;
+  days: DayAvailability[];
+}
+
+export interface Reservation {
+  id: string;
+  status: 'held' | 'confirmed' | 'cancelled';
+  date: string;
+  start: string;
+  end: string;
+  minutes: number;
+  jobs: string[];
+  serviceItems: string[];
+  registrationNumber?: string;
+  customer?: { name?: string; phone: string; email?: string };
+  notes?: string;
+  holdExpiresAt?: string;
+}
+
+export interface BookingWork {
+  jobs?: string[];
+  registrationNumber?: string;
+}
+
+async function bookingRequest<T>(path: string, init: RequestInit, failure: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/booking${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new ApiError(body.error || failure, response.status);
+  }
+
+  return response.json();
+}
+
+export const bookingApi = {
+  /**
+   * Hae työn kesto ja vapaat ajat päivittäin
+   */
+  async getAvailability(work: BookingWork, from: string, days = 31): Promise<Availability> {
+    const params = new URLSearchParams({ from, days: String(days) });
+    if (work.jobs?.length) params.set('jobs', work.jobs.join(','));
+    if (work.registrationNumber) params.set('registrationNumber', work.registrationNumber);
+
+    return bookingRequest(`/availability?${params}`, {}, 'Failed to fetch availability');
+  },
+
+  /**
+   * Pidä aika varattuna yhteystietojen täyttämisen ajan
+   */
+  async hold(work: BookingWork, date: string, time: string): Promise<{ reservation: Reservation; work: WorkEstimate }> {
+    return bookingRequest('/holds', {
+      method: 'POST',
+      body: JSON.stringify({ ...work, date, time }),
+    }, 'Failed to hold the time');
+  },
+
+  /**
+   * Vahvista pidetty aika; palauttaa peruutustunnuksen
+   */
+  async confirm(reservationId: string, customer: { name: string; phone: string; email?: string }): Promise<{ reservation: Reservation; cancelToken: string }> {
+    return bookingRequest(`/holds/${encodeURIComponent(reservationId)}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify(customer),
+    }, 'Failed to confirm the booking');
+  },
+
+  /**
+   * Hae varaus peruutustunnuksella
+   */
+  async getReservation(token: string): Promise<{ reservation: Reservation }> {
+    return bookingRequest(`/reservations/${encodeURIComponent(token)}`, {}, 'Failed to fetch the booking');
+  },
+
+  /**
+   * Peru varaus peruutustunnuksella
+   */
+  async cancel(token: string): Promise<{ reservation: Reservation }> {
+    return bookingRequest(`/reservations/${encodeURIComponent(token)}`, { method: 'DELETE' }, 'Failed to cancel the booking');
+  },
+};
+
+export interface ContactMessage {
+  name: string;
+  phone?: string;
+  email?: string;
+  message: string;
+  // Piilotettu roskapostiansa, jätetään tyhjäksi
+  website?: string;
+}
+
+export const contactApi = {
+  /**
+   * Lähetä yhteydenottolomakkeen viesti korjaamolle
+   */
+  async send(message: ContactMessage): Promise<{ received: boolean }> {
+    const response = await fetch(`${API_BASE_URL}/api/contact`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new ApiError(body.error || 'Failed to send the message', response.status);
+    }
+
+    return response.json();
+  },
+};
+
+export interface InspectionSubscription {
+  status: 'active' | 'unsubscribed';
+  registrationNumber: string;
+  email?: string;
+  phone?: string;
+  inspectionDue: string | null;
+  createdAt: string;
+  unsubscribedAt?: string;
+}
+
+export interface InspectionSubscribeRequest {
+  registrationNumber: string;
+  email?: string;
+  phone?: string;
+  // Suostumus on pakollinen; teksti haetaan getConsent-kutsulla
+  consent: true;
+  locale?: 'fi' | 'en';
+}
+
+async function inspectionRequest<T>(path: string, init: RequestInit, failure: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/inspection-reminders${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new ApiError(body.error || failure, response.status);
+  }
+
+  return response.json();
+}
+
+export const inspectionApi = {
+  /**
+   * Hae suostumusteksti ja muistutuspäivät lomakkeelle
+   */
+  async getConsent(locale: 'fi' | 'en' = 'fi'): Promise<{ locale: string; text: string; reminderDays: number[] }> {
+    return inspectionRequest(`/consent?locale=${locale}`, {}, 'Failed to fetch the consent text');
+  },
+
+  /**
+   * Tilaa katsastusmuistutukset
+   */
+  async subscribe(request: InspectionSubscribeRequest): Promise<{ subscription: InspectionSubscription }> {
+    return inspectionRequest('', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, 'Failed to subscribe');
+  },
+
+  /**
+   * Hae tilaus peruutuslinkin tunnuksella
+   */
+  async get(token: string): Promise<{ subscription: InspectionSubscription }> {
+    return inspectionRequest(`/${encodeURIComponent(token)}`, {}, 'Failed to fetch the subscription');
+  },
+
+  /**
+   * Lopeta muistutukset peruutuslinkin tunnuksella
+   */
+  async unsubscribe(token: string): Promise<{ subscription: InspectionSubscription }> {
+    return inspectionRequest(`/${encodeURIComponent(token)}`, { method: 'DELETE' }, 'Failed to unsubscribe');
+  },
+};
+
+export interface CustomerAccount {
+  id: string;
+  email: string;
+  name?: string;
+  phone?: string;
+  locale: 'fi' | 'en';
+}
+
+export interface VehicleHistoryEntry {
+  type: 'added' | 'chat' | 'quote' | 'triage' | 'booking';
+  summary: string;
+  reference?: string;
+  createdAt: string;
+}
+
+/**
+ * Autotalliin tallennettu auto viimeisimmillä rekisteritiedoilla ja historialla (uusin ensin)
+ */
+export interface GarageVehicle {
+  registrationNumber: string;
+  nickname?: string;
+  vehicle: VehicleData | null;
+  history: VehicleHistoryEntry[];
+  addedAt: string;
+  refreshedAt?: string;
+}
+
+// Istuntotunnus säilyy selaimessa, jotta chat tunnistaa palaavan asiakkaan
+const CUSTOMER_TOKEN_KEY = 'bemufix.customerToken';
+
+export function getCustomerToken(): string | null {
+  try {
+    return localStorage.getItem(CUSTOMER_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function setCustomerToken(token: string | null) {
+  try {
+    if (token) localStorage.setItem(CUSTOMER_TOKEN_KEY, token);
+    else localStorage.removeItem(CUSTOMER_TOKEN_KEY);
+  } catch {
+    // Selain ei salli tallennusta; kirjautuminen kestää sivun ajan
+  }
+}
+
+function customerAuthHeaders(): Record<string, string> {
+  const token = getCustomerToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function customerRequest<T>(path: string, init: RequestInit, failure: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/customers${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...customerAuthHeaders(),
+    },
+  });
+
+  if (!response.ok) {
+    // Vanhentunut istunto poistetaan, jotta sivu palaa kirjautumiseen
+    if (response.status === 401) setCustomerToken(null);
+    const body = await response.json().catch(() => ({}));
+    throw new ApiError(body.error || failure, response.status);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export const customerApi = {
+  /**
+   * Pyydä kirjautumiskoodi ja -linkki sähköpostiin
+   */
+  async requestLogin(email: string): Promise<{ sent: boolean }> {
+    return customerRequest('/login', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }, 'Failed to send the login code');
+  },
+
+  /**
+   * Kirjaudu sähköpostin koodilla tai linkin tunnuksella; istunto tallennetaan selaimeen
+   */
+  async verify(login: { email: string; code: string } | { token: string }): Promise<{ customer: CustomerAccount }> {
+    const result = await customerRequest<{ token: string; expiresAt: string; customer: CustomerAccount }>('/login/verify', {
+      method: 'POST',
+      body: JSON.stringify(login),
+    }, 'Failed to log in');
+    setCustomerToken(result.token);
+    return { customer: result.customer };
+  },
+
+  /**
+   * Kirjaudu ulos; istunto poistetaan selaimesta, vaikka pyyntö epäonnistuisi
+   */
+  async logout(): Promise<void> {
+    try {
+      await customerRequest('/logout', { method: 'POST' }, 'Failed to log out');
+    } finally {
+      setCustomerToken(null);
+    }
+  },
+
+  /**
+   * Hae asiakkaan tiedot ja autotallin autot
+   */
+  async me(): Promise<{ customer: CustomerAccount; vehicles: GarageVehicle[] }> {
+    return customerRequest('/me', {}, 'Failed to fetch the garage');
+  },
+
+  /**
+   * Lisää auto autotalliin rekisterinumerolla
+   */
+  async addVehicle(registrationNumber: string, nickname?: string): Promise<{ vehicle: GarageVehicle }> {
+    return customerRequest('/me/vehicles', {
+      method: 'POST',
+      body: JSON.stringify({ registrationNumber, nickname }),
+    }, 'Failed to add the vehicle');
+  },
+
+  /**
+   * Päivitä auton tiedot rekisteristä
+   */
+  async refreshVehicle(registrationNumber: string): Promise<{ vehicle: GarageVehicle }> {
+    return customerRequest(`/me/vehicles/${encodeURIComponent(registrationNumber)}/refresh`, { method: 'POST' }, 'Failed to refresh the vehicle');
+  },
+
+  /**
+   * Poista auto autotallista
+   */
+  async removeVehicle(registrationNumber: string): Promise<void> {
+    return customerRequest(`/me/vehicles/${encodeURIComponent(registrationNumber)}`, { method: 'DELETE' }, 'Failed to remove the vehicle');
+  },
+};
@@ -0,0 +1,266 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fi } from "date-fns/locale";
+import { ArrowLeft, CalendarCheck, Clock, Loader2 } from "lucide-react";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, bookingApi, quoteApi, Reservation } from "@/lib/api";
+import bemuFixLogo from "@/assets/bemufix-logo.avif";
+
+// Yleisimmät työt valintalistassa; muut sovitaan puhelimitse
+const BOOKABLE_JOBS = ["oil_change", "brake_pads", "brake_discs", "brake_fluid", "spark_plugs", "air_filter", "cabin_filter", "battery", "diagnostics", "pre_inspection"];
+
+const REGISTRATION_PATTERN = /^[A-ZÅÄÖ]{2,3}-?\d{1,4}$/i;
+
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${(minutes / 60).toLocaleString("fi-FI", { maximumFractionDigits: 1 })} h`;
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "EEEEEE d.M.yyyy", { locale: fi });
+
+const Booking = () => {
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  // Muistutusten linkit esivalitsevat työt, esim. ?jobs=pre_inspection
+  const [jobs, setJobs] = useState<string[]>(() => {
+    const linked = (searchParams.get("jobs") || "").split(",").filter((id) => BOOKABLE_JOBS.includes(id));
+    return linked.length > 0 ? linked : ["oil_change"];
+  });
+  const [registrationNumber, setRegistrationNumber] = useState("");
+  const [selectedDate, setSelectedDate] = useState<Date>();
+  const [held, setHeld] = useState<Reservation | null>(null);
+  const [confirmed, setConfirmed] = useState<{ reservation: Reservation; cancelToken: string } | null>(null);
+  const [customer, setCustomer] = useState({ name: "", phone: "", email: "" });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: pricing } = useQuery({
+    queryKey: ["pricing"],
+    queryFn: quoteApi.getPricing,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const work = {
+    jobs,
+    registrationNumber: REGISTRATION_PATTERN.test(registrationNumber.trim()) ? registrationNumber.trim() : undefined,
+  };
+  const today = toDateKey(new Date());
+
+  const { data: availability, isLoading, refetch } = useQuery({
+    queryKey: ["availability", work.jobs, work.registrationNumber, today],
+    queryFn: () => bookingApi.getAvailability(work, today),
+    enabled: work.jobs.length > 0 || Boolean(work.registrationNumber),
+  });
+
+  const freeDays = useMemo(
+    () => new Map((availability?.days || []).filter((day) => day.slots.length > 0).map((day) => [day.date, day.slots])),
+    [availability],
+  );
+  const slots = selectedDate ? freeDays.get(toDateKey(selectedDate)) || [] : [];
+
+  const toggleJob = (id: string, checked: boolean) => {
+    setJobs((prev) => (checked ? [...prev, id] : prev.filter((job) => job !== id)));
+    setHeld(null);
+  };
+
+  const holdTime = async (time: string) => {
+    if (!selectedDate) return;
+
+    setIsSubmitting(true);
+    try {
+      const { reservation } = await bookingApi.hold(work, toDateKey(selectedDate), time);
+      setHeld(reservation);
+    } catch (error) {
+      toast({
+        title: "Aika ei ole enää vapaana",
+        description: error instanceof ApiError && error.status === 409
+          ? "Joku ehti varata ajan juuri. Valitse toinen aika."
+          : "Ajan varaaminen epäonnistui. Yritä hetken kuluttua uudelleen.",
+        variant: "destructive",
+      });
+      refetch();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmBooking = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!held) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await bookingApi.confirm(held.id, {
+        name: customer.name,
+        phone: customer.phone,
+        email: customer.email || undefined,
+      });
+      setConfirmed(result);
+      toast({ title: "Aika varattu!", description: `${formatDay(result.reservation.date)} klo ${result.reservation.start}` });
+    } catch (error) {
+      const expired = error instanceof ApiError && error.status === 410;
+      toast({
+        title: expired ? "Varauksen pitoaika umpeutui" : "Vahvistus epäonnistui",
+        description: expired ? "Aika ehdittiin varata toiselle. Valitse uusi aika." : "Tarkista yhteystiedot ja yritä uudelleen.",
+        variant: "destructive",
+      });
+      if (expired) {
+        setHeld(null);
+        refetch();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 mesh-gradient" />
+
+      <div className="relative z-10 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex items-center justify-between mb-10">
+          <Link to="/" className="inline-flex items-center gap-2 text-sm font-medium text-foreground/70 hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Etusivulle
+          </Link>
+          <img src={bemuFixLogo} alt="BemuFIX" className="h-12 w-auto" />
+        </div>
+
+        <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
+          Varaa <span className="text-gradient">huoltoaika</span>
+        </h1>
+        <p className="text-muted-foreground text-lg mb-10">
+          Valitse työt, päivä ja kellonaika. Kun kerrot rekisterinumeron, laskemme keston autosi mallin mukaan.
+        </p>
+
+        {confirmed ? (
+          <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+            <CalendarCheck className="w-10 h-10 text-primary mb-4" />
+            <h2 className="text-2xl font-bold text-foreground mb-2">Kiitos, aikasi on varattu!</h2>
+            <p className="text-foreground mb-1">
+              {formatDay(confirmed.reservation.date)} klo {confirmed.reservation.start}-{confirmed.reservation.end}
+            </p>
+            <p className="text-muted-foreground mb-6">Tuo auto paikalle varattuun aikaan osoitteeseen Hankasuontie 7, Helsinki.</p>
+            <p className="text-sm text-muted-foreground">
+              Tallenna peruutuslinkki:{" "}
+              <Link to={`/ajanvaraus/peru/${confirmed.cancelToken}`} className="text-primary underline break-all">
+                peru varaus
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-8">
+            <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl space-y-6">
+              <div>
+                <h2 className="text-xl font-bold text-foreground mb-4">1. Mitä autoon tehdään?</h2>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {BOOKABLE_JOBS.map((id) => {
+                    const job = pricing?.jobs.find((candidate) => candidate.id === id);
+                    if (!job) return null;
+                    return (
+                      <label key={id} className="flex items-center gap-3 text-sm text-foreground cursor-pointer">
+                        <Checkbox checked={jobs.includes(id)} onCheckedChange={(checked) => toggleJob(id, checked === true)} />
+                        {job.name}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="registration">Rekisterinumero (valinnainen)</Label>
+                <Input
+                  id="registration"
+                  value={registrationNumber}
+                  onChange={(event) => {
+                    setRegistrationNumber(event.target.value.toUpperCase());
+                    setHeld(null);
+                  }}
+                  placeholder="ABC-123"
+                  className="mt-2"
+                />
+              </div>
+
+              {availability && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock className="w-4 h-4" />
+                  Arvioitu kesto {formatDuration(availability.work.minutes)}
+                  {availability.work.vehicle ? ` (${availability.work.vehicle})` : ""}
+                </p>
+              )}
+            </div>
+
+            <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+              <h2 className="text-xl font-bold text-foreground mb-4">2. Valitse aika</h2>
+
+              {isLoading ? (
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              ) : (
+                <Calendar
+                  mode="single"
+                  locale={fi}
+                  selected={selectedDate}
+                  onSelect={(date) => {
+                    setSelectedDate(date);
+                    setHeld(null);
+                  }}
+                  disabled={(date) => !freeDays.has(toDateKey(date))}
+                  fromDate={new Date()}
+                  className="rounded-xl border mx-auto w-fit"
+                />
+              )}
+
+              {selectedDate && !held && (
+                <div className="grid grid-cols-4 gap-2 mt-6">
+                  {slots.map((time) => (
+                    <Button key={time} variant="outline" size="sm" disabled={isSubmitting} onClick={() => holdTime(time)}>
+                      {time}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {held && (
+                <form onSubmit={confirmBooking} className="space-y-4 mt-6">
+                  <p className="text-sm text-foreground">
+                    <strong>{formatDay(held.date)} klo {held.start}-{held.end}</strong> on pidetty sinulle hetken.
+                    Täytä yhteystiedot vahvistaaksesi varauksen.
+                  </p>
+                  <div>
+                    <Label htmlFor="name">Nimi</Label>
+                    <Input id="name" required value={customer.name} onChange={(event) => setCustomer({ ...customer, name: event.target.value })} className="mt-2" />
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Puhelin</Label>
+                    <Input id="phone" type="tel" required value={customer.phone} onChange={(event) => setCustomer({ ...customer, phone: event.target.value })} className="mt-2" />
+                  </div>
+                  <div>
+                    <Label htmlFor="email">Sähköposti (valinnainen)</Label>
+                    <Input id="email" type="email" value={customer.email} onChange={(event) => setCustomer({ ...customer, email: event.target.value })} className="mt-2" />
+                  </div>
+                  <div className="flex gap-3">
+                    <Button type="submit" disabled={isSubmitting} className="flex-1">
+                      {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Vahvista varaus
+                    </Button>
+                    <Button type="button" variant="ghost" onClick={() => setHeld(null)}>
+                      Vaihda aikaa
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Booking;
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fi } from "date-fns/locale";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, bookingApi } from "@/lib/api";
+import bemuFixLogo from "@/assets/bemufix-logo.avif";
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "EEEEEE d.M.yyyy", { locale: fi });
+
+const BookingCancel = () => {
+  const { token = "" } = useParams();
+  const { toast } = useToast();
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const { data: reservation, isLoading, isError, refetch } = useQuery({
+    queryKey: ["reservation", token],
+    queryFn: async () => (await bookingApi.getReservation(token)).reservation,
+    retry: false,
+  });
+
+  const cancelReservation = async () => {
+    setIsCancelling(true);
+    try {
+      await bookingApi.cancel(token);
+      toast({ title: "Varaus peruttu", description: "Tervetuloa uudelleen!" });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Peruminen epäonnistui",
+        description: error instanceof ApiError && error.status === 409
+          ? "Varausta ei voi enää perua verkossa. Soita meille: 050 547 7779."
+          : "Yritä hetken kuluttua uudelleen tai soita 050 547 7779.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 mesh-gradient" />
+
+      <div className="relative z-10 max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex items-center justify-between mb-10">
+          <Link to="/" className="inline-flex items-center gap-2 text-sm font-medium text-foreground/70 hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Etusivulle
+          </Link>
+          <img src={bemuFixLogo} alt="BemuFIX" className="h-12 w-auto" />
+        </div>
+
+        <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+          <h1 className="text-2xl font-bold text-foreground mb-4">Huoltoajan peruminen</h1>
+
+          {isLoading && <Loader2 className="w-6 h-6 animate-spin text-primary" />}
+
+          {isError && (
+            <p className="text-muted-foreground">
+              Varausta ei löytynyt. Tarkista linkki tai soita meille: 050 547 7779.
+            </p>
+          )}
+
+          {reservation && (
+            <>
+              <p className="text-foreground mb-1">
+                {formatDay(reservation.date)} klo {reservation.start}-{reservation.end}
+              </p>
+              {reservation.registrationNumber && (
+                <p className="text-muted-foreground mb-6">{reservation.registrationNumber}</p>
+              )}
+
+              {reservation.status === "cancelled" ? (
+                <p className="text-muted-foreground mt-4">Varaus on peruttu.</p>
+              ) : (
+                <div className="flex gap-3 mt-6">
+                  <Button variant="destructive" disabled={isCancelling} onClick={cancelReservation}>
+                    {isCancelling && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Peru varaus
+                  </Button>
+                  <Button variant="ghost" asChild>
+                    <Link to="/">Pidä varaus</Link>
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingCancel;
@@ -0,0 +1,370 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Car, Loader2, LogOut, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, customerApi, getCustomerToken, GarageVehicle } from "@/lib/api";
+import bemuFixLogo from "@/assets/bemufix-logo.avif";
+
+const REGISTRATION_PATTERN = /^[A-ZÅÄÖ]{2,3}-?\d{1,4}$/i;
+
+const formatDay = (date: string) => format(new Date(date.length === 10 ? `${date}T00:00:00` : date), "d.M.yyyy");
+
+const HISTORY_ICONS: Record<GarageVehicle["history"][number]["type"], string> = {
+  added: "🚗",
+  chat: "💬",
+  quote: "💶",
+  triage: "🔧",
+  booking: "📅",
+};
+
+/**
+ * Kirjautuminen sähköpostiin lähetetyllä koodilla
+ */
+const LoginCard = ({ onLogin }: { onLogin: () => void }) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requestCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await customerApi.requestLogin(email.trim());
+      setCodeSent(true);
+      toast({ title: "Koodi lähetetty", description: `Tarkista sähköpostisi ${email.trim()}.` });
+    } catch (error) {
+      toast({
+        title: "Koodin lähetys epäonnistui",
+        description: error instanceof ApiError && error.status === 429
+          ? "Liian monta yritystä. Yritä myöhemmin uudelleen."
+          : "Tarkista sähköpostiosoite ja yritä uudelleen.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    setIsSubmitting(true);
+    try {
+      await customerApi.verify({ email: email.trim(), code: value });
+      onLogin();
+    } catch {
+      toast({
+        title: "Koodi ei kelpaa",
+        description: "Tarkista koodi tai pyydä uusi. Koodi on voimassa vartin.",
+        variant: "destructive",
+      });
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+      <h2 className="text-xl font-bold text-foreground mb-2">Kirjaudu</h2>
+      <p className="text-muted-foreground mb-6">
+        Lähetämme sähköpostiisi kertakäyttöisen koodin ja kirjautumislinkin. Tili luodaan ensimmäisellä kirjautumisella.
+      </p>
+
+      {codeSent ? (
+        <div className="space-y-4">
+          <Label>Koodi sähköpostista</Label>
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={verifyCode}
+            disabled={isSubmitting}
+            inputMode="numeric"
+            pattern="^[0-9]+$"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <Button type="button" variant="ghost" onClick={() => setCodeSent(false)}>
+            Vaihda sähköpostiosoite
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={requestCode} className="space-y-4">
+          <div>
+            <Label htmlFor="email">Sähköposti</Label>
+            <Input id="email" type="email" required value={email} onChange={(event) => setEmail(event.target.value)} className="mt-2" />
+          </div>
+          <Button type="submit" disabled={isSubmitting} className="w-full">
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Lähetä koodi
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Yksi autotallin auto: tiedot, BMW-tiedot ja historia
+ */
+const VehicleCard = ({ garageVehicle, onChange }: { garageVehicle: GarageVehicle; onChange: () => void }) => {
+  const { toast } = useToast();
+  const [isBusy, setIsBusy] = useState(false);
+  const { vehicle, registrationNumber } = garageVehicle;
+  const bmw = vehicle?.bmwSpecific;
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onChange();
+    } catch {
+      toast({ title: failure, description: "Yritä hetken kuluttua uudelleen.", variant: "destructive" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">
+            {vehicle ? `${vehicle.make} ${vehicle.model}` : registrationNumber}
+            {garageVehicle.nickname && <span className="text-muted-foreground font-normal"> – {garageVehicle.nickname}</span>}
+          </h2>
+          <p className="text-muted-foreground">
+            {registrationNumber}
+            {vehicle?.modelYear ? `, ${vehicle.modelYear}` : ""}
+            {bmw && !bmw.generation.startsWith("Unknown") ? `, ${bmw.generation}` : ""}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Päivitä tiedot rekisteristä"
+            disabled={isBusy}
+            onClick={() => run(() => customerApi.refreshVehicle(registrationNumber), "Päivitys epäonnistui")}
+          >
+            <RefreshCw className={`w-4 h-4 ${isBusy ? "animate-spin" : ""}`} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Poista autotallista"
+            disabled={isBusy}
+            onClick={() => run(() => customerApi.removeVehicle(registrationNumber), "Poisto epäonnistui")}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {vehicle ? (
+        <div className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-sm text-foreground mb-6">
+          <p>⛽ {vehicle.fuelType || "Käyttövoima ei tiedossa"}</p>
+          <p>🔧 {vehicle.engineDisplacement ?? "?"} cc, {vehicle.enginePower ?? "?"} kW{bmw && !bmw.engineCode.startsWith("Unknown") ? `, ${bmw.engineCode}` : ""}</p>
+          <p>🔍 Katsastus {vehicle.inspectionExpiry ? `viimeistään ${formatDay(vehicle.inspectionExpiry)}` : "ei tiedossa"}</p>
+          {bmw && <p>🛢️ {bmw.recommendedOil}, {bmw.oilCapacity}</p>}
+          {bmw && <p className="sm:col-span-2">📆 Huoltoväli: {bmw.serviceIntervals}</p>}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-6">Rekisteritietoja ei saatu. Päivitä tiedot myöhemmin uudelleen.</p>
+      )}
+
+      {bmw && bmw.commonIssues.length > 0 && (
+        <div className="mb-6">
+          <h3 className="font-semibold text-foreground mb-2">Mallin tyypilliset viat</h3>
+          <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+            {bmw.commonIssues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <h3 className="font-semibold text-foreground mb-2">Historia</h3>
+      <ul className="text-sm space-y-1">
+        {garageVehicle.history.map((entry) => (
+          <li key={`${entry.type}-${entry.reference || ""}-${entry.createdAt}`} className="flex gap-3">
+            <span className="text-muted-foreground w-24 shrink-0">{formatDay(entry.createdAt)}</span>
+            <span className="text-foreground">{HISTORY_ICONS[entry.type]} {entry.summary}</span>
+          </li>
+        ))}
+      </ul>
+
+      <Button asChild variant="outline" size="sm" className="mt-6">
+        <Link to="/ajanvaraus">Varaa huoltoaika</Link>
+      </Button>
+    </div>
+  );
+};
+
+const Garage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [loggedIn, setLoggedIn] = useState(() => Boolean(getCustomerToken()));
+  const [newVehicle, setNewVehicle] = useState({ registrationNumber: "", nickname: "" });
+  const [isAdding, setIsAdding] = useState(false);
+  const linkVerified = useRef(false);
+
+  const { data: garage, isLoading, isError, refetch } = useQuery({
+    queryKey: ["garage"],
+    queryFn: customerApi.me,
+    enabled: loggedIn,
+    retry: false,
+  });
+
+  // Sähköpostin kirjautumislinkki: /autotalli?login=<tunnus>
+  useEffect(() => {
+    const token = searchParams.get("login");
+    if (!token || linkVerified.current) return;
+    linkVerified.current = true;
+
+    customerApi.verify({ token })
+      .then(() => setLoggedIn(true))
+      .catch(() => toast({
+        title: "Kirjautumislinkki ei kelpaa",
+        description: "Linkki on jo käytetty tai vanhentunut. Pyydä uusi koodi.",
+        variant: "destructive",
+      }))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [searchParams, setSearchParams, toast]);
+
+  // Vanhentunut istunto (token poistettu 401-vastauksesta) palauttaa kirjautumiseen
+  useEffect(() => {
+    if (isError && !getCustomerToken()) setLoggedIn(false);
+  }, [isError]);
+
+  const addVehicle = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!REGISTRATION_PATTERN.test(newVehicle.registrationNumber.trim())) {
+      toast({ title: "Tarkista rekisterinumero", description: "Esimerkiksi ABC-123.", variant: "destructive" });
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await customerApi.addVehicle(newVehicle.registrationNumber.trim(), newVehicle.nickname.trim() || undefined);
+      setNewVehicle({ registrationNumber: "", nickname: "" });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Auton lisäys epäonnistui",
+        description: error instanceof ApiError && error.status === 409
+          ? "Autotalliin mahtuu enintään 10 autoa."
+          : "Tarkista rekisterinumero ja yritä uudelleen.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const logout = async () => {
+    await customerApi.logout().catch(() => undefined);
+    queryClient.removeQueries({ queryKey: ["garage"] });
+    setLoggedIn(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 mesh-gradient" />
+
+      <div className="relative z-10 max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex items-center justify-between mb-10">
+          <Link to="/" className="inline-flex items-center gap-2 text-sm font-medium text-foreground/70 hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Etusivulle
+          </Link>
+          <img src={bemuFixLogo} alt="BemuFIX" className="h-12 w-auto" />
+        </div>
+
+        <div className="flex items-end justify-between gap-4 mb-4">
+          <h1 className="text-4xl md:text-5xl font-bold text-foreground">
+            Oma <span className="text-gradient">autotalli</span>
+          </h1>
+          {loggedIn && garage && (
+            <Button variant="ghost" size="sm" onClick={logout}>
+              <LogOut className="w-4 h-4" />
+              Kirjaudu ulos
+            </Button>
+          )}
+        </div>
+        <p className="text-muted-foreground text-lg mb-10">
+          Tallenna autosi, niin näet niiden tiedot ja huoltohistorian, ja chat tunnistaa autosi seuraavalla kerralla.
+        </p>
+
+        {!loggedIn ? (
+          <LoginCard onLogin={() => setLoggedIn(true)} />
+        ) : isError ? (
+          <p className="text-muted-foreground">Autotallin haku epäonnistui. Yritä hetken kuluttua uudelleen.</p>
+        ) : isLoading || !garage ? (
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        ) : (
+          <div className="space-y-8">
+            <p className="text-sm text-muted-foreground">Kirjautuneena {garage.customer.email}</p>
+
+            {garage.vehicles.length === 0 && (
+              <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl text-center">
+                <Car className="w-10 h-10 text-primary mx-auto mb-4" />
+                <p className="text-foreground">Autotallisi on vielä tyhjä. Lisää ensimmäinen autosi rekisterinumerolla.</p>
+              </div>
+            )}
+
+            {garage.vehicles.map((garageVehicle) => (
+              <VehicleCard key={garageVehicle.registrationNumber} garageVehicle={garageVehicle} onChange={() => refetch()} />
+            ))}
+
+            <form onSubmit={addVehicle} className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl space-y-4">
+              <h2 className="text-xl font-bold text-foreground">Lisää auto</h2>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="registration">Rekisterinumero</Label>
+                  <Input
+                    id="registration"
+                    required
+                    value={newVehicle.registrationNumber}
+                    onChange={(event) => setNewVehicle({ ...newVehicle, registrationNumber: event.target.value.toUpperCase() })}
+                    placeholder="ABC-123"
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="nickname">Lempinimi (valinnainen)</Label>
+                  <Input
+                    id="nickname"
+                    value={newVehicle.nickname}
+                    onChange={(event) => setNewVehicle({ ...newVehicle, nickname: event.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+              <Button type="submit" disabled={isAdding}>
+                {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Lisää autotalliin
+              </Button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Garage;
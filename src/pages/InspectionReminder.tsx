@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, BellRing, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, inspectionApi, InspectionSubscription } from "@/lib/api";
+import bemuFixLogo from "@/assets/bemufix-logo.avif";
+
+const REGISTRATION_PATTERN = /^[A-ZÅÄÖ]{2,3}-?\d{1,4}$/i;
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "d.M.yyyy");
+
+const InspectionReminder = () => {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ registrationNumber: "", email: "", phone: "" });
+  const [consent, setConsent] = useState(false);
+  const [subscription, setSubscription] = useState<InspectionSubscription | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: terms } = useQuery({
+    queryKey: ["inspection-consent"],
+    queryFn: () => inspectionApi.getConsent("fi"),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const subscribe = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!REGISTRATION_PATTERN.test(form.registrationNumber.trim())) {
+      toast({ title: "Tarkista rekisterinumero", description: "Esimerkiksi ABC-123.", variant: "destructive" });
+      return;
+    }
+    if (!form.email && !form.phone) {
+      toast({ title: "Yhteystieto puuttuu", description: "Kerro sähköposti tai puhelinnumero muistutuksia varten.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await inspectionApi.subscribe({
+        registrationNumber: form.registrationNumber.trim(),
+        email: form.email || undefined,
+        phone: form.phone || undefined,
+        consent: true,
+      });
+      setSubscription(result.subscription);
+      toast({ title: "Muistutukset tilattu!", description: `Muistutamme auton ${result.subscription.registrationNumber} katsastuksesta.` });
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 0;
+      toast({
+        title: "Tilaus epäonnistui",
+        description: status === 429
+          ? "Liian monta yritystä. Yritä myöhemmin uudelleen tai soita 050 547 7779."
+          : status === 400
+            ? "Tarkista rekisterinumero ja yhteystiedot."
+            : "Yritä hetken kuluttua uudelleen tai soita 050 547 7779.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 mesh-gradient" />
+
+      <div className="relative z-10 max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex items-center justify-between mb-10">
+          <Link to="/" className="inline-flex items-center gap-2 text-sm font-medium text-foreground/70 hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Etusivulle
+          </Link>
+          <img src={bemuFixLogo} alt="BemuFIX" className="h-12 w-auto" />
+        </div>
+
+        <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
+          Katsastus<span className="text-gradient">muistutus</span>
+        </h1>
+        <p className="text-muted-foreground text-lg mb-10">
+          Muistutamme katsastuksen määräajasta
+          {terms ? ` ${terms.reminderDays.slice().sort((a, b) => b - a).join(" ja ")} päivää ennen` : " hyvissä ajoin"}
+          {" "}ja tarjoamme katsastustarkastusta, jotta auto menee läpi kerralla.
+        </p>
+
+        <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+          {subscription ? (
+            <>
+              <BellRing className="w-10 h-10 text-primary mb-4" />
+              <h2 className="text-2xl font-bold text-foreground mb-2">Kiitos, muistutukset on tilattu!</h2>
+              <p className="text-foreground mb-1">{subscription.registrationNumber}</p>
+              <p className="text-muted-foreground">
+                {subscription.inspectionDue
+                  ? `Katsastus viimeistään ${formatDay(subscription.inspectionDue)}.`
+                  : "Haemme katsastuksen määräajan ajoneuvorekisteristä."}
+                {" "}Jokaisessa muistutuksessa on linkki, josta tilauksen voi lopettaa.
+              </p>
+            </>
+          ) : (
+            <form onSubmit={subscribe} className="space-y-4">
+              <div>
+                <Label htmlFor="registration">Rekisterinumero</Label>
+                <Input
+                  id="registration"
+                  required
+                  value={form.registrationNumber}
+                  onChange={(event) => setForm({ ...form, registrationNumber: event.target.value.toUpperCase() })}
+                  placeholder="ABC-123"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="phone">Puhelin (tekstiviesti)</Label>
+                <Input id="phone" type="tel" value={form.phone} onChange={(event) => setForm({ ...form, phone: event.target.value })} className="mt-2" />
+              </div>
+              <div>
+                <Label htmlFor="email">Sähköposti</Label>
+                <Input id="email" type="email" value={form.email} onChange={(event) => setForm({ ...form, email: event.target.value })} className="mt-2" />
+              </div>
+
+              <label className="flex items-start gap-3 text-sm text-foreground cursor-pointer">
+                <Checkbox checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} className="mt-0.5" />
+                <span>{terms?.text || "Hyväksyn katsastusmuistutusten lähettämisen."}</span>
+              </label>
+
+              <Button type="submit" disabled={isSubmitting || !consent || !terms} className="w-full">
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Tilaa muistutukset
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionReminder;
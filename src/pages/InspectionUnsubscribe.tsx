@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { inspectionApi } from "@/lib/api";
+import bemuFixLogo from "@/assets/bemufix-logo.avif";
+
+const InspectionUnsubscribe = () => {
+  const { token = "" } = useParams();
+  const { toast } = useToast();
+  const [isUnsubscribing, setIsUnsubscribing] = useState(false);
+
+  const { data: subscription, isLoading, isError, refetch } = useQuery({
+    queryKey: ["inspection-subscription", token],
+    queryFn: async () => (await inspectionApi.get(token)).subscription,
+    retry: false,
+  });
+
+  const unsubscribe = async () => {
+    setIsUnsubscribing(true);
+    try {
+      await inspectionApi.unsubscribe(token);
+      toast({ title: "Muistutukset lopetettu", description: "Emme lähetä enää katsastusmuistutuksia tälle autolle." });
+      refetch();
+    } catch {
+      toast({
+        title: "Lopettaminen epäonnistui",
+        description: "Yritä hetken kuluttua uudelleen tai soita 050 547 7779.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUnsubscribing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 mesh-gradient" />
+
+      <div className="relative z-10 max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex items-center justify-between mb-10">
+          <Link to="/" className="inline-flex items-center gap-2 text-sm font-medium text-foreground/70 hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Etusivulle
+          </Link>
+          <img src={bemuFixLogo} alt="BemuFIX" className="h-12 w-auto" />
+        </div>
+
+        <div className="p-8 rounded-3xl bg-white border border-black/5 shadow-xl">
+          <h1 className="text-2xl font-bold text-foreground mb-4">Katsastusmuistutusten lopettaminen</h1>
+
+          {isLoading && <Loader2 className="w-6 h-6 animate-spin text-primary" />}
+
+          {isError && (
+            <p className="text-muted-foreground">
+              Tilausta ei löytynyt. Tarkista linkki tai soita meille: 050 547 7779.
+            </p>
+          )}
+
+          {subscription && (
+            <>
+              <p className="text-foreground mb-1">{subscription.registrationNumber}</p>
+              <p className="text-muted-foreground">{[subscription.phone, subscription.email].filter(Boolean).join(", ")}</p>
+
+              {subscription.status === "unsubscribed" ? (
+                <p className="text-muted-foreground mt-4">Muistutukset on lopetettu.</p>
+              ) : (
+                <div className="flex gap-3 mt-6">
+                  <Button variant="destructive" disabled={isUnsubscribing} onClick={unsubscribe}>
+                    {isUnsubscribing && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Lopeta muistutukset
+                  </Button>
+                  <Button variant="ghost" asChild>
+                    <Link to="/">Jatka tilausta</Link>
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionUnsubscribe;